@@ -0,0 +1,24 @@
+/**
+ * Express adapter: mounts ApiRoutes on an Express app (the local dev server).
+ * Each route answers every method at its path, so unsupported methods get the same
+ * 405 they get on Vercel.
+ */
+import type { Express, Request, Response } from "express";
+import { normalizeQuery, runRoute, type ApiRoute } from "../http";
+
+export function mountRoutes(app: Express, routes: readonly ApiRoute[]) {
+  for (const route of routes) {
+    app.all(route.path, async (req: Request, res: Response) => {
+      const result = await runRoute(route, {
+        method: req.method,
+        headers: req.headers,
+        query: normalizeQuery(req.query as Record<string, unknown>),
+        body: req.body,
+      });
+
+      res.status(result.status).set(result.headers ?? {});
+      if (result.body === undefined) return res.end();
+      return typeof result.body === "string" ? res.send(result.body) : res.json(result.body);
+    });
+  }
+}
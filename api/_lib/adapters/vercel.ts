@@ -0,0 +1,26 @@
+/**
+ * Vercel adapter: turns an ApiRoute into the default export of a function in /api.
+ *
+ *   // api/login.ts
+ *   export default toVercelHandler(loginRoute);
+ */
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { normalizeQuery, runRoute, type ApiRoute } from "../http";
+
+export function toVercelHandler(route: ApiRoute) {
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    const result = await runRoute(route, {
+      method: req.method ?? "GET",
+      headers: req.headers,
+      query: normalizeQuery(req.query),
+      body: req.body,
+    });
+
+    for (const [name, value] of Object.entries(result.headers ?? {})) {
+      res.setHeader(name, value);
+    }
+    res.status(result.status);
+    if (result.body === undefined) return res.end();
+    return typeof result.body === "string" ? res.send(result.body) : res.json(result.body);
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Token signing, verification and role checks for the API routes.
+ *
+ * • Signs and verifies the HS256 JWT issued by POST /api/login with JWT_SECRET, the
+ *   Supabase project's JWT secret, so Supabase accepts the same token.
+ * • `authorize` guards a route: 401 without a token, 403 for an invalid token or a role
+ *   without the permission (thrown as HttpError).
+ */
+import jwt from "jsonwebtoken";
+import type { AuthTokenPayload } from "../../src/lib/auth";
+import { can, parseRole, type Permission, type Role } from "../../src/lib/roles";
+import { HttpError, type ApiRequest } from "./http";
+
+/**
+ * Verified claims of the caller, with the role resolved.
+ */
+export type AuthorizedUser = AuthTokenPayload & { role: Role };
+
+/**
+ * signToken: An HS256 JWT carrying `claims`, expiring after `expiresIn` seconds.
+ */
+export function signToken(
+  claims: Record<string, unknown>,
+  secret: string,
+  expiresIn: number
+): string {
+  return jwt.sign(claims, secret, { algorithm: "HS256", expiresIn });
+}
+
+/**
+ * verifyToken: The token's claims if its signature and expiry are valid, else null.
+ */
+export function verifyToken(token: string, secret: string): AuthTokenPayload | null {
+  try {
+    const claims = jwt.verify(token, secret, { algorithms: ["HS256"] });
+    return typeof claims === "object" ? (claims as AuthTokenPayload) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * bearerToken: The raw token of an `Authorization: Bearer <token>` header, or null.
+ */
+export function bearerToken(req: ApiRequest): string | null {
+  const authHeader = req.headers["authorization"];
+  return authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : null;
+}
+
+/**
+ * authorize: The caller's verified claims when they hold `permission` (or just a
+ * valid token when no permission is given). Otherwise throws a 401/403 HttpError.
+ */
+export function authorize(req: ApiRequest, permission?: Permission): AuthorizedUser {
+  const token = bearerToken(req);
+  if (!token) throw new HttpError(401, "Token missing.");
+
+  const claims = verifyToken(token, process.env.JWT_SECRET!);
+  if (!claims) throw new HttpError(403, "Token invalid.");
+
+  const role = parseRole(claims.appRole);
+  if (permission && !can(role, permission)) throw new HttpError(403, "Insufficient role.");
+  return { ...claims, role };
+}
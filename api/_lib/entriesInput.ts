@@ -0,0 +1,40 @@
+/**
+ * Validation for entries posted to the coaching routes (tip, weekly report).
+ * Keeps the entry fields the providers read and drops anything else.
+ */
+import * as z from "zod";
+import type { Entry } from "../../src/types/entry";
+import { LINE_TYPE_VALUES } from "../../src/lib/sales";
+import { HttpError } from "./http";
+
+const entriesSchema = z.array(
+  z.object({
+    date: z.string(),
+    voiceLines: z.coerce.string(),
+    bts: z.coerce.string(),
+    iot: z.coerce.string(),
+    hsi: z.coerce.string(),
+    accessories: z.coerce.string(),
+    protection: z.coerce.string(),
+    sales: z
+      .array(
+        z.object({
+          planName: z.string(),
+          lineType: z.enum(LINE_TYPE_VALUES),
+          mrc: z.coerce.string(),
+        })
+      )
+      .default([]),
+  })
+);
+
+/**
+ * parseEntriesBody: The `entries` array of a request body (empty when missing).
+ * @throws HttpError 400 when it isn't an array of entries
+ */
+export function parseEntriesBody(body: unknown): Entry[] {
+  const { entries = [] } = (body ?? {}) as { entries?: unknown };
+  const parsed = entriesSchema.safeParse(entries);
+  if (!parsed.success) throw new HttpError(400, "Missing or invalid `entries` array");
+  return parsed.data;
+}
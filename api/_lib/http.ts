@@ -0,0 +1,93 @@
+/**
+ * Framework-neutral HTTP types for the API routes.
+ *
+ * • Every route is written once as an `ApiRoute`: a method, a path and a handler that
+ *   takes a plain `ApiRequest` and resolves to an `ApiResult`.
+ * • The Vercel functions (api/*.ts) and the Express dev server (server/server.ts) only
+ *   adapt their own request/response objects to these types, so both backends run
+ *   exactly the same code.
+ * • Handlers reject with an `HttpError` for errors the caller should see; `runRoute`
+ *   turns it (and any other failure, as a 500) into the `{ error }` JSON body every
+ *   endpoint returns.
+ */
+import type { IncomingHttpHeaders } from "node:http";
+
+export type HttpMethod = "GET" | "POST";
+
+/**
+ * The parts of a request the handlers read. Repeated query parameters keep their
+ * first value.
+ */
+export type ApiRequest = {
+  method: string;
+  headers: IncomingHttpHeaders;
+  query: Record<string, string | undefined>;
+  body: unknown;
+};
+
+/**
+ * A handler's response: strings are sent as-is (set a Content-Type header), anything
+ * else as JSON; no body sends an empty response.
+ */
+export type ApiResult = {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+export type ApiHandler = (req: ApiRequest) => Promise<ApiResult>;
+
+export type ApiRoute = {
+  method: HttpMethod;
+  path: string;           // Mounted at this path by the Express server; the Vercel file name matches it
+  handler: ApiHandler;
+};
+
+/**
+ * HttpError is a failure with a status the caller should see (bad input, missing or
+ * insufficient token, a feature this server isn't configured for).
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * json: A JSON result.
+ */
+export const json = (status: number, body: unknown): ApiResult => ({ status, body });
+
+/**
+ * normalizeQuery: Flattens a parsed query string to one string per parameter.
+ */
+export function normalizeQuery(query: Record<string, unknown> = {}): ApiRequest["query"] {
+  return Object.fromEntries(
+    Object.entries(query).map(([key, value]) => {
+      const first = Array.isArray(value) ? value[0] : value;
+      return [key, typeof first === "string" ? first : undefined];
+    })
+  );
+}
+
+/**
+ * runRoute: Runs a route's handler for a request, answering 405 for other methods and
+ * turning errors into `{ error }` responses.
+ */
+export async function runRoute(route: ApiRoute, req: ApiRequest): Promise<ApiResult> {
+  if (req.method !== route.method) {
+    return { status: 405, body: "Method Not Allowed", headers: { Allow: route.method } };
+  }
+
+  try {
+    return await route.handler(req);
+  } catch (err: unknown) {
+    if (err instanceof HttpError) return json(err.status, { error: err.message });
+    console.error(`${route.path} error:`, err);
+    return json(500, { error: err instanceof Error ? err.message : String(err) });
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * The question planner for POST /api/askData.
+ *
+ * • `createOpenAIQuestionPlanner` asks an OpenAI chat model to turn a question into a
+ *   QueryPlan as JSON. The model only picks from the whitelisted metrics, groupings and
+ *   filters; the route validates its reply with `queryPlanSchema` and runs the plan
+ *   itself, so no model output ever reaches the database.
+ * • `getQuestionPlanner` is the one planner the route shares. It needs OPENAI_API_KEY;
+ *   without one, questions are answered with a 503 instead of failing as a 500.
+ */
+import OpenAI from "openai";
+import {
+  ASK_GROUPINGS,
+  ASK_METRICS,
+  ASK_METRIC_LABELS,
+  type QuestionPlanner,
+} from "../../src/lib/askData";
+import { LINE_TYPE_VALUES } from "../../src/lib/sales";
+import { HttpError } from "./http";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+const list = (values: readonly string[]) => values.map((v) => `"${v}"`).join(", ");
+
+const PLANNER_INSTRUCTIONS = `
+You translate a wireless sales rep's question about their own daily entries into a query plan.
+Reply with a single JSON object and nothing else, using only these keys:
+{
+  "metric": one of ${list(ASK_METRICS)} (required),
+  "from": "YYYY-MM-DD" (optional, inclusive),
+  "to": "YYYY-MM-DD" (optional, inclusive),
+  "planName": string (optional, only sales of this plan),
+  "lineType": one of ${list(LINE_TYPE_VALUES)} (optional, only sales of this line type),
+  "groupBy": one of ${list(ASK_GROUPINGS)} (optional),
+  "pick": "highest" or "lowest" (optional, needs groupBy)
+}
+Metrics:
+${ASK_METRICS.map((m) => `- ${m}: ${ASK_METRIC_LABELS[m].label} (${ASK_METRIC_LABELS[m].unit})`).join("\n")}
+Resolve relative dates ("this month", "last week"; weeks start on Monday) against today's date.
+Omit "from" and "to" for all time.
+Examples, with today 2026-10-19:
+- "How many HSI did I sell in the first half of the month?" → {"metric":"hsi","from":"2026-10-01","to":"2026-10-15"}
+- "Which plan had the best protection attach?" → {"metric":"protectionRate","groupBy":"plan","pick":"highest"}
+- "Total MRC per week in September" → {"metric":"mrc","from":"2026-09-01","to":"2026-09-30","groupBy":"week"}
+If the question can't be answered with these metrics, reply {"error": "<why>"}.
+`.trim();
+
+/**
+ * createOpenAIQuestionPlanner: Planner asking `model` for a QueryPlan.
+ * Rejects when the call fails, the reply isn't JSON or the model declines.
+ */
+export function createOpenAIQuestionPlanner({
+  apiKey,
+  model = DEFAULT_MODEL,
+}: {
+  apiKey: string;
+  model?: string;
+}): QuestionPlanner {
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    async plan(question, { today }) {
+      const completion = await openai.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: PLANNER_INSTRUCTIONS },
+          { role: "user", content: `Today is ${today}.\nQuestion: ${question}` },
+        ],
+        response_format: { type: "json_object" },
+        max_tokens: 200,
+      });
+
+      const raw = completion.choices?.[0]?.message.content ?? "";
+      let plan: unknown;
+      try {
+        plan = JSON.parse(raw);
+      } catch {
+        throw new Error("The model returned no query plan");
+      }
+      if (plan && typeof plan === "object" && "error" in plan) {
+        throw new Error(String(plan.error));
+      }
+      return plan;
+    },
+  };
+}
+
+let planner: QuestionPlanner | undefined;
+
+/**
+ * getQuestionPlanner: The OpenAI planner, created on first use (after the server has
+ * loaded its environment).
+ * @throws HttpError 503 when OPENAI_API_KEY is missing
+ */
+export function getQuestionPlanner(): QuestionPlanner {
+  if (!planner) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new HttpError(503, "Question answering is not configured (OPENAI_API_KEY is missing)");
+    }
+    planner = createOpenAIQuestionPlanner({
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_TIP_MODEL,
+    });
+  }
+  return planner;
+}
@@ -0,0 +1,38 @@
+/**
+ * Server-side repositories shared by the API routes.
+ *
+ * • Builds every Supabase client in one place (from SUPABASE_URL / SUPABASE_ANON_KEY).
+ * • Forwards the caller's `Authorization: Bearer <jwt>` header so row-level security
+ *   scopes each request to that user, exactly as it does for the browser client.
+ * • Exposes the typed EntriesRepository so handlers never touch the `entries` table directly.
+ */
+import { createClient } from "@supabase/supabase-js";
+import {
+  createSupabaseEntriesRepository,
+  type EntriesRepository,
+} from "../../src/lib/entriesRepository";
+import { bearerToken } from "./auth";
+import type { ApiRequest } from "./http";
+
+/**
+ * supabaseForRequest: Supabase client acting as the user who sent `req`.
+ * @returns null when the request carries no bearer token
+ */
+export function supabaseForRequest(req: ApiRequest) {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  return createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_ANON_KEY!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false },
+  });
+}
+
+/**
+ * entriesRepositoryFor: EntriesRepository scoped to the user who sent `req`.
+ * @returns null when the request carries no bearer token
+ */
+export function entriesRepositoryFor(req: ApiRequest): EntriesRepository | null {
+  const client = supabaseForRequest(req);
+  return client && createSupabaseEntriesRepository(client, { source: "api" });
+}
@@ -0,0 +1,80 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { createFakePlanner } from "../../../src/lib/askData";
+import { createInMemoryEntriesRepository } from "../../../src/lib/entriesRepository";
+import { entry } from "../../../src/tests/fixtures";
+import { signToken } from "../auth";
+import { runRoute, type ApiRequest } from "../http";
+import { createAskDataRoute } from "./askData";
+
+const request = (body: unknown): ApiRequest => ({
+  method: "POST",
+  headers: {
+    authorization: `Bearer ${signToken({ sub: "1", appRole: "rep" }, "test-secret", 60)}`,
+  },
+  query: {},
+  body,
+});
+
+describe("POST /api/askData", () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = "test-secret";
+  });
+
+  const routeWith = async (plans: Parameters<typeof createFakePlanner>[0]) => {
+    const repository = createInMemoryEntriesRepository();
+    await repository.createMany([
+      entry("2026-10-18", { hsi: "2" }),
+      entry("2026-10-19", { hsi: "3" }),
+    ]);
+    return createAskDataRoute({
+      getPlanner: () => createFakePlanner(plans),
+      repositoryFor: () => repository,
+    });
+  };
+
+  it("plans relative dates against the caller's today", async () => {
+    const route = await routeWith((_question, today) => ({ metric: "hsi", from: today, to: today }));
+
+    const result = await runRoute(route, request({ question: "HSI today?", today: "2026-10-18" }));
+
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({
+      plan: { metric: "hsi", from: "2026-10-18", to: "2026-10-18" },
+      answer: { value: 2 },
+    });
+  });
+
+  it("requires the caller's date", async () => {
+    const route = await routeWith({ "HSI today?": { metric: "hsi" } });
+
+    for (const today of [undefined, "18/10/2026"]) {
+      const result = await runRoute(route, request({ question: "HSI today?", today }));
+      expect(result).toEqual({ status: 400, body: { error: "`today` must be YYYY-MM-DD" } });
+    }
+  });
+
+  it("answers 503 when no OpenAI key is configured", async () => {
+    delete process.env.OPENAI_API_KEY;
+    const route = createAskDataRoute({
+      repositoryFor: () => createInMemoryEntriesRepository(),
+    });
+
+    const result = await runRoute(route, request({ question: "HSI today?", today: "2026-10-19" }));
+
+    expect(result).toEqual({
+      status: 503,
+      body: { error: "Question answering is not configured (OPENAI_API_KEY is missing)" },
+    });
+  });
+
+  it("answers 422 when the plan is outside the whitelist", async () => {
+    const route = await routeWith({ "Drop my entries": { metric: "hsi", sql: "delete" } });
+
+    const result = await runRoute(
+      route,
+      request({ question: "Drop my entries", today: "2026-10-19" })
+    );
+
+    expect(result.status).toBe(422);
+  });
+});
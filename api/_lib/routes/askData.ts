@@ -0,0 +1,65 @@
+import { QueryPlanError, answerQuestion, type QuestionPlanner } from "../../../src/lib/askData";
+import type { EntriesRepository } from "../../../src/lib/entriesRepository";
+import { authorize } from "../auth";
+import { HttpError, json, type ApiRequest, type ApiRoute } from "../http";
+import { getQuestionPlanner } from "../questionPlanner";
+import { entriesRepositoryFor } from "../repositories";
+
+const MAX_QUESTION_LENGTH = 500;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * createAskDataRoute: The askData route using `getPlanner` and `repositoryFor`
+ * (tests pass a fake planner and an in-memory repository).
+ */
+export function createAskDataRoute({
+  getPlanner = getQuestionPlanner,
+  repositoryFor = entriesRepositoryFor,
+}: {
+  getPlanner?: () => QuestionPlanner;
+  repositoryFor?: (req: ApiRequest) => EntriesRepository | null;
+} = {}): ApiRoute {
+  return {
+    method: "POST",
+    path: "/api/askData",
+    async handler(req) {
+      authorize(req);
+      const entriesRepository = repositoryFor(req);
+      if (!entriesRepository) throw new HttpError(401, "Token missing.");
+
+      const { question, today } = (req.body ?? {}) as { question?: unknown; today?: unknown };
+      if (typeof question !== "string" || !question.trim()) {
+        throw new HttpError(400, "`question` must be a non-empty string");
+      }
+      if (question.length > MAX_QUESTION_LENGTH) {
+        throw new HttpError(400, `\`question\` must be at most ${MAX_QUESTION_LENGTH} characters`);
+      }
+      if (typeof today !== "string" || !DATE_PATTERN.test(today)) {
+        throw new HttpError(400, "`today` must be YYYY-MM-DD");
+      }
+
+      try {
+        const { plan, answer } = await answerQuestion(question.trim(), {
+          planner: getPlanner(),
+          repository: entriesRepository,
+          today,
+        });
+        return json(200, { question: question.trim(), plan, answer });
+      } catch (err: unknown) {
+        if (err instanceof QueryPlanError) throw new HttpError(422, err.message);
+        throw err;
+      }
+    },
+  };
+}
+
+/**
+ * POST /api/askData  { question, today } → { question, plan, answer }
+ * Answers a natural-language question about the caller's entries, resolving relative
+ * dates against `today`, the caller's local date (YYYY-MM-DD). The model only
+ * writes a whitelisted QueryPlan (see askData.ts); the plan is validated and run
+ * over the entries row-level security lets the caller read, and the answer carries
+ * the number with the entries it came from. Questions that can't be planned get a 422.
+ */
+export const askDataRoute: ApiRoute = createAskDataRoute();
@@ -0,0 +1,23 @@
+import { authorize } from "../auth";
+import { HttpError, json, type ApiRoute } from "../http";
+import { entriesRepositoryFor } from "../repositories";
+
+/**
+ * POST /api/clearEntries → { cleared, batchId }
+ * Moves every one of the caller's entries to the trash (admins only).
+ */
+export const clearEntriesRoute: ApiRoute = {
+  method: "POST",
+  path: "/api/clearEntries",
+  async handler(req) {
+    // Bulk deletes are for admins only
+    authorize(req, "entries:clear");
+
+    // Only the caller's own rows are cleared (row-level security)
+    const entriesRepository = entriesRepositoryFor(req);
+    if (!entriesRepository) throw new HttpError(401, "Token missing.");
+
+    // Entries go to the trash; `batchId` restores the whole clear
+    return json(200, await entriesRepository.clear());
+  },
+};
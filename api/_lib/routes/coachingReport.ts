@@ -0,0 +1,21 @@
+import { authorize } from "../auth";
+import { parseEntriesBody } from "../entriesInput";
+import { json, type ApiRoute } from "../http";
+import { getTipProvider } from "../tipProvider";
+
+/**
+ * POST /api/coachingReport  { entries } → { report, provider, fallbackReason? }
+ * The weekly coaching report for a week of the caller's entries: strengths,
+ * weaknesses and a focus metric with target and actions (see coachingReportSchema).
+ * Model output that doesn't match the schema is retried once, then replaced by the
+ * rule-based report with `fallbackReason` set.
+ */
+export const coachingReportRoute: ApiRoute = {
+  method: "POST",
+  path: "/api/coachingReport",
+  async handler(req) {
+    authorize(req);
+    const entries = parseEntriesBody(req.body);
+    return json(200, await getTipProvider().generateReport(entries));
+  },
+};
@@ -0,0 +1,52 @@
+import {
+  csvFilename,
+  entriesToCsv,
+  summaryToCsv,
+} from "../../../src/lib/csvExport";
+import type { DateRange } from "../../../src/lib/dateRange";
+import { listAllEntries } from "../../../src/lib/entriesRepository";
+import { summarizeTotals } from "../../../src/lib/summary";
+import { authorize } from "../auth";
+import { HttpError, type ApiRoute } from "../http";
+import { entriesRepositoryFor } from "../repositories";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/exportEntries?from=YYYY-MM-DD&to=YYYY-MM-DD&kind=entries|summary
+ * The caller's entries (or their Summary Statistics totals) as a CSV download.
+ * `from` / `to` are optional and inclusive; omit both for all time. Every entry in the
+ * range is exported, read page by page.
+ */
+export const exportEntriesRoute: ApiRoute = {
+  method: "GET",
+  path: "/api/exportEntries",
+  async handler(req) {
+    authorize(req);
+    const entriesRepository = entriesRepositoryFor(req);
+    if (!entriesRepository) throw new HttpError(401, "Token missing.");
+
+    const { from, to, kind = "entries" } = req.query;
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      throw new HttpError(400, "`from` and `to` must be YYYY-MM-DD");
+    }
+    if (kind !== "entries" && kind !== "summary") {
+      throw new HttpError(400, "`kind` must be entries or summary");
+    }
+
+    const range: DateRange = { from, to };
+    const csv =
+      kind === "summary"
+        ? summaryToCsv(summarizeTotals(await entriesRepository.dailyTotals(range)), range)
+        : entriesToCsv(await listAllEntries(entriesRepository, range));
+
+    return {
+      status: 200,
+      body: csv,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${csvFilename(kind, range)}"`,
+      },
+    };
+  },
+};
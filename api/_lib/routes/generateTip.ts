@@ -0,0 +1,21 @@
+import { NO_ENTRIES_TIP } from "../../../src/lib/tipProviders";
+import { authorize } from "../auth";
+import { parseEntriesBody } from "../entriesInput";
+import { json, type ApiRoute } from "../http";
+import { getTipProvider } from "../tipProvider";
+
+/**
+ * POST /api/generateTip  { entries } → { tip, provider }
+ * A one-line sales tip for the given entries (bearer token required), from the
+ * provider chosen by TIP_PROVIDER (api/_lib/tipProvider.ts).
+ */
+export const generateTipRoute: ApiRoute = {
+  method: "POST",
+  path: "/api/generateTip",
+  async handler(req) {
+    authorize(req);
+    const entries = parseEntriesBody(req.body);
+    if (entries.length === 0) return json(200, { tip: NO_ENTRIES_TIP, provider: "none" });
+    return json(200, await getTipProvider().generateTip(entries));
+  },
+};
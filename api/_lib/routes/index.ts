@@ -0,0 +1,32 @@
+/**
+ * Every API route, for the Express server to mount. Each Vercel function in /api
+ * exports one of them through the Vercel adapter.
+ */
+import type { ApiRoute } from "../http";
+import { askDataRoute } from "./askData";
+import { clearEntriesRoute } from "./clearEntries";
+import { coachingReportRoute } from "./coachingReport";
+import { exportEntriesRoute } from "./exportEntries";
+import { generateTipRoute } from "./generateTip";
+import { loginRoute } from "./login";
+import { usersRoute } from "./users";
+
+export {
+  askDataRoute,
+  clearEntriesRoute,
+  coachingReportRoute,
+  exportEntriesRoute,
+  generateTipRoute,
+  loginRoute,
+  usersRoute,
+};
+
+export const routes: readonly ApiRoute[] = [
+  loginRoute,
+  usersRoute,
+  generateTipRoute,
+  coachingReportRoute,
+  askDataRoute,
+  clearEntriesRoute,
+  exportEntriesRoute,
+];
@@ -0,0 +1,43 @@
+import bcrypt from "bcryptjs";
+import { signToken } from "../auth";
+import { HttpError, json, type ApiRoute } from "../http";
+import { USERS } from "../users";
+
+// Sessions last 2 hours
+const TOKEN_LIFETIME_SECONDS = 2 * 60 * 60;
+
+/**
+ * POST /api/login  { username, password } → { token }
+ * Issues a JWT (with the user's role) on valid credentials.
+ */
+export const loginRoute: ApiRoute = {
+  method: "POST",
+  path: "/api/login",
+  async handler(req) {
+    const { username, password } = (req.body ?? {}) as {
+      username?: string;
+      password?: string;
+    };
+    if (!username || !password) throw new HttpError(400, "Missing credentials.");
+
+    const user = USERS.find((u) => u.username === username);
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      throw new HttpError(401, "Invalid credentials.");
+    }
+
+    // `sub` + `role` are the claims Supabase needs: `role` selects the Postgres role
+    // and `sub` is what the row-level security policies compare `entries.user_id` to.
+    const token = signToken(
+      {
+        sub: String(user.id),
+        role: "authenticated",
+        userId: user.id,
+        username: user.username,
+        appRole: user.role,
+      },
+      process.env.JWT_SECRET!,
+      TOKEN_LIFETIME_SECONDS
+    );
+    return json(200, { token });
+  },
+};
@@ -0,0 +1,18 @@
+import { authorize } from "../auth";
+import { json, type ApiRoute } from "../http";
+import { USERS } from "../users";
+
+/**
+ * GET /api/users → { users: [{ id, username, role }] }
+ * The demo users and their roles, for assigning reps to teams (admins only).
+ */
+export const usersRoute: ApiRoute = {
+  method: "GET",
+  path: "/api/users",
+  async handler(req) {
+    authorize(req, "team:assign");
+    return json(200, {
+      users: USERS.map(({ id, username, role }) => ({ id: String(id), username, role })),
+    });
+  },
+};
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { entry } from "../../src/tests/fixtures";
+import { tipProviderFromEnv } from "./tipProvider";
+
+// Every OpenAI call fails, as when the API is down or the key is revoked
+vi.mock("openai", () => ({
+  default: class {
+    chat = { completions: { create: vi.fn().mockRejectedValue(new Error("API unavailable")) } };
+  },
+}));
+
+const entries = [
+  entry("2026-10-19", { voiceLines: "4", bts: "1", hsi: "1", accessories: "40", protection: "1" }),
+];
+
+describe("tipProviderFromEnv", () => {
+  it("uses OpenAI with the rule-based fallback when a key is set", () => {
+    expect(tipProviderFromEnv({ OPENAI_API_KEY: "sk-test" }).name).toBe("openai+rules");
+  });
+
+  it("uses the rule-based coach without a key", () => {
+    expect(tipProviderFromEnv({}).name).toBe("rules");
+  });
+
+  it("uses the provider named by TIP_PROVIDER", () => {
+    expect(tipProviderFromEnv({ TIP_PROVIDER: "rules", OPENAI_API_KEY: "sk-test" }).name).toBe(
+      "rules"
+    );
+    expect(tipProviderFromEnv({ TIP_PROVIDER: "mock" }).name).toBe("mock");
+    expect(tipProviderFromEnv({ TIP_PROVIDER: "openai", OPENAI_API_KEY: "sk-test" }).name).toBe(
+      "openai+rules"
+    );
+  });
+
+  it("rejects TIP_PROVIDER=openai without a key", () => {
+    expect(() => tipProviderFromEnv({ TIP_PROVIDER: "openai" })).toThrow("OPENAI_API_KEY");
+  });
+
+  it("rejects an unknown TIP_PROVIDER", () => {
+    expect(() => tipProviderFromEnv({ TIP_PROVIDER: "gemini" })).toThrow(
+      'Unknown TIP_PROVIDER "gemini"'
+    );
+  });
+
+  describe("when OpenAI fails", () => {
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("falls back to the rule-based tip", async () => {
+      const provider = tipProviderFromEnv({ OPENAI_API_KEY: "sk-test" });
+
+      const result = await provider.generateTip(entries);
+
+      expect(result.provider).toBe("rules");
+      expect(result.tip).not.toBe("");
+    });
+
+    it("falls back to the rule-based report and says why", async () => {
+      const provider = tipProviderFromEnv({ OPENAI_API_KEY: "sk-test" });
+
+      const result = await provider.generateReport(entries);
+
+      expect(result.provider).toBe("rules");
+      expect(result.fallbackReason).toBe("API unavailable");
+    });
+  });
+});
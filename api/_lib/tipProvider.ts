@@ -0,0 +1,155 @@
+/**
+ * Tip providers for POST /api/generateTip, chosen by config.
+ *
+ * • `createOpenAITipProvider` asks an OpenAI chat model for the tip, and for the weekly
+ *   report as JSON, validated against `coachingReportSchema` (one corrective retry).
+ * • `tipProviderFromEnv` reads TIP_PROVIDER:
+ *     – "openai" → OpenAI, falling back to the rule-based coach when the call fails
+ *     – "rules"  → the offline rule-based coach only
+ *     – "mock"   → a fixed tip (for tests and demos)
+ *   Unset, it uses OpenAI when OPENAI_API_KEY is set and the rule-based coach otherwise,
+ *   so tips work with no API key or network.
+ * • `getTipProvider` is the one provider the routes share.
+ */
+import OpenAI from "openai";
+import type { Entry } from "../../src/types/entry";
+import { summarizeEntries } from "../../src/lib/summary";
+import { FOCUS_METRICS, parseCoachingReport } from "../../src/lib/coachingReport";
+import {
+  createMockTipProvider,
+  createRuleBasedTipProvider,
+  withFallback,
+  type TipProvider,
+} from "../../src/lib/tipProviders";
+
+export type TipProviderName = "openai" | "rules" | "mock";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+// Model calls per report: the first attempt plus one retry after invalid output
+const REPORT_ATTEMPTS = 2;
+
+const REPORT_INSTRUCTIONS = `
+You are a retail wireless sales coach preparing a rep's weekly one-on-one.
+Reply with a single JSON object and nothing else, shaped exactly like this:
+{
+  "summary": string (2-3 sentences on the week),
+  "strengths": [{ "title": string, "detail": string }] (1-5 items),
+  "weaknesses": [{ "title": string, "detail": string }] (1-5 items),
+  "focus": {
+    "metric": one of ${FOCUS_METRICS.map((m) => `"${m}"`).join(", ")},
+    "current": number (this week's value of the metric),
+    "target": number (next week's target for the metric),
+    "actions": [string] (1-5 concrete actions)
+  }
+}
+Units: line metrics count lines per week, protectionRate is a percentage of all lines,
+accessories is dollars per week, averageMrc is dollars per plan sale.
+Base every statement on the numbers provided.
+`.trim();
+
+/**
+ * createOpenAITipProvider: Provider asking `model` for one concise tip.
+ * Rejects when the call fails or the model returns no text.
+ */
+export function createOpenAITipProvider({
+  apiKey,
+  model = DEFAULT_MODEL,
+}: {
+  apiKey: string;
+  model?: string;
+}): TipProvider {
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    name: "openai",
+    async generateTip(entries: Entry[]) {
+      const prompt = `
+You are a sales coach. Given these entries:
+${JSON.stringify(entries, null, 2)}
+Give me one concise actionable tip to improve performance this week.
+`.trim();
+
+      const completion = await openai.chat.completions.create({
+        model,
+        messages: [
+          { role: "system", content: "You are a helpful sales coach assistant." },
+          { role: "user", content: prompt },
+        ],
+        max_tokens: 60,
+      });
+
+      const tip = completion.choices?.[0]?.message.content?.trim();
+      if (!tip) throw new Error("The model returned no tip");
+      return { tip, provider: "openai" };
+    },
+
+    async generateReport(entries: Entry[]) {
+      const messages: OpenAI.ChatCompletionMessageParam[] = [
+        { role: "system", content: REPORT_INSTRUCTIONS },
+        {
+          role: "user",
+          content: `Week totals:\n${JSON.stringify(summarizeEntries(entries), null, 2)}\n\nEntries:\n${JSON.stringify(entries, null, 2)}`,
+        },
+      ];
+
+      let reason = "";
+      for (let attempt = 1; attempt <= REPORT_ATTEMPTS; attempt++) {
+        const completion = await openai.chat.completions.create({
+          model,
+          messages,
+          response_format: { type: "json_object" },
+          max_tokens: 800,
+        });
+        const raw = completion.choices?.[0]?.message.content ?? "";
+        const parsed = parseCoachingReport(raw);
+        if ("report" in parsed) return { report: parsed.report, provider: "openai" };
+
+        // Show the model what was wrong and ask once more
+        reason = parsed.error;
+        messages.push(
+          { role: "assistant", content: raw },
+          {
+            role: "user",
+            content: `That reply doesn't match the required shape (${reason}). Reply with the corrected JSON object only.`,
+          }
+        );
+      }
+      throw new Error(`The model returned an invalid report: ${reason}`);
+    },
+  };
+}
+
+/**
+ * tipProviderFromEnv: The provider selected by TIP_PROVIDER (see above).
+ * @throws when TIP_PROVIDER is unknown, or "openai" without OPENAI_API_KEY
+ */
+export function tipProviderFromEnv(env: NodeJS.ProcessEnv = process.env): TipProvider {
+  const name = (env.TIP_PROVIDER || (env.OPENAI_API_KEY ? "openai" : "rules")) as TipProviderName;
+
+  switch (name) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) throw new Error("TIP_PROVIDER=openai needs OPENAI_API_KEY");
+      return withFallback(
+        createOpenAITipProvider({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_TIP_MODEL }),
+        createRuleBasedTipProvider()
+      );
+    case "rules":
+      return createRuleBasedTipProvider();
+    case "mock":
+      return createMockTipProvider();
+    default:
+      throw new Error(`Unknown TIP_PROVIDER "${name}" (use openai, rules or mock)`);
+  }
+}
+
+let provider: TipProvider | undefined;
+
+/**
+ * getTipProvider: The configured provider, created on first use (after the server
+ * has loaded its environment).
+ */
+export function getTipProvider(): TipProvider {
+  provider ??= tipProviderFromEnv();
+  return provider;
+}
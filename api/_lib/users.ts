@@ -0,0 +1,35 @@
+/**
+ * Demo user store for POST /api/login.
+ *
+ * Pre-hashed password: “password123” with bcryptjs (10 salt rounds).
+ * In production, this would be stored and looked up in a real database.
+ */
+import type { Role } from "../../src/lib/roles";
+
+export type DemoUser = {
+  id: number;
+  username: string;
+  role: Role;
+  passwordHash: string;
+};
+
+export const USERS: readonly DemoUser[] = [
+  {
+    id: 1,
+    username: "admin",
+    role: "admin",
+    passwordHash: "$2b$10$Qcs.EaETZC0lP9fbqqMoRerZaQNzgx6nP.brhOddrahJfqEGTfkhW",
+  },
+  {
+    id: 2,
+    username: "manager",
+    role: "manager",
+    passwordHash: "$2b$10$Qcs.EaETZC0lP9fbqqMoRerZaQNzgx6nP.brhOddrahJfqEGTfkhW",
+  },
+  {
+    id: 3,
+    username: "rep",
+    role: "rep",
+    passwordHash: "$2b$10$Qcs.EaETZC0lP9fbqqMoRerZaQNzgx6nP.brhOddrahJfqEGTfkhW",
+  },
+];
@@ -0,0 +1,5 @@
+// POST /api/askData (handler in _lib/routes/askData.ts, shared with the Express server)
+import { toVercelHandler } from "./_lib/adapters/vercel";
+import { askDataRoute } from "./_lib/routes";
+
+export default toVercelHandler(askDataRoute);
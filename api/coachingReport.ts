@@ -0,0 +1,5 @@
+// POST /api/coachingReport (handler in _lib/routes/coachingReport.ts, shared with the Express server)
+import { toVercelHandler } from "./_lib/adapters/vercel";
+import { coachingReportRoute } from "./_lib/routes";
+
+export default toVercelHandler(coachingReportRoute);
@@ -0,0 +1,5 @@
+// GET /api/exportEntries (handler in _lib/routes/exportEntries.ts, shared with the Express server)
+import { toVercelHandler } from "./_lib/adapters/vercel";
+import { exportEntriesRoute } from "./_lib/routes";
+
+export default toVercelHandler(exportEntriesRoute);
@@ -0,0 +1,5 @@
+// POST /api/login (handler in _lib/routes/login.ts, shared with the Express server)
+import { toVercelHandler } from "./_lib/adapters/vercel";
+import { loginRoute } from "./_lib/routes";
+
+export default toVercelHandler(loginRoute);
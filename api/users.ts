@@ -0,0 +1,5 @@
+// GET /api/users (handler in _lib/routes/users.ts, shared with the Express server)
+import { toVercelHandler } from "./_lib/adapters/vercel";
+import { usersRoute } from "./_lib/routes";
+
+export default toVercelHandler(usersRoute);
@@ -0,0 +1,45 @@
+/**
+ * Local API server (Node.js + Express), used by the Vite dev proxy.
+ *
+ * • Loads environment variables via dotenv (OPENAI_API_KEY, JWT_SECRET,
+ *   SUPABASE_URL, SUPABASE_ANON_KEY, PORT).
+ * • Mounts the same typed routes the Vercel functions in /api export
+ *   (api/_lib/routes), so local dev and production behave identically:
+ *     – POST /api/login         → issues JWT (with the user's role) on valid credentials
+ *     – GET  /api/users         → demo users and their roles (managers & admins)
+ *     – POST /api/generateTip   → returns an AI-generated sales tip
+ *     – POST /api/coachingReport → the weekly coaching report as validated JSON
+ *     – POST /api/askData       → answers a question about the caller's entries
+ *     – POST /api/clearEntries  → moves the caller's entries to the trash (admins)
+ *     – GET  /api/exportEntries → the caller's entries or totals as CSV
+ * • Starts listening on the specified PORT.
+ *
+ * The routes' own packages (jsonwebtoken, bcryptjs, openai, Supabase, zod) come
+ * from the root install, where the code in api/_lib resolves them.
+ */
+
+import express from "express";
+import cors from "cors";
+import dotenv from "dotenv";
+import { mountRoutes } from "../api/_lib/adapters/express";
+import { routes } from "../api/_lib/routes";
+
+// Load variables from .env into process.env
+dotenv.config();
+
+// Create the Express application
+const app = express();
+
+// Enable Cross-Origin Resource Sharing for all routes
+app.use(cors());
+
+// Parse JSON bodies for incoming requests
+app.use(express.json());
+
+mountRoutes(app, routes);
+
+// ── Start the server on the configured port ───────────────────────────
+const PORT = process.env.PORT || 4000;
+app.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT}`);
+});
@@ -1,11 +1,64 @@
-import { Routes, Route } from "react-router-dom";
+import { Routes, Route, Navigate } from "react-router-dom";
 import PerformanceTracker from "./pages/PerformanceTracker";
+import Login from "./pages/Login";
+import Settings from "./pages/Settings";
+import Team from "./pages/Team";
+import Trash from "./pages/Trash";
+import AuditLog from "./pages/AuditLog";
+import { ProtectedRoute } from "./components/protected-route";
 
 export default function App() {
   return (
     <Routes>
-      {/* Single catch-all route */}
-      <Route path="*" element={<PerformanceTracker />} />
+      {/* Public login page */}
+      <Route path="/login" element={<Login />} />
+      {/* Dashboard (requires a valid session) */}
+      <Route
+        path="/"
+        element={
+          <ProtectedRoute>
+            <PerformanceTracker />
+          </ProtectedRoute>
+        }
+      />
+      {/* Plan catalog & name normalization (requires a valid session) */}
+      <Route
+        path="/settings"
+        element={
+          <ProtectedRoute>
+            <Settings />
+          </ProtectedRoute>
+        }
+      />
+      {/* Deleted entries & restore (requires a valid session) */}
+      <Route
+        path="/trash"
+        element={
+          <ProtectedRoute>
+            <Trash />
+          </ProtectedRoute>
+        }
+      />
+      {/* History of entry changes, filterable by user & date (requires a valid session) */}
+      <Route
+        path="/audit"
+        element={
+          <ProtectedRoute>
+            <AuditLog />
+          </ProtectedRoute>
+        }
+      />
+      {/* Manager dashboard: team leaderboard & rep drill-down (managers & admins) */}
+      <Route
+        path="/team"
+        element={
+          <ProtectedRoute permission="team:read">
+            <Team />
+          </ProtectedRoute>
+        }
+      />
+      {/* Anything else goes to the dashboard (and through its guard) */}
+      <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
 }
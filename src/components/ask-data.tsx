@@ -0,0 +1,117 @@
+import { useState } from "react"
+import type { AskDataResult } from "@/hooks/useAskData"
+import { formatMetric } from "@/lib/askData"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { RepEntries } from "@/components/rep-entries"
+
+// Offered under the question box to show what can be asked
+const EXAMPLE_QUESTIONS = [
+  "How many HSI did I sell this month?",
+  "Which plan had the best protection attach?",
+  "Total MRC per week in the last 30 days",
+]
+
+interface AskDataProps {
+  result: AskDataResult | null
+  error: string
+  isLoading: boolean
+  onAsk: (question: string) => void
+}
+
+/**
+ * AskData
+ * Question box for plain-English questions about the user's own entries. Shows the
+ * answer with its number, the per-group values for grouped questions and the
+ * entries the number came from.
+ */
+export function AskData({ result, error, isLoading, onAsk }: AskDataProps) {
+  const [question, setQuestion] = useState("")
+
+  const submit = (text: string) => {
+    setQuestion(text)
+    if (text.trim()) onAsk(text.trim())
+  }
+
+  return (
+    <div className="space-y-4 text-sm text-tblack">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          submit(question)
+        }}
+        className="flex gap-2"
+      >
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={500}
+          aria-label="Question about your entries"
+          placeholder="e.g. How many HSI did I sell in the first half of the month?"
+          className="border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+        />
+        <Button
+          type="submit"
+          disabled={!question.trim() || isLoading}
+          className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+        >
+          {isLoading ? "Asking…" : "Ask"}
+        </Button>
+      </form>
+
+      <div className="flex flex-wrap gap-2">
+        {EXAMPLE_QUESTIONS.map((example) => (
+          <Button
+            key={example}
+            size="sm"
+            variant="outline"
+            disabled={isLoading}
+            onClick={() => submit(example)}
+            className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+          >
+            {example}
+          </Button>
+        ))}
+      </div>
+
+      {error && <p className="text-red-600">Could not answer that: {error}</p>}
+
+      {result && !error && (
+        <div className="space-y-3">
+          <div>
+            <p className="text-xs text-gray-500">“{result.question}”</p>
+            <p className="text-3xl font-bold text-tmagenta">
+              {formatMetric(result.answer.metric, result.answer.value)}
+            </p>
+            <p>{result.answer.text}</p>
+          </div>
+
+          {result.answer.groups.length > 1 && (
+            <ul className="grid gap-1 sm:grid-cols-2 md:grid-cols-3">
+              {result.answer.groups.map((group) => (
+                <li key={group.key} className="flex justify-between rounded bg-gray-50 px-2 py-1">
+                  <span>{group.label}</span>
+                  <span className="font-medium">
+                    {formatMetric(result.answer.metric, group.value)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <h3 className="mb-1 font-semibold">
+              Source entries{" "}
+              <span className="font-normal text-gray-500">
+                {result.answer.rows.length < result.answer.rowCount
+                  ? `(showing ${result.answer.rows.length} of ${result.answer.rowCount})`
+                  : `(${result.answer.rowCount})`}
+              </span>
+            </h3>
+            <RepEntries entries={result.answer.rows} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
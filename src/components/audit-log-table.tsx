@@ -0,0 +1,84 @@
+import type { AuditActor, AuditRecord } from "@/types/audit"
+import { ACTION_LABELS, SOURCE_LABELS, changedFields } from "@/lib/auditLog"
+
+interface AuditLogTableProps {
+  records: AuditRecord[]
+  actors: AuditActor[]    // Names for the entry owners' ids
+}
+
+// "Jun 3, 2026, 4:05:12 PM" in the user's locale
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "medium" })
+
+/**
+ * AuditLogTable
+ * Read-only list of audit records: when, who, what happened to which entry, from
+ * where, and the values before → after.
+ */
+export function AuditLogTable({ records, actors }: AuditLogTableProps) {
+  if (records.length === 0) {
+    return <p className="text-sm text-gray-500">No changes match these filters.</p>
+  }
+
+  const nameOf = (userId: string) => actors.find((a) => a.id === userId)?.name ?? `User ${userId}`
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full table-auto border-collapse text-sm text-tblack">
+        <thead className="bg-gray-100">
+          <tr>
+            {["When", "Who", "Action", "Entry", "Source", "Changes"].map((heading) => (
+              <th key={heading} className="px-4 py-2 text-left font-medium">
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {records.map((record, idx) => {
+            const entry = record.after ?? record.before
+            const changes = changedFields(record)
+            return (
+              <tr key={record.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                <td className="whitespace-nowrap px-4 py-2 align-top">
+                  {formatTimestamp(record.createdAt)}
+                </td>
+                <td className="px-4 py-2 align-top">
+                  {record.actorName ?? (record.actorId ? nameOf(record.actorId) : "System")}
+                </td>
+                <td className="px-4 py-2 align-top">{ACTION_LABELS[record.action]}</td>
+                <td className="whitespace-nowrap px-4 py-2 align-top">
+                  {entry?.date ?? record.entryId}
+                  {record.userId !== record.actorId && (
+                    <span className="block text-xs text-gray-500">
+                      owner: {nameOf(record.userId)}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 align-top">{SOURCE_LABELS[record.source]}</td>
+                <td className="px-4 py-2 align-top">
+                  {changes.length === 0 ? (
+                    <span className="text-gray-500">—</span>
+                  ) : (
+                    <ul>
+                      {changes.map((change) => (
+                        <li key={change.label}>
+                          <span className="font-medium">{change.label}:</span>{" "}
+                          {change.before !== null && (
+                            <span className="text-gray-500 line-through">{change.before}</span>
+                          )}
+                          {change.before !== null && change.after !== null && " → "}
+                          {change.after}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
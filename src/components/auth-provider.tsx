@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { AuthContext, type AuthContextValue } from "@/context/auth-context"
+import {
+  clearStoredToken,
+  decodeToken,
+  getStoredToken,
+  requestLogin,
+  storeToken,
+  tokenExpiresAt,
+} from "@/lib/auth"
+import { can, parseRole } from "@/lib/roles"
+
+/**
+ * AuthProvider
+ * • Holds the JWT issued by /api/login and its expiry.
+ * • Restores a still-valid token from localStorage on first render.
+ * • Signs the user out automatically the moment the token expires.
+ * • Exposes the user's role and a `can(permission)` check for hiding what they can't do.
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [token, setToken] = useState<string | null>(() => getStoredToken())
+
+  const login = useCallback(async (username: string, password: string) => {
+    const newToken = await requestLogin(username, password)
+    storeToken(newToken)
+    setToken(newToken)
+  }, [])
+
+  const logout = useCallback(() => {
+    clearStoredToken()
+    setToken(null)
+  }, [])
+
+  // Schedule an automatic logout for when the current token expires
+  useEffect(() => {
+    if (!token) return
+    const timer = window.setTimeout(logout, tokenExpiresAt(token) - Date.now())
+    return () => window.clearTimeout(timer)
+  }, [token, logout])
+
+  const value = useMemo<AuthContextValue>(() => {
+    const user = token ? decodeToken(token) : null
+    const role = parseRole(user?.appRole)
+    return {
+      token,
+      user,
+      role,
+      can: (permission) => user !== null && can(role, permission),
+      expiresAt: token ? tokenExpiresAt(token) : null,
+      isAuthenticated: token !== null,
+      login,
+      logout,
+    }
+  }, [token, login, logout])
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
@@ -0,0 +1,109 @@
+import type { CoachingReportResult } from "@/hooks/useCoachingReport"
+import { FOCUS_METRIC_LABELS } from "@/lib/coachingReport"
+import { describeRange } from "@/lib/dateRange"
+import { Button } from "@/components/ui/button"
+
+interface CoachingReportProps {
+  result: CoachingReportResult | null
+  error: string
+  isLoading: boolean
+  onGenerate: () => void   // Also used to retry
+}
+
+const formatValue = (value: number, unit: string) =>
+  unit.startsWith("$") ? `$${value.toFixed(2)}` : unit === "%" ? `${value}%` : String(value)
+
+/**
+ * CoachingReport
+ * The weekly coaching report card: summary, strengths, weaknesses and the focus
+ * metric (current → target, with suggested actions). Generated on demand; failed
+ * requests and reports written by the rule-based fallback offer a retry.
+ */
+export function CoachingReport({ result, error, isLoading, onGenerate }: CoachingReportProps) {
+  if (isLoading) {
+    return <p className="text-sm text-tblack">Writing your report…</p>
+  }
+
+  if (!result) {
+    return (
+      <div className="space-y-2 text-sm text-tblack">
+        {error ? (
+          <p className="text-red-600">Could not generate the report: {error}</p>
+        ) : (
+          <p className="text-gray-500">
+            Strengths, weaknesses and one focus metric for the last 7 days, for your one-on-one.
+          </p>
+        )}
+        <Button onClick={onGenerate} className="bg-tmagenta text-twhite hover:bg-tmagenta/90">
+          {error ? "Retry" : "Generate report"}
+        </Button>
+      </div>
+    )
+  }
+
+  const { report, range, provider, fallbackReason } = result
+  const focus = FOCUS_METRIC_LABELS[report.focus.metric]
+
+  return (
+    <div className="space-y-4 text-sm text-tblack">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-xs text-gray-500">
+            {describeRange(range)} · {provider}
+          </p>
+          <p className="mt-1">{report.summary}</p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onGenerate}
+          className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+        >
+          Regenerate
+        </Button>
+      </div>
+
+      {(fallbackReason || error) && (
+        <p className="rounded-md border border-amber-300 bg-amber-50 p-2 text-amber-800">
+          {error
+            ? `Could not regenerate the report (${error}); showing the previous one.`
+            : "The AI report couldn't be used, so this one was written by the built-in coach. Regenerate to try the AI again."}
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {(
+          [
+            ["Strengths", report.strengths, "text-green-700"],
+            ["Weaknesses", report.weaknesses, "text-red-700"],
+          ] as const
+        ).map(([heading, points, color]) => (
+          <div key={heading}>
+            <h3 className={`mb-1 font-semibold ${color}`}>{heading}</h3>
+            <ul className="space-y-1">
+              {points.map((point) => (
+                <li key={point.title}>
+                  <span className="font-medium">{point.title}:</span> {point.detail}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-md border border-tmagenta/40 p-3">
+        <h3 className="font-semibold text-tmagenta">Focus: {focus.label}</h3>
+        <p className="mb-2">
+          {formatValue(report.focus.current, focus.unit)} →{" "}
+          <span className="font-semibold">{formatValue(report.focus.target, focus.unit)}</span>{" "}
+          <span className="text-gray-500">({focus.unit})</span>
+        </p>
+        <ol className="list-decimal space-y-1 pl-5">
+          {report.focus.actions.map((action) => (
+            <li key={action}>{action}</li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  )
+}
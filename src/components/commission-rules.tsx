@@ -0,0 +1,267 @@
+import { useState } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import type { CommissionRules, CommissionRulesInput } from "@/types/commission"
+import { isInForce } from "@/lib/commission"
+import { toDateString } from "@/lib/dateRange"
+import { LINE_TYPES } from "@/lib/sales"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { FormField, FormMessage } from "@/components/ui/form"
+
+const amount = z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid amount")
+
+/**
+ * Zod schema for a rules version (kept as strings while editing, like the entry form).
+ * Versions can only start in the future: today's and earlier estimates never change.
+ */
+const rulesFormSchema = z.object({
+  effectiveFrom: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a date")
+    .refine((d) => d > toDateString(new Date()), "Must be after today"),
+  voice: amount,
+  bts: amount,
+  iot: amount,
+  hsi: amount,
+  accessoryPercent: amount.refine((v) => Number(v) <= 100, "Must be 100 or less"),
+  protectionSpiff: amount,
+  accelerators: z.array(
+    z.object({
+      attainment: z.string().regex(/^\d+$/, "Whole percent"),
+      multiplier: z
+        .string()
+        .regex(/^\d+(\.\d{1,2})?$/, "Enter a multiplier")
+        .refine((v) => Number(v) >= 1, "At least 1"),
+    })
+  ),
+})
+type RulesFormValues = z.infer<typeof rulesFormSchema>
+
+// Scalar inputs after the line rates, in display order
+const EXTRA_FIELDS = [
+  ["accessoryPercent", "Accessories %"],
+  ["protectionSpiff", "Protection spiff $"],
+] as const
+
+const inputClass = "border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+
+// Form values for a new version, pre-filled from the latest one
+function toFormValues(latest?: CommissionRules): RulesFormValues {
+  return {
+    effectiveFrom: "",
+    voice: latest ? String(latest.lineRates.voice) : "",
+    bts: latest ? String(latest.lineRates.bts) : "",
+    iot: latest ? String(latest.lineRates.iot) : "",
+    hsi: latest ? String(latest.lineRates.hsi) : "",
+    accessoryPercent: latest ? String(latest.accessoryPercent) : "",
+    protectionSpiff: latest ? String(latest.protectionSpiff) : "",
+    accelerators: (latest?.accelerators ?? []).map((tier) => ({
+      attainment: String(tier.attainment),
+      multiplier: String(tier.multiplier),
+    })),
+  }
+}
+
+interface CommissionRulesEditorProps {
+  versions: CommissionRules[]                                     // Oldest first
+  onSave: (rules: CommissionRulesInput) => Promise<boolean>       // Resolves to whether it was saved
+  onRemove: (version: CommissionRules) => Promise<void>
+  readOnly?: boolean                                              // List only (no catalog permission)
+}
+
+/**
+ * CommissionRulesEditor
+ * Settings screen section for the comp plan: lists every rules version with the
+ * date it takes effect, and adds a new version starting after today. Versions that
+ * haven't started yet can be removed; versions in force are fixed, so earlier dates
+ * keep being paid by their own version.
+ * Read-only users see the versions without the editing controls.
+ */
+export function CommissionRulesEditor({
+  versions,
+  onSave,
+  onRemove,
+  readOnly = false,
+}: CommissionRulesEditorProps) {
+  const latest = versions[versions.length - 1]
+  const formHook = useForm<RulesFormValues>({
+    resolver: zodResolver(rulesFormSchema),
+    mode: "onChange",
+    defaultValues: toFormValues(latest),
+  })
+  const { control } = formHook
+  const { fields, append, remove } = useFieldArray({ control, name: "accelerators" })
+  const { isValid, isSubmitting } = formHook.formState
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  const onSubmit = formHook.handleSubmit(async (values) => {
+    const saved = await onSave({
+      effectiveFrom: values.effectiveFrom,
+      lineRates: {
+        voice: Number(values.voice),
+        bts: Number(values.bts),
+        iot: Number(values.iot),
+        hsi: Number(values.hsi),
+      },
+      accessoryPercent: Number(values.accessoryPercent),
+      protectionSpiff: Number(values.protectionSpiff),
+      accelerators: values.accelerators.map((tier) => ({
+        attainment: Number(tier.attainment),
+        multiplier: Number(tier.multiplier),
+      })),
+    })
+    // Keep the saved rates as the starting point for the next version
+    if (saved) formHook.reset({ ...values, effectiveFrom: "" })
+  })
+
+  const handleRemove = async (version: CommissionRules) => {
+    setRemovingId(version.id)
+    try {
+      await onRemove(version)
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  // One labelled text input bound to a form field
+  const field = (name: string, label: string, width = "w-32") => (
+    <FormField
+      key={name}
+      control={control}
+      name={name}
+      render={({ field: hookField, fieldState }) => (
+        <label className={`${width} block`}>
+          <span className="mb-1 block text-xs text-gray-500">{label}</span>
+          <Input {...hookField} type="text" aria-label={label} className={inputClass} />
+          <FormMessage className="text-xs">{fieldState.error?.message}</FormMessage>
+        </label>
+      )}
+    />
+  )
+
+  return (
+    <div className="space-y-6 text-sm text-tblack">
+      {versions.length === 0 ? (
+        <p className="text-gray-500">No commission rules yet.</p>
+      ) : (
+        <table className="min-w-full table-auto border-collapse">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">Effective from</th>
+              {LINE_TYPES.map(([value, label]) => (
+                <th key={value} className="px-4 py-2 text-left font-medium">
+                  {label} ($/unit)
+                </th>
+              ))}
+              <th className="px-4 py-2 text-left font-medium">Accessories</th>
+              <th className="px-4 py-2 text-left font-medium">Protection</th>
+              <th className="px-4 py-2 text-left font-medium">Accelerators</th>
+              {!readOnly && <th className="px-4 py-2 text-left font-medium">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map((version, idx) => (
+              <tr key={version.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                <td className="px-4 py-2">{version.effectiveFrom}</td>
+                {LINE_TYPES.map(([value]) => (
+                  <td key={value} className="px-4 py-2">
+                    ${version.lineRates[value].toFixed(2)}
+                  </td>
+                ))}
+                <td className="px-4 py-2">{version.accessoryPercent}%</td>
+                <td className="px-4 py-2">${version.protectionSpiff.toFixed(2)}</td>
+                <td className="px-4 py-2">
+                  {version.accelerators.length > 0
+                    ? version.accelerators
+                        .map((tier) => `${tier.attainment}%: ×${tier.multiplier}`)
+                        .join(", ")
+                    : "—"}
+                </td>
+                {!readOnly && (
+                  <td className="px-4 py-2">
+                    {isInForce(version) ? (
+                      <span className="text-xs text-gray-500">In force</span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={removingId !== null}
+                        onClick={() => handleRemove(version)}
+                      >
+                        {removingId === version.id ? "Removing…" : "Remove"}
+                      </Button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={onSubmit} className="space-y-4">
+          <h3 className="font-semibold text-tmagenta">New version</h3>
+          <div className="flex flex-wrap items-start gap-2">
+            <FormField
+              control={control}
+              name="effectiveFrom"
+              render={({ field: hookField, fieldState }) => (
+                <label className="block w-40">
+                  <span className="mb-1 block text-xs text-gray-500">Effective from</span>
+                  <Input {...hookField} type="date" aria-label="Effective from" className={inputClass} />
+                  <FormMessage className="text-xs">{fieldState.error?.message}</FormMessage>
+                </label>
+              )}
+            />
+            {LINE_TYPES.map(([value, label]) => field(value, `${label} $/unit`))}
+            {EXTRA_FIELDS.map(([name, label]) => field(name, label))}
+          </div>
+
+          {/* Accelerator tiers: voice lines beyond the attainment % of quota pay rate × multiplier */}
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+              Accelerators: voice lines sold beyond a percentage of the monthly voice-line
+              goal pay the voice rate times the multiplier.
+            </p>
+            {fields.map((item, index) => (
+              <div key={item.id} className="flex items-end gap-2">
+                {field(`accelerators.${index}.attainment`, "Above % of quota")}
+                {field(`accelerators.${index}.multiplier`, "Multiplier")}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  aria-label={`Remove tier ${index + 1}`}
+                  onClick={() => remove(index)}
+                  className="mb-7 h-10"
+                >
+                  ✕
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => append({ attainment: "100", multiplier: "1.5" })}
+              className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+            >
+              + Add tier
+            </Button>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={!isValid || isSubmitting}
+            className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+          >
+            Save Version
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
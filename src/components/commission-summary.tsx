@@ -0,0 +1,46 @@
+import type { CommissionBreakdown } from "@/lib/commission"
+
+interface CommissionSummaryProps {
+  breakdown: CommissionBreakdown
+  hasRules: boolean   // Whether any comp plan version is configured
+}
+
+// Breakdown rows, in display order
+const PARTS: ReadonlyArray<readonly [keyof CommissionBreakdown, string]> = [
+  ["lines", "Lines"],
+  ["accessories", "Accessories"],
+  ["protection", "Protection spiffs"],
+  ["accelerator", "Accelerators"],
+]
+
+/**
+ * CommissionSummary
+ * Estimated commission for the selected period: the total, and how much of it
+ * comes from line rates, accessory percentage, protection spiffs and accelerators.
+ */
+export function CommissionSummary({ breakdown, hasRules }: CommissionSummaryProps) {
+  if (!hasRules) {
+    return (
+      <p className="text-sm text-gray-500">
+        No commission rules set up yet. Add them under Settings.
+      </p>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-start gap-8 text-sm text-tblack">
+      <div>
+        <p className="font-medium">ESTIMATED TOTAL</p>
+        <p className="text-2xl font-semibold text-tmagenta">${breakdown.total.toFixed(2)}</p>
+      </div>
+      <dl className="grid grid-cols-[auto_auto] gap-x-6 gap-y-1">
+        {PARTS.map(([key, label]) => (
+          <div key={key} className="contents">
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-right">${breakdown[key].toFixed(2)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useState } from "react"
+import { parseCsv, type CsvRecord } from "@/lib/csv"
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+} from "@/lib/csvImport"
+import { formatSales } from "@/lib/sales"
+import { listAllEntries, type EntriesRepository } from "@/lib/entriesRepository"
+import type { Entry, StoredEntry } from "@/types/entry"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Preview columns: the values each row will be imported with
+const PREVIEW_COLUMNS: ReadonlyArray<readonly [string, (entry: Entry) => string]> = [
+  ["Date", (e) => e.date],
+  ["Voice Lines", (e) => e.voiceLines],
+  ["BTS", (e) => e.bts],
+  ["IOT", (e) => e.iot],
+  ["HSI", (e) => e.hsi],
+  ["Accessories ($)", (e) => e.accessories],
+  ["Protection", (e) => e.protection],
+  ["Sales", (e) => formatSales(e.sales)],
+]
+
+// Lookup of the stored entries the file's rows are checked against for duplicates
+type DuplicateCheck =
+  | { status: "checking" }
+  | { status: "done" }
+  | { status: "failed"; message: string }
+
+interface EntryImportProps {
+  repository: EntriesRepository
+  onImported: (created: StoredEntry[]) => void
+  onClose: () => void
+}
+
+/**
+ * EntryImport
+ * Bulk CSV import: pick a file, map its columns to entry fields, review a preview
+ * with per-row validation errors and possible duplicates, then insert every valid
+ * row in one batch. Importing waits for the duplicate check against stored entries.
+ */
+export function EntryImport({ repository, onImported, onClose }: EntryImportProps) {
+  const [fileName, setFileName] = useState("")
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<CsvRecord[]>([])
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [existing, setExisting] = useState<StoredEntry[]>([])
+  const [duplicateCheck, setDuplicateCheck] = useState<DuplicateCheck>({ status: "done" })
+  const [checkAttempt, setCheckAttempt] = useState(0)
+  const [skipDuplicates, setSkipDuplicates] = useState(true)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState("")
+
+  // Read and parse the chosen file; guess the column mapping from its header row
+  const handleFile = async (file: File | undefined) => {
+    setError("")
+    if (!file) return
+    const [header, ...rows] = parseCsv(await file.text())
+    const headerRow = header?.fields ?? []
+    setExisting([])
+    setFileName(file.name)
+    setHeaders(headerRow)
+    setDataRows(rows)
+    setMapping(guessColumnMapping(headerRow))
+  }
+
+  // Load stored entries spanning the file's dates so duplicates can be flagged
+  const dateColumn = mapping.date
+  useEffect(() => {
+    const dates =
+      dateColumn === undefined
+        ? []
+        : dataRows
+            .map(({ fields }) => (fields[dateColumn] ?? "").trim())
+            .filter((d) => DATE_PATTERN.test(d))
+            .sort()
+    // Without valid dates every row fails validation, so there is nothing to check
+    if (dates.length === 0) {
+      setExisting([])
+      setDuplicateCheck({ status: "done" })
+      return
+    }
+
+    let cancelled = false
+    setDuplicateCheck({ status: "checking" })
+    listAllEntries(repository, { from: dates[0], to: dates[dates.length - 1] })
+      .then((fetched) => {
+        if (cancelled) return
+        setExisting(fetched)
+        setDuplicateCheck({ status: "done" })
+      })
+      .catch((err) => {
+        console.error("Duplicate check error:", err.message)
+        if (!cancelled) setDuplicateCheck({ status: "failed", message: err.message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [repository, dataRows, dateColumn, checkAttempt])
+
+  const rows = useMemo(
+    () => validateImportRows(dataRows, mapping, existing),
+    [dataRows, mapping, existing]
+  )
+  const validRows = rows.filter((r) => r.errors.length === 0)
+  const duplicateCount = validRows.filter((r) => r.duplicate).length
+  const toImport = validRows.filter((r) => !(skipDuplicates && r.duplicate))
+
+  const handleMappingChange = (field: ImportField, value: string) =>
+    setMapping((prev) => ({
+      ...prev,
+      [field]: value === "" ? undefined : Number(value),
+    }))
+
+  // Insert all importable rows in a single batch
+  const handleImport = async () => {
+    setIsImporting(true)
+    setError("")
+    try {
+      const created = await repository.createMany(
+        toImport.map((r) => r.values),
+        { source: "import" }
+      )
+      onImported(created)
+      onClose()
+    } catch (err: any) {
+      console.error("Import error:", err.message)
+      setError(err.message)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-sm text-tblack">
+      {/* File picker */}
+      <Input
+        type="file"
+        accept=".csv,text/csv"
+        aria-label="CSV file"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="border-gray-300"
+      />
+
+      {headers.length > 0 && (
+        <>
+          {/* Column mapping */}
+          <div>
+            <p className="mb-2 font-medium">
+              Map columns from {fileName} ({dataRows.length} rows)
+            </p>
+            <div className="grid grid-cols-2 gap-2 md:grid-cols-3 lg:grid-cols-5">
+              {IMPORT_FIELDS.map(([field, label]) => (
+                <label key={field} className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-500">{label}</span>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className="h-9 rounded-md border border-gray-300 bg-transparent px-2 focus:border-tmagenta"
+                  >
+                    <option value="">— not mapped —</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="max-h-96 overflow-auto rounded border border-gray-200">
+            <table className="min-w-full table-auto border-collapse">
+              <thead className="sticky top-0 bg-gray-100">
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium">Row</th>
+                  <th className="px-2 py-1 text-left font-medium">Status</th>
+                  {PREVIEW_COLUMNS.map(([label]) => (
+                    <th key={label} className="px-2 py-1 text-left font-medium">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.rowNumber}
+                    className={
+                      row.errors.length > 0
+                        ? "bg-red-50"
+                        : row.duplicate
+                          ? "bg-yellow-50"
+                          : "bg-white"
+                    }
+                  >
+                    <td className="px-2 py-1">{row.rowNumber}</td>
+                    <td className="px-2 py-1">
+                      {row.errors.length > 0 ? (
+                        <ul className="text-xs text-red-600">
+                          {row.errors.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      ) : row.duplicate ? (
+                        <span className="text-xs text-yellow-700">Possible duplicate</span>
+                      ) : (
+                        <span className="text-xs text-green-700">OK</span>
+                      )}
+                    </td>
+                    {PREVIEW_COLUMNS.map(([label, pick]) => (
+                      <td key={label} className="px-2 py-1">
+                        {pick(row.values)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Totals, duplicate handling & actions */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="space-y-1">
+              <p>
+                {validRows.length} valid · {rows.length - validRows.length} with errors ·{" "}
+                {duplicateCount} possible duplicates
+              </p>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={(e) => setSkipDuplicates(e.target.checked)}
+                />
+                Skip possible duplicates
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                disabled={
+                  toImport.length === 0 || isImporting || duplicateCheck.status !== "done"
+                }
+                onClick={handleImport}
+                className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+              >
+                {isImporting
+                  ? "Importing…"
+                  : duplicateCheck.status === "checking"
+                    ? "Checking for duplicates…"
+                    : `Import ${toImport.length} rows`}
+              </Button>
+              <Button variant="outline" onClick={onClose} disabled={isImporting}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {duplicateCheck.status === "failed" && (
+        <p className="flex items-center gap-2 text-red-500">
+          Could not check for duplicates: {duplicateCheck.message}
+          <Button size="sm" variant="outline" onClick={() => setCheckAttempt((n) => n + 1)}>
+            Retry
+          </Button>
+        </p>
+      )}
+      {error && <p className="text-red-500">Import failed: {error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import {
+  performanceFormSchema,
+  type PerformanceFormValues,
+} from "@/lib/performanceFormSchema"
+import type { StoredEntry } from "@/types/entry"
+import type { Plan } from "@/types/plan"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { FormField, FormMessage } from "@/components/ui/form"
+import { SalesFields } from "@/components/sales-fields"
+
+// Editable columns, in the same order as the All Entries table headers
+// (the sales line items fill the Sales and Total MRC columns)
+const EDITABLE_FIELDS = [
+  ["date", "Date", "date"],
+  ["voiceLines", "Voice Lines", "text"],
+  ["bts", "BTS", "text"],
+  ["iot", "IOT", "text"],
+  ["hsi", "HSI", "text"],
+  ["accessories", "Accessories $", "text"],
+  ["protection", "Protection", "text"],
+] as const
+
+interface EntryRowEditorProps {
+  entry: StoredEntry
+  plans: Plan[]
+  onSave: (values: PerformanceFormValues) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * EntryRowEditor
+ * Replaces one All Entries table row with inline inputs.
+ * Validates with the same `performanceFormSchema` as the entry form and only
+ * enables Save once every field is valid.
+ */
+export function EntryRowEditor({ entry, plans, onSave, onCancel }: EntryRowEditorProps) {
+  const formHook = useForm<PerformanceFormValues>({
+    resolver: zodResolver(performanceFormSchema),
+    mode: "onChange",
+    defaultValues: {
+      date: entry.date,
+      voiceLines: entry.voiceLines,
+      bts: entry.bts,
+      iot: entry.iot,
+      hsi: entry.hsi,
+      accessories: entry.accessories,
+      protection: entry.protection,
+      sales: entry.sales,
+    },
+  })
+
+  const { isValid, isSubmitting } = formHook.formState
+
+  return (
+    <tr className="bg-gray-50 align-top">
+      {EDITABLE_FIELDS.map(([fieldName, label, type]) => (
+        <td key={fieldName} className="p-1">
+          <FormField
+            control={formHook.control}
+            name={fieldName}
+            render={({ field: hookField, fieldState }) => (
+              <>
+                <Input
+                  {...hookField}
+                  type={type}
+                  aria-label={label}
+                  placeholder={label}
+                  className="min-w-[6rem] border-gray-300 text-sm focus:border-tmagenta focus:ring-tmagenta"
+                />
+                <FormMessage className="text-xs">
+                  {fieldState.error?.message}
+                </FormMessage>
+              </>
+            )}
+          />
+        </td>
+      ))}
+      <td colSpan={3} className="min-w-[24rem] p-1">
+        <SalesFields form={formHook} plans={plans} compact />
+      </td>
+      <td className="whitespace-nowrap p-1">
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            disabled={!isValid || isSubmitting}
+            onClick={formHook.handleSubmit(onSave)}
+            className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+          >
+            {isSubmitting ? "Saving…" : "Save"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isSubmitting}
+            onClick={onCancel}
+          >
+            Cancel
+          </Button>
+        </div>
+      </td>
+    </tr>
+  )
+}
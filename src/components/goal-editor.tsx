@@ -0,0 +1,113 @@
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import type { Goal } from "@/types/goal"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form"
+
+/**
+ * Zod schema for the goal inputs (kept as strings while editing, like the entry form).
+ */
+const goalFormSchema = z.object({
+  voiceLines: z.string().regex(/^\d+$/, "Must be a whole number"),
+  hsi: z.string().regex(/^\d+$/, "Must be a whole number"),
+  protectionRate: z
+    .string()
+    .regex(/^\d+(\.\d{1,2})?$/, "Enter a percentage")
+    .refine((v) => Number(v) <= 100, "Must be 100 or less"),
+  accessories: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid dollar amount"),
+})
+type GoalFormValues = z.infer<typeof goalFormSchema>
+
+// Inputs in display order
+const GOAL_FIELDS = [
+  ["voiceLines", "Voice Lines"],
+  ["hsi", "HSI"],
+  ["protectionRate", "Protection %"],
+  ["accessories", "Accessories $"],
+] as const
+
+interface GoalEditorProps {
+  month: string                 // YYYY-MM-01 the goal applies to
+  goal: Goal | null             // Current goal, if any, to pre-fill the form
+  onSave: (goal: Goal) => Promise<void>
+  onCancel: () => void
+}
+
+/**
+ * GoalEditor
+ * Form for setting the month's quota targets.
+ */
+export function GoalEditor({ month, goal, onSave, onCancel }: GoalEditorProps) {
+  const formHook = useForm<GoalFormValues>({
+    resolver: zodResolver(goalFormSchema),
+    mode: "onChange",
+    defaultValues: {
+      voiceLines: goal ? String(goal.voiceLines) : "",
+      hsi: goal ? String(goal.hsi) : "",
+      protectionRate: goal ? String(goal.protectionRate) : "",
+      accessories: goal ? String(goal.accessories) : "",
+    },
+  })
+
+  const onSubmit = formHook.handleSubmit((values) =>
+    onSave({
+      month,
+      voiceLines: Number(values.voiceLines),
+      hsi: Number(values.hsi),
+      protectionRate: Number(values.protectionRate),
+      accessories: Number(values.accessories),
+    })
+  )
+
+  return (
+    <Form {...formHook}>
+      <form onSubmit={onSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {GOAL_FIELDS.map(([fieldName, label]) => (
+            <FormField
+              key={fieldName}
+              control={formHook.control}
+              name={fieldName}
+              render={({ field: hookField, fieldState }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input
+                      {...hookField}
+                      required
+                      type="text"
+                      aria-label={label}
+                      placeholder={label}
+                      className="border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+                    />
+                  </FormControl>
+                  <FormMessage>{fieldState.error?.message}</FormMessage>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            type="submit"
+            size="sm"
+            disabled={!formHook.formState.isValid || formHook.formState.isSubmitting}
+            className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+          >
+            Save Goals
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
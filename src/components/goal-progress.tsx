@@ -0,0 +1,54 @@
+import type { GoalMetric, MetricProgress } from "@/lib/goalProgress"
+
+// How each metric's values are displayed
+const formatValue = (metric: GoalMetric, value: number) => {
+  switch (metric) {
+    case "protectionRate":
+      return `${value.toFixed(1)}%`
+    case "accessories":
+      return `$${value.toFixed(2)}`
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * GoalProgress
+ * One progress bar per goal metric, with the remaining gap and the daily pace
+ * needed over the rest of the month.
+ */
+export function GoalProgress({ progress }: { progress: MetricProgress[] }) {
+  return (
+    <div className="grid grid-cols-1 gap-4 text-sm text-tblack sm:grid-cols-2">
+      {progress.map((p) => (
+        <div key={p.metric} className="space-y-1">
+          <div className="flex justify-between">
+            <span className="font-medium">{p.label}</span>
+            <span>
+              {formatValue(p.metric, p.actual)} / {formatValue(p.metric, p.target)}
+            </span>
+          </div>
+          {/* Progress bar */}
+          <div
+            role="progressbar"
+            aria-label={`${p.label} goal progress`}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(p.percent)}
+            className="h-2 w-full overflow-hidden rounded-full bg-gray-200"
+          >
+            <div
+              className="h-full rounded-full bg-tmagenta transition-all"
+              style={{ width: `${p.percent}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            {p.remaining > 0
+              ? `${formatValue(p.metric, p.remaining)} to go · ${p.dailyPace.toFixed(1)} ${p.paceUnit} needed`
+              : "Goal reached 🎉"}
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
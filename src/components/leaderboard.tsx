@@ -0,0 +1,97 @@
+import type { LeaderboardMetric, RepStanding } from "@/lib/leaderboard"
+import { LEADERBOARD_METRICS } from "@/lib/leaderboard"
+import { cn } from "@/lib/utils"
+
+interface LeaderboardProps {
+  standings: RepStanding[]
+  metric: LeaderboardMetric                       // Metric the reps are ranked by
+  onMetricChange: (metric: LeaderboardMetric) => void
+  selectedUserId: string | null                   // Rep whose entries are shown below
+  onSelect: (userId: string) => void
+}
+
+// Cell text for each metric
+const formatMetric = (metric: LeaderboardMetric, standing: RepStanding) => {
+  const { summary } = standing
+  switch (metric) {
+    case "lines":
+      return String(summary.totalLines)
+    case "attachRate":
+      return `${summary.protectionRate.toFixed(1)}%`
+    case "accessories":
+      return `$${summary.totalAccessories.toFixed(2)}`
+    case "mrc":
+      return `$${summary.totalMrc.toFixed(2)}`
+  }
+}
+
+/**
+ * Leaderboard
+ * Team reps ranked by the selected metric (click a column heading to re-rank).
+ * Clicking a rep selects them for the drill-down.
+ */
+export function Leaderboard({
+  standings,
+  metric,
+  onMetricChange,
+  selectedUserId,
+  onSelect,
+}: LeaderboardProps) {
+  if (standings.length === 0) {
+    return <p className="text-sm text-gray-500">This team has no reps yet.</p>
+  }
+
+  return (
+    <table className="min-w-full table-auto border-collapse text-sm text-tblack">
+      <thead className="bg-gray-100">
+        <tr>
+          <th className="px-4 py-2 text-left font-medium">#</th>
+          <th className="px-4 py-2 text-left font-medium">Rep</th>
+          {LEADERBOARD_METRICS.map(([key, label]) => (
+            <th key={key} className="px-4 py-2 text-left font-medium">
+              <button
+                type="button"
+                aria-pressed={metric === key}
+                onClick={() => onMetricChange(key)}
+                className={cn(
+                  "hover:text-tmagenta",
+                  metric === key && "text-tmagenta underline"
+                )}
+              >
+                {label}
+                {metric === key ? " ▼" : ""}
+              </button>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {standings.map((standing, idx) => (
+          <tr
+            key={standing.member.userId}
+            className={cn(
+              idx % 2 === 0 ? "bg-white" : "bg-gray-50",
+              standing.member.userId === selectedUserId && "bg-tmagenta/10"
+            )}
+          >
+            <td className="px-4 py-2 font-semibold">{standing.rank}</td>
+            <td className="px-4 py-2">
+              <button
+                type="button"
+                onClick={() => onSelect(standing.member.userId)}
+                className="text-tmagenta hover:underline"
+              >
+                {standing.member.displayName}
+              </button>
+            </td>
+            {LEADERBOARD_METRICS.map(([key]) => (
+              <td key={key} className={cn("px-4 py-2", metric === key && "font-semibold")}>
+                {formatMetric(key, standing)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
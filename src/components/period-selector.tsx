@@ -0,0 +1,71 @@
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { PERIOD_OPTIONS, type DateRange, type Period } from "@/lib/dateRange"
+
+interface PeriodSelectorProps {
+  period: Period
+  customRange: DateRange
+  onPeriodChange: (period: Period) => void
+  onCustomRangeChange: (range: DateRange) => void
+}
+
+/**
+ * PeriodSelector
+ * Row of period buttons (Today / This Week / This Month / Custom / All Time).
+ * Choosing "Custom" reveals From/To date inputs.
+ */
+export function PeriodSelector({
+  period,
+  customRange,
+  onPeriodChange,
+  onCustomRangeChange,
+}: PeriodSelectorProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {PERIOD_OPTIONS.map(([value, label]) => (
+        <Button
+          key={value}
+          size="sm"
+          variant="outline"
+          aria-pressed={period === value}
+          onClick={() => onPeriodChange(value)}
+          className={cn(
+            "border-tmagenta",
+            period === value
+              ? "bg-tmagenta text-twhite hover:bg-tmagenta/90 hover:text-twhite"
+              : "text-tmagenta hover:bg-tmagenta hover:text-twhite"
+          )}
+        >
+          {label}
+        </Button>
+      ))}
+
+      {period === "custom" && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            aria-label="From"
+            value={customRange.from ?? ""}
+            max={customRange.to}
+            onChange={(e) =>
+              onCustomRangeChange({ ...customRange, from: e.target.value })
+            }
+            className="w-40 border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+          />
+          <span className="text-sm text-tblack">to</span>
+          <Input
+            type="date"
+            aria-label="To"
+            value={customRange.to ?? ""}
+            min={customRange.from}
+            onChange={(e) =>
+              onCustomRangeChange({ ...customRange, to: e.target.value })
+            }
+            className="w-40 border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
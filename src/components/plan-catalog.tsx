@@ -0,0 +1,187 @@
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import type { Plan, PlanInput } from "@/types/plan"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { FormField, FormMessage } from "@/components/ui/form"
+
+/**
+ * Zod schema for the plan inputs (kept as strings while editing, like the entry form).
+ */
+const planFormSchema = z.object({
+  name: z.string().trim().nonempty({ message: "Plan Name is required" }),
+  defaultMrc: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid dollar amount"),
+})
+type PlanFormValues = z.infer<typeof planFormSchema>
+
+interface PlanFormProps {
+  plan?: Plan                                   // Plan being edited; omit to add one
+  onSave: (values: PlanFormValues) => Promise<boolean>   // Resolves to whether it was saved
+  onCancel?: () => void
+}
+
+/**
+ * PlanForm
+ * Name + default MRC inputs, used both for adding a plan and for editing one in place.
+ */
+function PlanForm({ plan, onSave, onCancel }: PlanFormProps) {
+  const formHook = useForm<PlanFormValues>({
+    resolver: zodResolver(planFormSchema),
+    mode: "onChange",
+    defaultValues: {
+      name: plan?.name ?? "",
+      defaultMrc: plan ? plan.defaultMrc.toFixed(2) : "",
+    },
+  })
+  const { isValid, isSubmitting } = formHook.formState
+
+  const onSubmit = formHook.handleSubmit(async (values) => {
+    // Clear the add form only once the plan was actually saved
+    if ((await onSave(values)) && !plan) formHook.reset({ name: "", defaultMrc: "" })
+  })
+
+  return (
+    <form onSubmit={onSubmit} className="flex flex-wrap items-start gap-2">
+      {(
+        [
+          ["name", "Plan Name", "min-w-[12rem] flex-1"],
+          ["defaultMrc", "Default MRC $", "w-32"],
+        ] as const
+      ).map(([fieldName, label, width]) => (
+        <FormField
+          key={fieldName}
+          control={formHook.control}
+          name={fieldName}
+          render={({ field: hookField, fieldState }) => (
+            <div className={width}>
+              <Input
+                {...hookField}
+                type="text"
+                aria-label={label}
+                placeholder={label}
+                className="border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+              />
+              <FormMessage className="text-xs">{fieldState.error?.message}</FormMessage>
+            </div>
+          )}
+        />
+      ))}
+      <Button
+        type="submit"
+        disabled={!isValid || isSubmitting}
+        className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+      >
+        {plan ? "Save" : "Add Plan"}
+      </Button>
+      {onCancel && (
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      )}
+    </form>
+  )
+}
+
+interface PlanCatalogProps {
+  plans: Plan[]
+  onCreate: (plan: PlanInput) => Promise<boolean>              // Resolves to whether it was saved
+  onUpdate: (id: string, plan: PlanInput) => Promise<boolean>
+  readOnly?: boolean                                             // List only (no catalog permission)
+}
+
+/**
+ * PlanCatalog
+ * Settings screen section for managing the plan catalog: add plans, edit their
+ * name and default MRC, and retire (deactivate) or reactivate them.
+ * Read-only users see the list without the editing controls.
+ */
+export function PlanCatalog({ plans, onCreate, onUpdate, readOnly = false }: PlanCatalogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  return (
+    <div className="space-y-4 text-sm text-tblack">
+      {!readOnly && (
+        <PlanForm
+          onSave={(values) =>
+            onCreate({ name: values.name, defaultMrc: Number(values.defaultMrc), active: true })
+          }
+        />
+      )}
+
+      {plans.length === 0 ? (
+        <p className="text-gray-500">No plans in the catalog yet.</p>
+      ) : (
+        <table className="min-w-full table-auto border-collapse">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium">Plan</th>
+              <th className="px-4 py-2 text-left font-medium">Default MRC ($)</th>
+              <th className="px-4 py-2 text-left font-medium">Active</th>
+              {!readOnly && <th className="px-4 py-2 text-left font-medium">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {plans.map((plan, idx) =>
+              plan.id === editingId ? (
+                <tr key={plan.id} className="bg-gray-50">
+                  <td colSpan={4} className="p-2">
+                    <PlanForm
+                      plan={plan}
+                      onSave={async (values) => {
+                        const saved = await onUpdate(plan.id, {
+                          name: values.name,
+                          defaultMrc: Number(values.defaultMrc),
+                          active: plan.active,
+                        })
+                        if (saved) setEditingId(null)
+                        return saved
+                      }}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  </td>
+                </tr>
+              ) : (
+                <tr key={plan.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                  <td className={plan.active ? "px-4 py-2" : "px-4 py-2 text-gray-400"}>
+                    {plan.name}
+                  </td>
+                  <td className="px-4 py-2">${plan.defaultMrc.toFixed(2)}</td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      aria-label={`${plan.name} active`}
+                      checked={plan.active}
+                      disabled={readOnly}
+                      onChange={(e) =>
+                        onUpdate(plan.id, {
+                          name: plan.name,
+                          defaultMrc: plan.defaultMrc,
+                          active: e.target.checked,
+                        })
+                      }
+                    />
+                  </td>
+                  {!readOnly && (
+                    <td className="px-4 py-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={editingId !== null}
+                        onClick={() => setEditingId(plan.id)}
+                        className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+                      >
+                        Edit
+                      </Button>
+                    </td>
+                  )}
+                </tr>
+              )
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
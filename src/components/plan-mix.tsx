@@ -0,0 +1,47 @@
+import type { PlanMixItem } from "@/lib/summary"
+
+/**
+ * PlanMix
+ * Plan-mix breakdown for the selected period: how many sales each plan made up,
+ * its share of all sales and its average MRC, most sold first.
+ */
+export function PlanMix({ items }: { items: PlanMixItem[] }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">No plan sales in this period.</p>
+  }
+
+  return (
+    <table className="min-w-full table-auto border-collapse text-sm text-tblack">
+      <thead>
+        <tr className="border-b border-gray-200 text-left">
+          <th className="py-1 pr-4 font-medium">Plan</th>
+          <th className="py-1 pr-4 font-medium">Sales</th>
+          <th className="w-1/3 py-1 pr-4 font-medium">Share</th>
+          <th className="py-1 pr-4 font-medium">Avg MRC</th>
+          <th className="py-1 font-medium">Total MRC</th>
+        </tr>
+      </thead>
+      <tbody>
+        {items.map((item) => (
+          <tr key={item.planName} className="border-b border-gray-100">
+            <td className="py-1 pr-4">{item.planName}</td>
+            <td className="py-1 pr-4">{item.saleCount}</td>
+            <td className="py-1 pr-4">
+              <div className="flex items-center gap-2">
+                <div className="h-2 flex-1 rounded bg-gray-200">
+                  <div
+                    className="h-2 rounded bg-tmagenta"
+                    style={{ width: `${item.share}%` }}
+                  />
+                </div>
+                <span className="w-12 text-right">{item.share.toFixed(1)}%</span>
+              </div>
+            </td>
+            <td className="py-1 pr-4">${item.averageMrc.toFixed(2)}</td>
+            <td className="py-1">${item.mrcTotal.toFixed(2)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
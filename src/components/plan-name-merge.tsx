@@ -0,0 +1,98 @@
+import { useState } from "react"
+import type { LegacyNameGroup } from "@/lib/planNames"
+import type { Plan } from "@/types/plan"
+import { Button } from "@/components/ui/button"
+
+interface PlanNameMergeProps {
+  groups: LegacyNameGroup[]
+  plans: Plan[]
+  onMerge: (names: string[], target: string) => Promise<void>
+}
+
+/**
+ * PlanNameMerge
+ * Normalization tool for legacy free-text plan names: lists the names used in
+ * entries that aren't catalog names (grouped when they differ only in case,
+ * spacing or punctuation) and rewrites each group to the chosen catalog plan.
+ */
+export function PlanNameMerge({ groups, plans, onMerge }: PlanNameMergeProps) {
+  // Chosen catalog plan per group; defaults to the suggested match
+  const [targets, setTargets] = useState<Record<string, string>>({})
+  const [mergingKey, setMergingKey] = useState<string | null>(null)
+
+  if (groups.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Every plan name in your entries matches the catalog.
+      </p>
+    )
+  }
+
+  const handleMerge = async (group: LegacyNameGroup, target: string) => {
+    setMergingKey(group.key)
+    try {
+      await onMerge(group.names.map((n) => n.planName), target)
+    } finally {
+      setMergingKey(null)
+    }
+  }
+
+  return (
+    <table className="min-w-full table-auto border-collapse text-sm text-tblack">
+      <thead className="bg-gray-100">
+        <tr>
+          <th className="px-4 py-2 text-left font-medium">Names in entries</th>
+          <th className="px-4 py-2 text-left font-medium">Merge into</th>
+          <th className="px-4 py-2 text-left font-medium">Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map((group, idx) => {
+          const target = targets[group.key] ?? group.suggestion?.name ?? ""
+          return (
+            <tr key={group.key} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+              <td className="px-4 py-2">
+                <ul>
+                  {group.names.map((n) => (
+                    <li key={n.planName}>
+                      “{n.planName}”{" "}
+                      <span className="text-gray-500">({n.saleCount} sales)</span>
+                    </li>
+                  ))}
+                </ul>
+              </td>
+              <td className="px-4 py-2">
+                <select
+                  value={target}
+                  aria-label={`Catalog plan for ${group.names[0].planName}`}
+                  onChange={(e) =>
+                    setTargets((prev) => ({ ...prev, [group.key]: e.target.value }))
+                  }
+                  className="h-9 rounded-md border border-gray-300 bg-transparent px-2 focus:border-tmagenta"
+                >
+                  <option value="">— choose a plan —</option>
+                  {plans.map((plan) => (
+                    <option key={plan.id} value={plan.name}>
+                      {plan.name}
+                      {plan.active ? "" : " (inactive)"}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td className="px-4 py-2">
+                <Button
+                  size="sm"
+                  disabled={!target || mergingKey !== null}
+                  onClick={() => handleMerge(group, target)}
+                  className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+                >
+                  {mergingKey === group.key ? "Merging…" : "Merge"}
+                </Button>
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
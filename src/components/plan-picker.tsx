@@ -0,0 +1,114 @@
+import { useState, type KeyboardEvent } from "react"
+import type { Plan } from "@/types/plan"
+import { normalizePlanKey } from "@/lib/planNames"
+import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+
+interface PlanPickerProps {
+  value: string
+  plans: Plan[]                        // Catalog; only active plans are offered
+  onChange: (name: string) => void     // Typed text
+  onSelect: (plan: Plan) => void       // A catalog plan was picked
+  onBlur?: () => void
+  ariaLabel?: string
+  className?: string
+}
+
+/**
+ * PlanPicker
+ * Searchable plan-name input: typing filters the active catalog plans (ignoring case,
+ * spaces and punctuation), and picking one fills in its canonical name. Names that
+ * aren't in the catalog are still accepted but flagged.
+ */
+export function PlanPicker({
+  value,
+  plans,
+  onChange,
+  onSelect,
+  onBlur,
+  ariaLabel,
+  className,
+}: PlanPickerProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const query = normalizePlanKey(value)
+  const active = plans.filter((p) => p.active)
+  const matches = active.filter((p) => normalizePlanKey(p.name).includes(query))
+  const inCatalog = plans.some((p) => p.name === value)
+
+  const pick = (plan: Plan) => {
+    onSelect(plan)
+    setIsOpen(false)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault()
+      setIsOpen(true)
+      const step = e.key === "ArrowDown" ? 1 : -1
+      setHighlighted((i) => (i + step + matches.length) % Math.max(matches.length, 1))
+    } else if (e.key === "Enter" && isOpen && matches[highlighted]) {
+      e.preventDefault()
+      pick(matches[highlighted])
+    } else if (e.key === "Escape") {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        value={value}
+        type="text"
+        role="combobox"
+        aria-label={ariaLabel}
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+        placeholder="Name of Plan"
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value)
+          setHighlighted(0)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => {
+          setIsOpen(false)
+          onBlur?.()
+        }}
+        onKeyDown={handleKeyDown}
+        className={className}
+      />
+      {isOpen && matches.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 mt-1 max-h-56 w-full overflow-auto rounded-md border border-gray-200 bg-twhite text-sm shadow-lg"
+        >
+          {matches.map((plan, i) => (
+            <li
+              key={plan.id}
+              role="option"
+              aria-selected={i === highlighted}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault()
+                pick(plan)
+              }}
+              className={cn(
+                "flex cursor-pointer justify-between px-3 py-2 text-tblack",
+                i === highlighted ? "bg-gray-100" : "hover:bg-gray-50"
+              )}
+            >
+              <span>{plan.name}</span>
+              <span className="text-gray-500">${plan.defaultMrc.toFixed(2)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {value && plans.length > 0 && !inCatalog && !isOpen && (
+        <p className="mt-1 text-xs text-yellow-700">Not in the plan catalog</p>
+      )}
+    </div>
+  )
+}
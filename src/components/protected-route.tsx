@@ -0,0 +1,29 @@
+import { Navigate, useLocation } from "react-router-dom"
+import useAuth from "@/hooks/useAuth"
+import type { Permission } from "@/lib/roles"
+
+interface ProtectedRouteProps {
+  children: React.ReactNode
+  permission?: Permission   // Also required to see the page; others go to the dashboard
+}
+
+/**
+ * ProtectedRoute
+ * Renders its children only for signed-in users. Everyone else is sent to /login,
+ * with the page they asked for kept in router state so Login can send them back.
+ * Pages that need a permission send signed-in users without it to the dashboard.
+ */
+export function ProtectedRoute({ children, permission }: ProtectedRouteProps) {
+  const { isAuthenticated, can } = useAuth()
+  const location = useLocation()
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{ from: location }} />
+  }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/" replace />
+  }
+
+  return <>{children}</>
+}
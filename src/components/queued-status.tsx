@@ -0,0 +1,62 @@
+import type { PendingOperation } from "@/lib/offlineQueue"
+import { Button } from "@/components/ui/button"
+
+interface QueuedStatusProps {
+  operation: PendingOperation
+  onResolveConflict: (resolution: "keep" | "discard") => void
+  onResolveFailure: (resolution: "retry" | "discard") => void
+}
+
+/**
+ * QueuedStatus
+ * Actions cell for a queued write: "Pending" while it waits to sync, "Keep mine" /
+ * "Discard" when the entry changed elsewhere, and the database's reason with "Retry" /
+ * "Discard" when the write was refused.
+ */
+export function QueuedStatus({ operation, onResolveConflict, onResolveFailure }: QueuedStatusProps) {
+  if (operation.status === "conflict") {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-red-600">Changed elsewhere</span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onResolveConflict("keep")}
+          className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+        >
+          Keep mine
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onResolveConflict("discard")}>
+          Discard
+        </Button>
+      </div>
+    )
+  }
+
+  if (operation.status === "failed") {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="max-w-[16rem] whitespace-normal text-xs text-red-600">
+          Not saved: {operation.error}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onResolveFailure("retry")}
+          className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+        >
+          Retry
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onResolveFailure("discard")}>
+          Discard
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <span className="rounded bg-yellow-200 px-2 py-1 text-xs text-yellow-800">
+      Pending
+    </span>
+  )
+}
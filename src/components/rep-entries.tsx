@@ -0,0 +1,56 @@
+import type { StoredEntry } from "@/types/entry"
+import { formatSale, saleMrcTotal } from "@/lib/sales"
+
+/**
+ * RepEntries
+ * Read-only table of one rep's entries for the manager's drill-down, with the
+ * same columns as the rep's own All Entries table.
+ */
+export function RepEntries({ entries }: { entries: StoredEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No entries in this period.</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full table-auto border-collapse text-sm text-tblack">
+        <thead className="bg-gray-100">
+          <tr>
+            {["Date", "Voice Lines", "BTS", "IOT", "HSI", "Accessories ($)", "Protection", "Sales", "Total MRC ($)"].map(
+              (heading) => (
+                <th key={heading} className="px-4 py-2 text-left font-medium">
+                  {heading}
+                </th>
+              )
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((ent, idx) => (
+            <tr key={ent.id} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+              <td className="px-4 py-2">{ent.date}</td>
+              <td className="px-4 py-2">{ent.voiceLines}</td>
+              <td className="px-4 py-2">{ent.bts}</td>
+              <td className="px-4 py-2">{ent.iot}</td>
+              <td className="px-4 py-2">{ent.hsi}</td>
+              <td className="px-4 py-2">${Number(ent.accessories).toFixed(2)}</td>
+              <td className="px-4 py-2">{ent.protection}</td>
+              <td className="px-4 py-2">
+                {ent.sales.length > 0 ? (
+                  <ul>
+                    {ent.sales.map((sale, i) => (
+                      <li key={i}>{formatSale(sale)}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  "—"
+                )}
+              </td>
+              <td className="px-4 py-2">${saleMrcTotal(ent).toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
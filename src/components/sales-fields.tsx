@@ -0,0 +1,118 @@
+import { useFieldArray, type UseFormReturn } from "react-hook-form"
+import type { PerformanceFormValues } from "@/lib/performanceFormSchema"
+import { LINE_TYPES } from "@/lib/sales"
+import type { Plan } from "@/types/plan"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { FormField, FormMessage } from "@/components/ui/form"
+import { PlanPicker } from "@/components/plan-picker"
+
+// Values for a newly added sale row
+const EMPTY_SALE = { planName: "", lineType: "voice", mrc: "" } as const
+
+interface SalesFieldsProps {
+  form: UseFormReturn<PerformanceFormValues>
+  plans: Plan[]       // Plan catalog offered by the plan pickers
+  compact?: boolean   // Smaller inputs for the inline row editor
+}
+
+/**
+ * SalesFields
+ * Editable list of plan-sale line items (plan name, line type, MRC) for one entry,
+ * with buttons to add and remove rows. Bound to the `sales` array of the form.
+ * Picking a catalog plan pre-fills the row's MRC with the plan's default.
+ */
+export function SalesFields({ form, plans, compact = false }: SalesFieldsProps) {
+  const { control, setValue } = form
+  const { fields, append, remove } = useFieldArray({ control, name: "sales" })
+  const inputClass = compact
+    ? "border-gray-300 text-sm focus:border-tmagenta focus:ring-tmagenta"
+    : "border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+
+  return (
+    <div className="space-y-2">
+      {fields.map((item, index) => (
+        <div key={item.id} className="grid grid-cols-[1fr_6rem_6rem_auto] items-start gap-2">
+          {/* Plan name */}
+          <FormField
+            control={control}
+            name={`sales.${index}.planName`}
+            render={({ field: hookField, fieldState }) => (
+              <div>
+                <PlanPicker
+                  value={hookField.value}
+                  plans={plans}
+                  onChange={hookField.onChange}
+                  onBlur={hookField.onBlur}
+                  onSelect={(plan) => {
+                    hookField.onChange(plan.name)
+                    setValue(`sales.${index}.mrc`, plan.defaultMrc.toFixed(2), {
+                      shouldValidate: true,
+                    })
+                  }}
+                  ariaLabel={`Sale ${index + 1} plan name`}
+                  className={inputClass}
+                />
+                <FormMessage className="text-xs">{fieldState.error?.message}</FormMessage>
+              </div>
+            )}
+          />
+          {/* Line type */}
+          <FormField
+            control={control}
+            name={`sales.${index}.lineType`}
+            render={({ field: hookField }) => (
+              <select
+                {...hookField}
+                aria-label={`Sale ${index + 1} line type`}
+                className="h-10 rounded-md border border-gray-300 bg-transparent px-2 text-sm focus:border-tmagenta"
+              >
+                {LINE_TYPES.map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
+          />
+          {/* MRC */}
+          <FormField
+            control={control}
+            name={`sales.${index}.mrc`}
+            render={({ field: hookField, fieldState }) => (
+              <div>
+                <Input
+                  {...hookField}
+                  type="text"
+                  aria-label={`Sale ${index + 1} MRC`}
+                  placeholder="MRC $"
+                  className={inputClass}
+                />
+                <FormMessage className="text-xs">{fieldState.error?.message}</FormMessage>
+              </div>
+            )}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            aria-label={`Remove sale ${index + 1}`}
+            onClick={() => remove(index)}
+            className="h-10"
+          >
+            ✕
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => append({ ...EMPTY_SALE })}
+        className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+      >
+        + Add sale
+      </Button>
+    </div>
+  )
+}
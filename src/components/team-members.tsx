@@ -0,0 +1,87 @@
+import { useState } from "react"
+import type { Team, TeamMember } from "@/types/team"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface TeamMembersProps {
+  team: Team
+  // Both left out for a read-only roster (only admins assign reps)
+  onAdd?: (member: TeamMember) => Promise<boolean>   // Resolves to whether it was saved
+  onRemove?: (member: TeamMember) => Promise<void>
+}
+
+/**
+ * TeamMembers
+ * Team roster. Admins add reps to the team by user id (with the name shown on the
+ * leaderboard) and remove them; managers see the list only.
+ */
+export function TeamMembers({ team, onAdd, onRemove }: TeamMembersProps) {
+  const [userId, setUserId] = useState("")
+  const [displayName, setDisplayName] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!onAdd) return
+    setIsSaving(true)
+    try {
+      const saved = await onAdd({ userId: userId.trim(), displayName: displayName.trim() })
+      if (saved) {
+        setUserId("")
+        setDisplayName("")
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-sm text-tblack">
+      {team.members.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {team.members.map((member) => (
+            <li key={member.userId} className="flex items-center justify-between py-1">
+              <span>
+                {member.displayName}{" "}
+                <span className="text-gray-500">(user {member.userId})</span>
+              </span>
+              {onRemove && (
+                <Button size="sm" variant="outline" onClick={() => onRemove(member)}>
+                  Remove
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {team.members.length === 0 && !onAdd && (
+        <p className="text-gray-500">No reps yet. Ask an admin to assign reps to this team.</p>
+      )}
+      {onAdd && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+          <Input
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            aria-label="Rep user id"
+            placeholder="User id"
+            className="w-28 border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+          />
+          <Input
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            aria-label="Rep name"
+            placeholder="Name"
+            className="w-48 border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+          />
+          <Button
+            type="submit"
+            disabled={!userId.trim() || !displayName.trim() || isSaving}
+            className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+          >
+            Add Rep
+          </Button>
+        </form>
+      )}
+    </div>
+  )
+}
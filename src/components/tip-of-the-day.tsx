@@ -0,0 +1,101 @@
+import { useState } from "react"
+import type { Tip, TipFeedback } from "@/types/tip"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+interface TipFeedbackButtonsProps {
+  tip: Tip
+  onRate: (tip: Tip, feedback: TipFeedback) => void
+}
+
+/**
+ * TipFeedbackButtons
+ * 👍 / 👎 toggles for one tip; the chosen one is highlighted.
+ */
+function TipFeedbackButtons({ tip, onRate }: TipFeedbackButtonsProps) {
+  return (
+    <div className="flex gap-1">
+      {(
+        [
+          ["helpful", "👍", "Helpful"],
+          ["not_helpful", "👎", "Not helpful"],
+        ] as const
+      ).map(([feedback, icon, label]) => (
+        <Button
+          key={feedback}
+          size="sm"
+          variant="outline"
+          aria-label={label}
+          title={label}
+          aria-pressed={tip.feedback === feedback}
+          onClick={() => onRate(tip, feedback)}
+          className={cn(
+            "h-7 px-2",
+            tip.feedback === feedback && "border-tmagenta bg-tmagenta/10"
+          )}
+        >
+          {icon}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+interface TipOfTheDayProps {
+  tip: Tip | null
+  message: string          // Shown when there is no tip
+  isLoading: boolean
+  history: Tip[]
+  onRate: (tip: Tip, feedback: TipFeedback) => void
+}
+
+/**
+ * TipOfTheDay
+ * Today's coaching tip with helpful / not-helpful feedback, and a collapsible
+ * history of earlier tips (each with its date, provider and feedback).
+ */
+export function TipOfTheDay({ tip, message, isLoading, history, onRate }: TipOfTheDayProps) {
+  const [showHistory, setShowHistory] = useState(false)
+
+  return (
+    <div className="space-y-2 text-sm text-tblack">
+      {isLoading ? (
+        <p>Loading tip…</p>
+      ) : tip ? (
+        <div className="flex items-start justify-between gap-4">
+          <p>{tip.text}</p>
+          <TipFeedbackButtons tip={tip} onRate={onRate} />
+        </div>
+      ) : (
+        <p>{message}</p>
+      )}
+
+      {history.length > 0 && (
+        <Button
+          size="sm"
+          variant="link"
+          onClick={() => setShowHistory((v) => !v)}
+          className="h-auto p-0 text-tmagenta"
+        >
+          {showHistory ? "Hide tip history" : `Tip history (${history.length})`}
+        </Button>
+      )}
+
+      {showHistory && (
+        <ul className="divide-y divide-gray-200 rounded-md border border-gray-200">
+          {history.map((past) => (
+            <li key={past.id} className="flex items-start justify-between gap-4 p-2">
+              <div>
+                <p>{past.text}</p>
+                <p className="text-xs text-gray-500">
+                  {past.date} · {past.provider}
+                </p>
+              </div>
+              <TipFeedbackButtons tip={past} onRate={onRate} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react"
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import {
+  buildTrendSeries,
+  type TrendGranularity,
+  type TrendPoint,
+} from "@/lib/trends"
+import type { DailyTotals } from "@/lib/summary"
+
+// Theme-aware colours: the --chart-N variables switch with the `.dark` class
+const chartColor = (n: number) => `hsl(var(--chart-${n}))`
+const AXIS_STYLE = { fontSize: 12, fill: "hsl(var(--muted-foreground))" }
+const TOOLTIP_STYLE = {
+  backgroundColor: "hsl(var(--popover))",
+  borderColor: "hsl(var(--border))",
+  color: "hsl(var(--popover-foreground))",
+  fontSize: 12,
+}
+
+type SeriesKey = Exclude<keyof TrendPoint, "bucket">
+
+interface TrendChartProps {
+  title: string
+  data: TrendPoint[]
+  series: ReadonlyArray<readonly [SeriesKey, string]>   // [data key, legend label]
+  unit?: string
+}
+
+/**
+ * TrendChart
+ * A single responsive line chart; the x-axis shows MM-DD so labels fit on a phone.
+ */
+function TrendChart({ title, data, series, unit }: TrendChartProps) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-tblack">{title}</h3>
+      <div className="h-56 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis
+              dataKey="bucket"
+              tick={AXIS_STYLE}
+              tickFormatter={(bucket: string) => bucket.slice(5)}
+              minTickGap={16}
+            />
+            <YAxis tick={AXIS_STYLE} unit={unit} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            {series.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+            {series.map(([key, label], i) => (
+              <Line
+                key={key}
+                type="monotone"
+                dataKey={key}
+                name={label}
+                unit={unit}
+                stroke={chartColor(i + 1)}
+                strokeWidth={2}
+                dot={data.length < 20}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * TrendCharts
+ * Daily or weekly trends for every entry in the selected period:
+ * lines per category, average MRC and protection attach rate.
+ */
+export function TrendCharts({ days }: { days: DailyTotals[] }) {
+  const [granularity, setGranularity] = useState<TrendGranularity>("day")
+  const data = useMemo(
+    () => buildTrendSeries(days, granularity),
+    [days, granularity]
+  )
+
+  return (
+    <div className="space-y-4">
+      {/* Day / week toggle */}
+      <div className="flex gap-2">
+        {(
+          [
+            ["day", "Daily"],
+            ["week", "Weekly"],
+          ] as const
+        ).map(([value, label]) => (
+          <Button
+            key={value}
+            size="sm"
+            variant="outline"
+            aria-pressed={granularity === value}
+            onClick={() => setGranularity(value)}
+            className={cn(
+              "border-tmagenta",
+              granularity === value
+                ? "bg-tmagenta text-twhite hover:bg-tmagenta/90 hover:text-twhite"
+                : "text-tmagenta hover:bg-tmagenta hover:text-twhite"
+            )}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-gray-500">No entries in this period to chart.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+          <TrendChart
+            title="Lines by Category"
+            data={data}
+            series={[
+              ["voiceLines", "Voice"],
+              ["bts", "BTS"],
+              ["iot", "IOT"],
+              ["hsi", "HSI"],
+            ]}
+          />
+          <TrendChart
+            title="Average MRC per Sale ($)"
+            data={data}
+            series={[["averageMrc", "Avg MRC"]]}
+          />
+          <TrendChart
+            title="Protection Attach Rate"
+            data={data}
+            series={[["protectionRate", "Protection"]]}
+            unit="%"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
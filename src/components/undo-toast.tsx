@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+
+interface UndoToastProps {
+  message: string
+  onUndo: () => Promise<void>
+  onDismiss: () => void
+  duration?: number   // How long Undo is offered (ms)
+}
+
+/**
+ * UndoToast
+ * Bottom-of-screen notice after a delete, with an Undo button that is offered
+ * for a few seconds. Dismisses itself when the time runs out or after undoing.
+ */
+export function UndoToast({ message, onUndo, onDismiss, duration = 10000 }: UndoToastProps) {
+  const [isUndoing, setIsUndoing] = useState(false)
+
+  // Close once the undo window has passed (restarts for every new message)
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, duration)
+    return () => window.clearTimeout(timer)
+  }, [message, duration, onDismiss])
+
+  const handleUndo = async () => {
+    setIsUndoing(true)
+    try {
+      await onUndo()
+    } finally {
+      setIsUndoing(false)
+      onDismiss()
+    }
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 z-50 flex -translate-x-1/2 items-center gap-4 rounded-lg bg-tblack px-4 py-3 text-sm text-twhite shadow-lg"
+    >
+      <span>{message}</span>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={isUndoing}
+        onClick={handleUndo}
+        className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+      >
+        {isUndoing ? "Undoing…" : "Undo"}
+      </Button>
+      <button type="button" aria-label="Dismiss" onClick={onDismiss} className="text-gray-400">
+        ✕
+      </button>
+    </div>
+  )
+}
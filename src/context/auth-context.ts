@@ -0,0 +1,19 @@
+import { createContext } from "react";
+import type { AuthTokenPayload } from "@/lib/auth";
+import type { Permission, Role } from "@/lib/roles";
+
+/**
+ * Shape of the value provided by <AuthProvider>.
+ */
+export type AuthContextValue = {
+  token: string | null;                 // Raw JWT, or null when signed out
+  user: AuthTokenPayload | null;        // Decoded claims of the current token
+  role: Role;                           // The user's role ("rep" when signed out)
+  can: (permission: Permission) => boolean;
+  expiresAt: number | null;             // Session expiry (ms since epoch)
+  isAuthenticated: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => void;
+};
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
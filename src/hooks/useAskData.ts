@@ -0,0 +1,50 @@
+import { useCallback, useState } from "react"
+import type { AskAnswer, QueryPlan } from "@/lib/askData"
+import { toDateString } from "@/lib/dateRange"
+
+// A question with the plan it was turned into and its answer
+export type AskDataResult = {
+  question: string
+  plan: QueryPlan
+  answer: AskAnswer
+}
+
+// The useAskData custom hook: sends a natural-language question to /api/askData and
+// keeps the latest answer. It sends the local date too, so "this week" means the
+// user's week rather than the server's. Questions the API couldn't turn into a query come back
+// as an error message to rephrase.
+const useAskData = (token: string | null) => {
+  const [result, setResult] = useState<AskDataResult | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const ask = useCallback(
+    async (question: string) => {
+      setIsLoading(true)
+      setError("")
+      try {
+        const res = await fetch("/api/askData", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ question, today: toDateString(new Date()) }),
+        })
+        const data = await res.json()
+        if (!res.ok) throw new Error(data.error ?? res.statusText)
+        setResult(data as AskDataResult)
+      } catch (err: any) {
+        console.error("Ask data error:", err.message)
+        setError(err.message)
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [token]
+  )
+
+  return { result, error, isLoading, ask }
+}
+
+export default useAskData
@@ -0,0 +1,14 @@
+import { useContext } from "react"
+import { AuthContext } from "@/context/auth-context"
+
+// The useAuth custom hook for reading the current session and the login/logout actions
+const useAuth = () => {
+  const context = useContext(AuthContext)
+  // Fail loudly if a component is rendered outside <AuthProvider>
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider")
+  }
+  return context
+}
+
+export default useAuth
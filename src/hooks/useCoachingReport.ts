@@ -0,0 +1,69 @@
+import { useCallback, useState } from "react"
+import type { EntriesRepository } from "@/lib/entriesRepository"
+import { coachingReportSchema, type CoachingReport } from "@/lib/coachingReport"
+import { toDateString, type DateRange } from "@/lib/dateRange"
+
+// A generated report with where it came from
+export type CoachingReportResult = {
+  report: CoachingReport
+  range: DateRange
+  provider: string
+  fallbackReason?: string   // Set when the model failed and the rule-based coach wrote it
+}
+
+// The last 7 days, today included
+const lastSevenDays = (): DateRange => {
+  const from = new Date()
+  from.setDate(from.getDate() - 6)
+  return { from: toDateString(from), to: toDateString(new Date()) }
+}
+
+// The useCoachingReport custom hook: generates the weekly coaching report on demand
+// from the last 7 days of entries (/api/coachingReport). The response is checked
+// against the same schema as on the server; anything else is reported as an error
+// the user can retry.
+const useCoachingReport = (repository: EntriesRepository, token: string | null) => {
+  const [result, setResult] = useState<CoachingReportResult | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const generate = useCallback(async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const range = lastSevenDays()
+      const entries = await repository.list({ range })
+      const res = await fetch("/api/coachingReport", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ entries }),
+      })
+      const raw = await res.text()
+      if (!res.ok) throw new Error(raw)
+
+      const data = JSON.parse(raw) as Omit<CoachingReportResult, "range" | "report"> & {
+        report: unknown
+      }
+      const parsed = coachingReportSchema.safeParse(data.report)
+      if (!parsed.success) throw new Error("The report came back in an unexpected format.")
+      setResult({
+        report: parsed.data,
+        range,
+        provider: data.provider,
+        fallbackReason: data.fallbackReason,
+      })
+    } catch (err: any) {
+      console.error("Coaching report error:", err.message)
+      setError(err.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [repository, token])
+
+  return { result, error, isLoading, generate }
+}
+
+export default useCoachingReport
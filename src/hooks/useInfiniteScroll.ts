@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react"
+
+// The useInfiniteScroll custom hook: calls `onReachEnd` whenever the returned sentinel
+// element scrolls into (or near) view, so lists can load their next page automatically
+const useInfiniteScroll = <T extends HTMLElement>(
+  onReachEnd: () => void,
+  enabled: boolean,
+) => {
+  const sentinelRef = useRef<T | null>(null)
+
+  useEffect(() => {
+    const node = sentinelRef.current
+    if (!node || !enabled) return
+
+    // Start loading a little before the sentinel is actually visible
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) onReachEnd()
+      },
+      { rootMargin: "200px" },
+    )
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [onReachEnd, enabled])
+
+  return sentinelRef
+}
+
+export default useInfiniteScroll
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { EntriesRepository } from "@/lib/entriesRepository"
+import {
+  createQueueSyncer,
+  newPendingOperation,
+  type OfflineQueue,
+  type PendingOperation,
+  type ReplayResult,
+} from "@/lib/offlineQueue"
+
+// The useOfflineQueue custom hook: exposes the signed-in user's queued entry writes,
+// replays them when the browser comes back online (and on mount), retries with backoff
+// while they can't be sent (including writes queued while online, after a failed
+// request), and resolves conflicts and failed writes.
+// `onSynced` runs after any pass that wrote something, so the caller can reload its data.
+const useOfflineQueue = (
+  queue: OfflineQueue,
+  repository: EntriesRepository,
+  userId: string | null,
+  onSynced: (result: ReplayResult) => void,
+) => {
+  const [operations, setOperations] = useState<PendingOperation[]>([])
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const [isSyncing, setIsSyncing] = useState(false)
+  // Latest callback, so a new function identity doesn't re-trigger the effects below
+  const onSyncedRef = useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  const reload = useCallback(async () => {
+    setOperations(userId ? await queue.list(userId) : [])
+  }, [queue, userId])
+
+  // Replays the user's queue one pass at a time and schedules the retries
+  const syncer = useMemo(
+    () =>
+      userId
+        ? createQueueSyncer({
+            queue,
+            repository,
+            userId,
+            onSynced: (result) => onSyncedRef.current(result),
+            onSyncing: (syncing) => {
+              setIsSyncing(syncing)
+              if (syncing) return
+              reload().catch((err) => console.error("Queue load error:", err.message))
+            },
+          })
+        : null,
+    [queue, repository, userId, reload],
+  )
+
+  // Replay every pending operation; unsent ones are retried after a growing delay
+  const sync = useCallback(async () => {
+    await syncer?.sync()
+  }, [syncer])
+
+  // Queue a write that could not be sent now; when online (the request itself failed),
+  // a retry is scheduled right away rather than waiting for the next `online` event
+  const enqueue = useCallback(
+    async (fields: Omit<PendingOperation, "id" | "queuedAt" | "status" | "userId">) => {
+      if (!userId) return
+      await queue.put(newPendingOperation({ ...fields, userId }))
+      await reload()
+      syncer?.retryLater()
+    },
+    [queue, userId, reload, syncer],
+  )
+
+  // Resolve a conflict: "keep" overwrites the newer version with the queued values,
+  // "discard" drops the queued change
+  const resolveConflict = useCallback(
+    async (operation: PendingOperation, resolution: "keep" | "discard") => {
+      if (resolution === "keep") {
+        const stored = await repository.update(operation.entryId!, operation.entry)
+        await queue.remove(operation.id)
+        onSyncedRef.current({
+          synced: [stored],
+          conflicts: [],
+          failed: [],
+          pending: 0,
+          remaining: 0,
+        })
+      } else {
+        await queue.remove(operation.id)
+      }
+      await reload()
+    },
+    [queue, repository, reload],
+  )
+
+  // A failed write: "retry" queues it again (after the user fixed the cause),
+  // "discard" drops it
+  const resolveFailure = useCallback(
+    async (operation: PendingOperation, resolution: "retry" | "discard") => {
+      if (resolution === "retry") {
+        await queue.put({ ...operation, status: "pending", error: undefined })
+        await reload()
+        await sync()
+      } else {
+        await queue.remove(operation.id)
+        await reload()
+      }
+    },
+    [queue, reload, sync],
+  )
+
+  // Track connectivity; replay as soon as the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [sync])
+
+  // Load (and, when online, replay) anything left over from an earlier session
+  useEffect(() => {
+    reload().catch((err) => console.error("Queue load error:", err.message))
+    if (navigator.onLine) sync()
+  }, [reload, sync])
+
+  // Cancel a scheduled retry on unmount (or when the user changes)
+  useEffect(() => () => syncer?.cancel(), [syncer])
+
+  return { operations, isOnline, isSyncing, enqueue, sync, resolveConflict, resolveFailure }
+}
+
+export default useOfflineQueue
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { Entry } from "@/types/entry"
+import type { Tip, TipFeedback } from "@/types/tip"
+import type { TipsRepository } from "@/lib/tipsRepository"
+import { toDateString } from "@/lib/dateRange"
+import { tipFingerprint } from "@/lib/tipFingerprint"
+import { NO_ENTRIES_TIP } from "@/lib/tipProviders"
+
+// The useTipOfTheDay custom hook: serves today's saved tip while the entries tell the
+// same story (same `tipFingerprint`), and only asks /api/generateTip for a new one,
+// which is saved to the history, once the data changed meaningfully.
+// Also loads the tip history and records helpful / not-helpful feedback.
+const useTipOfTheDay = (
+  entries: Entry[],
+  repository: TipsRepository,
+  token: string | null,
+) => {
+  const [tip, setTip] = useState<Tip | null>(null)
+  // Shown instead of a tip when there is none (no entries, or generation failed)
+  const [message, setMessage] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [history, setHistory] = useState<Tip[]>([])
+
+  const fingerprint = useMemo(() => tipFingerprint(entries), [entries])
+  // Latest entries, read when a new tip is needed (the effect below keys on the fingerprint)
+  const entriesRef = useRef(entries)
+  entriesRef.current = entries
+
+  const reloadHistory = useCallback(async () => {
+    try {
+      setHistory(await repository.list())
+    } catch (err: any) {
+      console.error("Tip history fetch error:", err.message)
+    }
+  }, [repository])
+
+  useEffect(() => {
+    reloadHistory()
+  }, [reloadHistory])
+
+  // Today's tip: the saved one while the fingerprint matches, otherwise a new one
+  useEffect(() => {
+    if (entriesRef.current.length === 0) {
+      setTip(null)
+      setMessage(NO_ENTRIES_TIP)
+      return
+    }
+
+    let cancelled = false
+    ;(async () => {
+      setIsLoading(true)
+      try {
+        const today = toDateString(new Date())
+        const saved = await repository.latest(today)
+        if (saved?.fingerprint === fingerprint) {
+          if (!cancelled) setTip(saved)
+          return
+        }
+        // /api/generateTip needs a bearer token, so ask only while signed in
+        if (!token) return
+
+        const res = await fetch("/api/generateTip", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ entries: entriesRef.current }),
+        })
+        const raw = await res.text()
+        if (!res.ok) throw new Error(raw)
+        const data = JSON.parse(raw) as { tip?: string; provider?: string }
+        if (!data.tip) throw new Error("(no tip)")
+
+        const created = await repository.create({
+          date: today,
+          text: data.tip,
+          provider: data.provider ?? "unknown",
+          fingerprint,
+        })
+        if (!cancelled) setTip(created)
+        await reloadHistory()
+      } catch (err: any) {
+        if (!cancelled) {
+          setTip(null)
+          setMessage(`Error: ${err.message}`)
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [fingerprint, repository, token, reloadHistory])
+
+  // Rate a tip (the same rating again clears it)
+  const rateTip = useCallback(
+    async (rated: Tip, feedback: TipFeedback) => {
+      const next = rated.feedback === feedback ? null : feedback
+      try {
+        const updated = await repository.setFeedback(rated.id, next)
+        setTip((current) => (current?.id === updated.id ? updated : current))
+        setHistory((prev) => prev.map((t) => (t.id === updated.id ? updated : t)))
+      } catch (err: any) {
+        console.error("Tip feedback error:", err.message)
+        alert("Could not save feedback:\n" + err.message)
+      }
+    },
+    [repository],
+  )
+
+  return { tip, message, isLoading, history, rateTip }
+}
+
+export default useTipOfTheDay
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../tests/fixtures";
+import type { Entry, Sale } from "../types/entry";
+import { QueryPlanError, answerQuestion, createFakePlanner, runQueryPlan } from "./askData";
+import { createInMemoryEntriesRepository } from "./entriesRepository";
+
+const sale = (planName: string, mrc: string, lineType: Sale["lineType"] = "voice"): Sale => ({
+  planName,
+  lineType,
+  mrc,
+});
+
+const repositoryWith = async (entries: Entry[]) => {
+  const repository = createInMemoryEntriesRepository();
+  await repository.createMany(entries);
+  return repository;
+};
+
+describe("answerQuestion", () => {
+  it("rejects plans outside the whitelist", async () => {
+    const repository = await repositoryWith([entry("2026-10-01")]);
+    const planner = createFakePlanner({
+      "Unknown metric": { metric: "password" },
+      "Extra key": { metric: "hsi", sql: "select * from entries" },
+      "Pick without grouping": { metric: "mrc", pick: "highest" },
+      "Loose date": { metric: "hsi", from: "October 1st" },
+    });
+
+    for (const question of ["Unknown metric", "Extra key", "Pick without grouping", "Loose date"]) {
+      await expect(
+        answerQuestion(question, { planner, repository, today: "2026-10-19" })
+      ).rejects.toBeInstanceOf(QueryPlanError);
+    }
+  });
+
+  it("reports a planner failure as a QueryPlanError", async () => {
+    const repository = await repositoryWith([]);
+
+    await expect(
+      answerQuestion("Anything", {
+        planner: createFakePlanner({}),
+        repository,
+        today: "2026-10-19",
+      })
+    ).rejects.toThrow('Could not plan the question: No plan for "Anything"');
+  });
+
+  it("resolves relative dates against the asker's today", async () => {
+    const repository = await repositoryWith([
+      entry("2026-09-30", { hsi: "5" }),
+      entry("2026-10-01", { hsi: "2" }),
+      entry("2026-10-19", { hsi: "3" }),
+      entry("2026-10-20", { hsi: "7" }),
+    ]);
+    // "This month so far", as the model would plan it
+    const planner = createFakePlanner((_question, today) => ({
+      metric: "hsi",
+      from: `${today.slice(0, 7)}-01`,
+      to: today,
+    }));
+
+    const { plan, answer } = await answerQuestion("HSI this month?", {
+      planner,
+      repository,
+      today: "2026-10-19",
+    });
+
+    expect(plan).toEqual({ metric: "hsi", from: "2026-10-01", to: "2026-10-19" });
+    expect(answer.value).toBe(5);
+    expect(answer.rows.map((r) => r.date).sort()).toEqual(["2026-10-01", "2026-10-19"]);
+  });
+
+  it("reads every entry in the plan's range", async () => {
+    const repository = await repositoryWith(
+      Array.from({ length: 1205 }, () => entry("2026-10-01"))
+    );
+    const planner = createFakePlanner({ "How many entries?": { metric: "entries" } });
+
+    const { answer } = await answerQuestion("How many entries?", {
+      planner,
+      repository,
+      today: "2026-10-19",
+    });
+
+    expect(answer.value).toBe(1205);
+    expect(answer.rowCount).toBe(1205);
+    expect(answer.rows).toHaveLength(100);
+  });
+});
+
+describe("runQueryPlan", () => {
+  const entries = [
+    entry("2026-10-05", { sales: [sale("Go5G", "90"), sale("Essentials", "60")] }),
+    entry("2026-10-06", { sales: [sale("Go5G", "100")] }),
+    entry("2026-10-13", { sales: [sale("Essentials", "50"), sale("Home", "55", "hsi")] }),
+    entry("2026-10-14"),
+  ].map((e, i) => ({ ...e, id: `e${i}`, userId: "1", createdAt: "", updatedAt: "" }));
+
+  it("groups sales by plan and picks the highest", () => {
+    const answer = runQueryPlan({ metric: "mrc", groupBy: "plan", pick: "highest" }, entries);
+
+    expect(answer.groups.map((g) => [g.key, g.value])).toEqual([
+      ["Go5G", 190],
+      ["Essentials", 110],
+      ["Home", 55],
+    ]);
+    expect(answer.group).toBe("Go5G");
+    expect(answer.value).toBe(190);
+    expect(answer.rows.map((r) => r.id)).toEqual(["e0", "e1"]);
+  });
+
+  it("groups entries by week, starting on Monday", () => {
+    const answer = runQueryPlan({ metric: "entries", groupBy: "week" }, entries);
+
+    expect(answer.groups.map((g) => [g.key, g.value])).toEqual([
+      ["2026-10-05", 2],
+      ["2026-10-12", 2],
+    ]);
+  });
+
+  it("only counts the sales that match a filter", () => {
+    const answer = runQueryPlan({ metric: "averageMrc", lineType: "hsi" }, entries);
+
+    expect(answer.value).toBe(55);
+    expect(answer.rows.map((r) => r.id)).toEqual(["e2"]);
+  });
+});
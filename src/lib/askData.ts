@@ -0,0 +1,349 @@
+/**
+ * askData.ts
+ *
+ * "Ask your data": answers natural-language questions about the user's own entries.
+ * • A `QuestionPlanner` (the model, or a fake in tests) turns the question into a
+ *   `QueryPlan`. The plan is a whitelisted description, not a query language: one
+ *   metric from a fixed list, an optional date range, plan / line type filters and an
+ *   optional grouping with a highest / lowest pick. Anything else fails validation.
+ * • `runQueryPlan` evaluates a plan over entries in memory, with the same sums and
+ *   rates as the Summary Statistics, and returns the number plus the entries it came from.
+ * • `answerQuestion` ties them together over an EntriesRepository, so it only ever
+ *   reads what the repository returns: the caller's own entries (row-level security).
+ * Grouped by plan or line type, an entry counts towards every plan / line type it has a
+ * sale of; sale metrics (sales, MRC) only count the matching sales.
+ */
+import * as z from "zod";
+import type { Entry, LineType, Sale, StoredEntry } from "../types/entry";
+import { listAllEntries, type EntriesRepository } from "./entriesRepository";
+import { describeRange, parseDateString, startOfWeek, toDateString } from "./dateRange";
+import { LINE_TYPE_VALUES, lineTypeLabel } from "./sales";
+
+export const ASK_METRICS = [
+  "voiceLines",
+  "bts",
+  "iot",
+  "hsi",
+  "lines",
+  "accessories",
+  "protection",
+  "protectionRate",
+  "sales",
+  "mrc",
+  "averageMrc",
+  "entries",
+] as const;
+
+export type AskMetric = (typeof ASK_METRICS)[number];
+
+export const ASK_GROUPINGS = ["plan", "lineType", "date", "week", "month"] as const;
+
+export type AskGrouping = (typeof ASK_GROUPINGS)[number];
+
+// Label and unit of each metric, for answers and for the planner's instructions
+export const ASK_METRIC_LABELS: Record<AskMetric, { label: string; unit: "count" | "$" | "%" }> = {
+  voiceLines: { label: "Voice lines", unit: "count" },
+  bts: { label: "BTS lines", unit: "count" },
+  iot: { label: "IoT lines", unit: "count" },
+  hsi: { label: "HSI lines", unit: "count" },
+  lines: { label: "Total lines", unit: "count" },
+  accessories: { label: "Accessory revenue", unit: "$" },
+  protection: { label: "Protection packages", unit: "count" },
+  protectionRate: { label: "Protection attach rate", unit: "%" },
+  sales: { label: "Plan sales", unit: "count" },
+  mrc: { label: "Total MRC", unit: "$" },
+  averageMrc: { label: "Average MRC", unit: "$" },
+  entries: { label: "Entries", unit: "count" },
+};
+
+const GROUPING_LABELS: Record<AskGrouping, string> = {
+  plan: "plan",
+  lineType: "line type",
+  date: "day",
+  week: "week",
+  month: "month",
+};
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const queryPlanSchema = z
+  .object({
+    metric: z.enum(ASK_METRICS),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    planName: z.string().trim().min(1).max(100).optional(),
+    lineType: z.enum(LINE_TYPE_VALUES).optional(),
+    groupBy: z.enum(ASK_GROUPINGS).optional(),
+    pick: z.enum(["highest", "lowest"]).optional(),
+  })
+  .strict()
+  .refine((plan) => !plan.pick || plan.groupBy, {
+    message: "`pick` needs a `groupBy`",
+    path: ["pick"],
+  });
+
+export type QueryPlan = z.infer<typeof queryPlanSchema>;
+
+/**
+ * QuestionPlanner turns a question into a QueryPlan (validated by the caller).
+ * `today` (YYYY-MM-DD) resolves relative dates such as "this month".
+ */
+export interface QuestionPlanner {
+  plan(question: string, context: { today: string }): Promise<unknown>;
+}
+
+/**
+ * The answer to one question.
+ */
+export type AskAnswer = {
+  text: string;                 // e.g. "HSI lines, 2026-10-01 – 2026-10-15: 12"
+  value: number;
+  metric: AskMetric;
+  group: string | null;         // The picked group (with `pick`)
+  // Every group, best first (with `groupBy`)
+  groups: { key: string; label: string; value: number }[];
+  rows: StoredEntry[];          // The entries the number came from, newest first
+  rowCount: number;             // All such entries (`rows` may be capped)
+};
+
+/**
+ * QueryPlanError is thrown by `answerQuestion` when the question couldn't be turned
+ * into a valid QueryPlan (the planner failed, or its plan didn't validate).
+ */
+export class QueryPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueryPlanError";
+  }
+}
+
+// Source rows returned with an answer
+const MAX_ROWS = 100;
+
+/**
+ * createFakePlanner: Planner for tests: looks the question up in `plans` (or calls
+ * it), and rejects for unknown questions.
+ */
+export function createFakePlanner(
+  plans: Record<string, unknown> | ((question: string, today: string) => unknown)
+): QuestionPlanner {
+  return {
+    async plan(question, { today }) {
+      const plan = typeof plans === "function" ? plans(question, today) : plans[question];
+      if (plan === undefined) throw new Error(`No plan for "${question}"`);
+      return plan;
+    },
+  };
+}
+
+// An entry's sales that pass the plan's filters
+const matchingSales = (entry: Entry, plan: Pick<QueryPlan, "planName" | "lineType">) =>
+  entry.sales.filter(
+    (sale) =>
+      (!plan.planName || sale.planName.toLowerCase() === plan.planName.toLowerCase()) &&
+      (!plan.lineType || sale.lineType === plan.lineType)
+  );
+
+/**
+ * metricValue: One metric over a set of entries; `sales` are the sales counted for
+ * the sale metrics.
+ */
+export function metricValue(metric: AskMetric, entries: Entry[], sales: Sale[]): number {
+  const sum = (pick: (e: Entry) => string) =>
+    entries.reduce((total, e) => total + Number(pick(e)), 0);
+  const lines =
+    sum((e) => e.voiceLines) + sum((e) => e.bts) + sum((e) => e.iot) + sum((e) => e.hsi);
+  const mrc = sales.reduce((total, s) => total + Number(s.mrc), 0);
+
+  switch (metric) {
+    case "voiceLines":
+      return sum((e) => e.voiceLines);
+    case "bts":
+      return sum((e) => e.bts);
+    case "iot":
+      return sum((e) => e.iot);
+    case "hsi":
+      return sum((e) => e.hsi);
+    case "lines":
+      return lines;
+    case "accessories":
+      return sum((e) => e.accessories);
+    case "protection":
+      return sum((e) => e.protection);
+    case "protectionRate":
+      return lines > 0 ? (sum((e) => e.protection) / lines) * 100 : 0;
+    case "sales":
+      return sales.length;
+    case "mrc":
+      return mrc;
+    case "averageMrc":
+      return sales.length > 0 ? mrc / sales.length : 0;
+    case "entries":
+      return entries.length;
+  }
+}
+
+// The group keys an entry belongs to
+function groupKeys(entry: Entry, sales: Sale[], groupBy: AskGrouping): string[] {
+  switch (groupBy) {
+    case "plan":
+      return [...new Set(sales.map((s) => s.planName))];
+    case "lineType":
+      return [...new Set(sales.map((s) => s.lineType))];
+    case "date":
+      return [entry.date];
+    case "week":
+      return [toDateString(startOfWeek(parseDateString(entry.date)))];
+    case "month":
+      return [entry.date.slice(0, 7)];
+  }
+}
+
+/**
+ * formatMetric: A metric value in its unit ("$85.00", "42.9%", "12").
+ */
+export function formatMetric(metric: AskMetric, value: number): string {
+  const { unit } = ASK_METRIC_LABELS[metric];
+  if (unit === "$") return `$${value.toFixed(2)}`;
+  if (unit === "%") return `${value.toFixed(1)}%`;
+  return String(Math.round(value * 100) / 100);
+}
+
+// How the plan reads in an answer: "Total MRC (Go5G) by week, 2026-10-01 – 2026-10-15"
+function describePlan(plan: QueryPlan): string {
+  const metric = ASK_METRIC_LABELS[plan.metric].label;
+  const filters = [plan.planName, plan.lineType && lineTypeLabel(plan.lineType)]
+    .filter(Boolean)
+    .join(", ");
+  const range = describeRange({ from: plan.from, to: plan.to });
+  const grouping = plan.groupBy ? ` by ${GROUPING_LABELS[plan.groupBy]}` : "";
+  return `${metric}${filters ? ` (${filters})` : ""}${grouping}, ${range}`;
+}
+
+/**
+ * runQueryPlan: Evaluates a validated plan over entries (already limited to the
+ * plan's dates or not; the dates are applied again here).
+ */
+export function runQueryPlan(plan: QueryPlan, entries: StoredEntry[]): AskAnswer {
+  const filtering = Boolean(plan.planName || plan.lineType);
+  // Entries in range that pass the filters, with their matching sales
+  const matched = entries
+    .filter((e) => (!plan.from || e.date >= plan.from) && (!plan.to || e.date <= plan.to))
+    .map((entry) => ({ entry, sales: matchingSales(entry, plan) }))
+    .filter(({ sales }) => !filtering || sales.length > 0);
+
+  const answer = (
+    text: string,
+    value: number,
+    rows: StoredEntry[],
+    groups: AskAnswer["groups"] = [],
+    group: string | null = null
+  ): AskAnswer => ({
+    text,
+    value,
+    metric: plan.metric,
+    group,
+    groups,
+    rows: rows.slice(0, MAX_ROWS),
+    rowCount: rows.length,
+  });
+  const matchedEntries = matched.map((m) => m.entry);
+  const matchedSales = matched.flatMap((m) => m.sales);
+
+  if (!plan.groupBy) {
+    const value = metricValue(plan.metric, matchedEntries, matchedSales);
+    return answer(
+      `${describePlan(plan)}: ${formatMetric(plan.metric, value)}`,
+      value,
+      matchedEntries
+    );
+  }
+
+  // Entries with no group (no sales, grouped by plan or line type) aren't counted
+  const grouped = matched
+    .map((m) => ({ ...m, keys: groupKeys(m.entry, m.sales, plan.groupBy!) }))
+    .filter((m) => m.keys.length > 0);
+  const byGroup = new Map<string, { entries: StoredEntry[]; sales: Sale[] }>();
+  for (const { entry, sales, keys } of grouped) {
+    for (const key of keys) {
+      const group = byGroup.get(key) ?? { entries: [], sales: [] };
+      group.entries.push(entry);
+      group.sales.push(
+        ...(plan.groupBy === "plan"
+          ? sales.filter((s) => s.planName === key)
+          : plan.groupBy === "lineType"
+            ? sales.filter((s) => s.lineType === key)
+            : sales)
+      );
+      byGroup.set(key, group);
+    }
+  }
+
+  const label = (key: string) =>
+    plan.groupBy === "lineType" ? lineTypeLabel(key as LineType) : key;
+  const groups = [...byGroup.entries()]
+    .map(([key, g]) => ({
+      key,
+      label: label(key),
+      value: metricValue(plan.metric, g.entries, g.sales),
+    }))
+    .sort((a, b) => b.value - a.value || a.key.localeCompare(b.key));
+
+  if (plan.pick && groups.length > 0) {
+    const picked = plan.pick === "highest" ? groups[0] : groups[groups.length - 1];
+    return answer(
+      `${describePlan(plan)}, ${plan.pick}: ${picked.label} ` +
+        `(${formatMetric(plan.metric, picked.value)})`,
+      picked.value,
+      byGroup.get(picked.key)!.entries,
+      groups,
+      picked.label
+    );
+  }
+
+  const listed = groups
+    .map((g) => `${g.label} ${formatMetric(plan.metric, g.value)}`)
+    .join(", ");
+  const groupedEntries = grouped.map((m) => m.entry);
+  return answer(
+    `${describePlan(plan)}: ${groups.length === 0 ? "no matching entries" : listed}`,
+    metricValue(plan.metric, groupedEntries, grouped.flatMap((m) => m.sales)),
+    groupedEntries,
+    groups
+  );
+}
+
+/**
+ * answerQuestion: Plans the question, validates the plan, reads all of the user's
+ * entries for its dates and runs it. `today` is the asker's local date (YYYY-MM-DD),
+ * so "this week" means their week wherever the planner runs.
+ * @throws QueryPlanError when the planner fails or its plan isn't valid
+ */
+export async function answerQuestion(
+  question: string,
+  {
+    planner,
+    repository,
+    today,
+  }: { planner: QuestionPlanner; repository: EntriesRepository; today: string }
+): Promise<{ plan: QueryPlan; answer: AskAnswer }> {
+  let raw: unknown;
+  try {
+    raw = await planner.plan(question, { today });
+  } catch (err: any) {
+    throw new QueryPlanError(`Could not plan the question: ${err.message}`);
+  }
+
+  const parsed = queryPlanSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new QueryPlanError(
+      `Could not turn the question into a query (${parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "plan"}: ${issue.message}`)
+        .join("; ")})`
+    );
+  }
+
+  const plan = parsed.data;
+  const entries = await listAllEntries(repository, { from: plan.from, to: plan.to });
+  return { plan, answer: runQueryPlan(plan, entries) };
+}
@@ -0,0 +1,62 @@
+/**
+ * auditLog.ts
+ *
+ * Presentation helpers for the entry audit log viewer.
+ * • Labels for actions and sources.
+ * • `changedFields` lists the entry values an audit record changed, formatted for
+ *   display (plan sales in the same one-cell form as the CSV export).
+ */
+import type { AuditAction, AuditRecord } from "../types/audit";
+import type { Entry } from "../types/entry";
+import { formatSales } from "./sales";
+
+export const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  clear: "Cleared",
+  restore: "Restored",
+  purge: "Purged",
+};
+
+export const SOURCE_LABELS: Record<AuditRecord["source"], string> = {
+  ui: "App",
+  import: "CSV import",
+  api: "API",
+  system: "System",
+};
+
+// Entry values shown in the log, in table order
+const AUDITED_FIELDS: ReadonlyArray<readonly [keyof Entry, string]> = [
+  ["date", "Date"],
+  ["voiceLines", "Voice Lines"],
+  ["bts", "BTS"],
+  ["iot", "IOT"],
+  ["hsi", "HSI"],
+  ["accessories", "Accessories ($)"],
+  ["protection", "Protection"],
+  ["sales", "Plan Sales"],
+];
+
+export type FieldChange = {
+  label: string;
+  before: string | null;    // null when the record has no "before" (created)
+  after: string | null;     // null when it has no "after" (purged)
+};
+
+const formatField = (entry: Entry, field: keyof Entry) =>
+  field === "sales" ? formatSales(entry.sales) || "—" : String(entry[field]);
+
+/**
+ * changedFields: The values that differ between a record's before and after.
+ * Creates and purges list every value; deletes, clears and restores (which leave the
+ * values alone) list none.
+ */
+export function changedFields(record: Pick<AuditRecord, "before" | "after">): FieldChange[] {
+  const { before, after } = record;
+  return AUDITED_FIELDS.flatMap(([field, label]) => {
+    const from = before ? formatField(before, field) : null;
+    const to = after ? formatField(after, field) : null;
+    return from === to ? [] : [{ label, before: from, after: to }];
+  });
+}
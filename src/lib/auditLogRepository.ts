@@ -0,0 +1,174 @@
+/**
+ * auditLogRepository.ts
+ *
+ * Read-only access to the `entry_audit_log` table, the append-only history of every
+ * change to an entry (written by a database trigger, never by the app).
+ * • Lists records newest first, filtered by user (as the actor or the entry's owner)
+ *   and by the local calendar dates the changes were made on, with keyset pagination.
+ * • Row-level security decides whose history the caller sees: their own entries,
+ *   their teams' entries for managers, everything for admins.
+ * • Ships a Supabase implementation and an in-memory implementation.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuditActor, AuditRecord } from "../types/audit";
+import { parseDateString, type DateRange } from "./dateRange";
+import { rowToEntry, type EntryRow } from "./entriesRepository";
+
+/**
+ * AuditLogRow mirrors a row of `entry_audit_log`; `before`/`after` hold the whole
+ * `entries` row as jsonb.
+ */
+export type AuditLogRow = {
+  id: number | string;
+  entry_id: string;
+  user_id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  action: AuditRecord["action"];
+  source: AuditRecord["source"];
+  before: EntryRow | null;
+  after: EntryRow | null;
+  batch_id: string | null;
+  created_at: string;
+};
+
+const AUDIT_COLUMNS =
+  "id, entry_id, user_id, actor_id, actor_name, action, source, before, after, batch_id, created_at";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export type AuditLogQuery = {
+  userId?: string;        // Changes made by, or to the entries of, this user
+  range?: DateRange;      // Local calendar dates the changes were made on
+  cursor?: string;        // `nextCursor` of the previous page
+  pageSize?: number;
+};
+
+export type AuditLogPage = {
+  records: AuditRecord[];
+  nextCursor: string | null;    // null on the last page
+};
+
+export interface AuditLogRepository {
+  /** One page of the log, newest first. */
+  list(query?: AuditLogQuery): Promise<AuditLogPage>;
+  /** Everyone whose changes appear in the visible log, by name. */
+  actors(): Promise<AuditActor[]>;
+}
+
+export function rowToAuditRecord(row: AuditLogRow): AuditRecord {
+  return {
+    id: String(row.id),
+    entryId: row.entry_id,
+    userId: row.user_id,
+    actorId: row.actor_id,
+    actorName: row.actor_name,
+    action: row.action,
+    source: row.source,
+    before: row.before ? rowToEntry(row.before) : null,
+    after: row.after ? rowToEntry(row.after) : null,
+    batchId: row.batch_id,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * timestampBounds: The [start, end) instants of a range of local calendar dates.
+ */
+export function timestampBounds(range: DateRange = {}): { start?: string; end?: string } {
+  const end = range.to ? parseDateString(range.to) : undefined;
+  end?.setDate(end.getDate() + 1);
+  return {
+    start: range.from ? parseDateString(range.from).toISOString() : undefined,
+    end: end?.toISOString(),
+  };
+}
+
+const sortActors = (actors: AuditActor[]) =>
+  actors.sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * createSupabaseAuditLogRepository: Repository backed by `entry_audit_log`.
+ */
+export function createSupabaseAuditLogRepository(
+  client: SupabaseClient
+): AuditLogRepository {
+  return {
+    async list(options = {}) {
+      const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+      const { start, end } = timestampBounds(options.range);
+
+      let query = client.from("entry_audit_log").select(AUDIT_COLUMNS);
+      if (options.userId) {
+        query = query.or(`actor_id.eq.${options.userId},user_id.eq.${options.userId}`);
+      }
+      if (start) query = query.gte("created_at", start);
+      if (end) query = query.lt("created_at", end);
+      // Ids only grow, so they double as the cursor
+      if (options.cursor) query = query.lt("id", options.cursor);
+
+      // One extra row tells whether there is a next page
+      const { data, error } = await query.order("id", { ascending: false }).limit(pageSize + 1);
+      if (error) throw new Error(error.message);
+
+      const rows = (data ?? []) as AuditLogRow[];
+      const page = rows.slice(0, pageSize);
+      return {
+        records: page.map(rowToAuditRecord),
+        nextCursor: rows.length > pageSize ? String(page[page.length - 1].id) : null,
+      };
+    },
+
+    async actors() {
+      const { data, error } = await client.rpc("entry_audit_actors");
+      if (error) throw new Error(error.message);
+      return sortActors(
+        ((data ?? []) as { actor_id: string; actor_name: string | null }[]).map((row) => ({
+          id: row.actor_id,
+          name: row.actor_name ?? row.actor_id,
+        }))
+      );
+    },
+  };
+}
+
+/**
+ * createInMemoryAuditLogRepository: Repository over a fixed list of log rows
+ * (the caller decides which rows are visible).
+ */
+export function createInMemoryAuditLogRepository(
+  seed: AuditLogRow[] = []
+): AuditLogRepository {
+  const rows = [...seed].sort((a, b) => Number(b.id) - Number(a.id));
+
+  return {
+    async list(options = {}) {
+      const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+      const { start, end } = timestampBounds(options.range);
+      const matching = rows.filter(
+        (row) =>
+          (!options.userId ||
+            row.actor_id === options.userId ||
+            row.user_id === options.userId) &&
+          (!start || Date.parse(row.created_at) >= Date.parse(start)) &&
+          (!end || Date.parse(row.created_at) < Date.parse(end)) &&
+          (!options.cursor || Number(row.id) < Number(options.cursor))
+      );
+      const page = matching.slice(0, pageSize);
+      return {
+        records: page.map(rowToAuditRecord),
+        nextCursor: matching.length > pageSize ? String(page[page.length - 1].id) : null,
+      };
+    },
+
+    async actors() {
+      const byId = new Map<string, AuditActor>();
+      for (const row of rows) {
+        if (row.actor_id && !byId.has(row.actor_id)) {
+          byId.set(row.actor_id, { id: row.actor_id, name: row.actor_name ?? row.actor_id });
+        }
+      }
+      return sortActors([...byId.values()]);
+    },
+  };
+}
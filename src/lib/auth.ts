@@ -0,0 +1,90 @@
+/**
+ * auth.ts
+ *
+ * Framework-free helpers for the JWT issued by `POST /api/login`.
+ * • Persists the token in localStorage under `authToken` (the key the rest of the app reads).
+ * • Decodes the token payload client-side to learn who is signed in, their role and when the
+ *   session expires.
+ * • Wraps the login request so callers get either a token or an Error with the server's message.
+ */
+
+import type { Role } from "./roles";
+
+// localStorage key holding the raw JWT
+export const AUTH_TOKEN_KEY = "authToken";
+
+/**
+ * Claims signed into the token by the server.
+ */
+export type AuthTokenPayload = {
+  sub: string;           // User id as a string (what row-level security matches on)
+  userId: number;
+  username: string;
+  appRole?: Role;        // Missing on tokens issued before roles existed (treated as "rep")
+  exp: number;           // Expiry as seconds since the Unix epoch
+};
+
+/**
+ * decodeToken: Reads the payload segment of a JWT without verifying it.
+ * Verification is the server's job; the client only needs the claims for display and expiry.
+ * @returns The payload, or null when the token is malformed
+ */
+export function decodeToken(token: string): AuthTokenPayload | null {
+  try {
+    const segment = token.split(".")[1];
+    const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+    const payload = JSON.parse(atob(base64));
+    if (typeof payload.exp !== "number") return null;
+    return payload as AuthTokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * tokenExpiresAt: Expiry of a token in milliseconds since the epoch (0 when unreadable).
+ */
+export function tokenExpiresAt(token: string): number {
+  return (decodeToken(token)?.exp ?? 0) * 1000;
+}
+
+/**
+ * getStoredToken: Returns the saved token if it is still valid, clearing it otherwise.
+ */
+export function getStoredToken(): string | null {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY);
+  if (!token) return null;
+  if (tokenExpiresAt(token) <= Date.now()) {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    return null;
+  }
+  return token;
+}
+
+export function storeToken(token: string) {
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+}
+
+export function clearStoredToken() {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+}
+
+/**
+ * requestLogin: Exchanges credentials for a JWT via `POST /api/login`.
+ * @throws Error with the server's error message (e.g. "Invalid credentials.")
+ */
+export async function requestLogin(
+  username: string,
+  password: string
+): Promise<string> {
+  const res = await fetch("/api/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || typeof data.token !== "string") {
+    throw new Error(data.error || `Login failed (${res.status})`);
+  }
+  return data.token;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../tests/fixtures";
+import {
+  coachingReportSchema,
+  parseCoachingReport,
+  ruleBasedReport,
+  type CoachingReport,
+} from "./coachingReport";
+
+const report: CoachingReport = {
+  summary: "Solid week.",
+  strengths: [{ title: "Protection", detail: "45% attach rate." }],
+  weaknesses: [{ title: "Home Internet", detail: "No HSI lines." }],
+  focus: { metric: "hsi", current: 0, target: 2, actions: ["Check HSI availability"] },
+};
+
+describe("parseCoachingReport", () => {
+  it("returns a report that matches the schema", () => {
+    expect(parseCoachingReport(JSON.stringify(report))).toEqual({ report });
+  });
+
+  it("rejects output that is not JSON", () => {
+    expect(parseCoachingReport("Here is your report: {")).toEqual({
+      error: "The output is not valid JSON",
+    });
+  });
+
+  it("names every field that doesn't match the schema", () => {
+    const result = parseCoachingReport(
+      JSON.stringify({ ...report, strengths: [], focus: { ...report.focus, metric: "mood" } })
+    );
+
+    expect("error" in result && result.error.split("; ").map((e) => e.split(":")[0])).toEqual([
+      "strengths",
+      "focus.metric",
+    ]);
+  });
+});
+
+describe("ruleBasedReport", () => {
+  it("splits metrics at their benchmarks and focuses on the weakest", () => {
+    const result = ruleBasedReport([
+      entry("2026-10-12", { voiceLines: "5", bts: "1", protection: "3", accessories: "100" }),
+      entry("2026-10-13", { voiceLines: "4", bts: "1", protection: "2", accessories: "65" }),
+    ]);
+
+    expect(result.summary).toBe(
+      "11 lines over 2 entries with 45% protection and $0.00 average MRC."
+    );
+    expect(result.strengths.map((p) => p.title)).toEqual([
+      "BTS lines",
+      "Protection attach rate",
+      "Voice line volume",
+    ]);
+    expect(result.weaknesses.map((p) => p.title)).toEqual(["Home Internet"]);
+    // 10% of 11 lines, rounded up to whole lines
+    expect(result.focus).toMatchObject({ metric: "hsi", current: 0, target: 2 });
+  });
+
+  it("aims 10% higher when every metric meets its benchmark", () => {
+    const day = { bts: "1", hsi: "1", accessories: "130" };
+    const result = ruleBasedReport([
+      entry("2026-10-12", { ...day, voiceLines: "5", protection: "4" }),
+      entry("2026-10-13", { ...day, voiceLines: "4", protection: "3" }),
+    ]);
+
+    // $260 is the closest to its benchmark ($15 × 13 lines)
+    expect(result.weaknesses.map((p) => p.title)).toEqual(["Accessory revenue"]);
+    expect(result.focus).toMatchObject({ metric: "accessories", current: 260, target: 286 });
+  });
+
+  it("writes a valid report for a week without entries", () => {
+    const result = ruleBasedReport([]);
+
+    expect(coachingReportSchema.safeParse(result).success).toBe(true);
+    expect(result.summary).toBe("No entries this week yet, so every metric starts from zero.");
+    expect(result.focus).toMatchObject({ metric: "voiceLines", current: 0, target: 3 });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * coachingReport.ts
+ *
+ * The weekly coaching report: strengths, weaknesses and one focus metric with a
+ * target and suggested actions, for a rep's one-on-one.
+ * • `coachingReportSchema` is the contract for every report, whoever wrote it; model
+ *   output is parsed with `parseCoachingReport` and rejected when it doesn't match.
+ * • `ruleBasedReport` writes the same report offline and deterministically, by
+ *   comparing the week's figures with fixed benchmarks. It is the fallback when the
+ *   model's output can't be used.
+ */
+import * as z from "zod";
+import type { Entry } from "../types/entry";
+import { summarizeEntries, type EntrySummary } from "./summary";
+
+export const FOCUS_METRICS = [
+  "voiceLines",
+  "bts",
+  "iot",
+  "hsi",
+  "protectionRate",
+  "accessories",
+  "averageMrc",
+] as const;
+
+export type FocusMetric = (typeof FOCUS_METRICS)[number];
+
+// Label and unit of each focus metric, as the report card shows them
+export const FOCUS_METRIC_LABELS: Record<FocusMetric, { label: string; unit: string }> = {
+  voiceLines: { label: "Voice lines", unit: "lines / week" },
+  bts: { label: "BTS lines", unit: "lines / week" },
+  iot: { label: "IoT lines", unit: "lines / week" },
+  hsi: { label: "HSI lines", unit: "lines / week" },
+  protectionRate: { label: "Protection attach rate", unit: "%" },
+  accessories: { label: "Accessory revenue", unit: "$ / week" },
+  averageMrc: { label: "Average MRC", unit: "$ / sale" },
+};
+
+const pointSchema = z.object({
+  title: z.string().trim().min(1).max(80),
+  detail: z.string().trim().min(1).max(400),
+});
+
+export const coachingReportSchema = z.object({
+  summary: z.string().trim().min(1).max(600),
+  strengths: z.array(pointSchema).min(1).max(5),
+  weaknesses: z.array(pointSchema).min(1).max(5),
+  focus: z.object({
+    metric: z.enum(FOCUS_METRICS),
+    current: z.number().min(0),
+    target: z.number().min(0),
+    actions: z.array(z.string().trim().min(1).max(200)).min(1).max(5),
+  }),
+});
+
+export type CoachingReport = z.infer<typeof coachingReportSchema>;
+
+/**
+ * parseCoachingReport: Reads a report from raw model output.
+ * @returns The report, or the reason it was rejected (invalid JSON or schema mismatch)
+ */
+export function parseCoachingReport(
+  raw: string
+): { report: CoachingReport } | { error: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { error: "The output is not valid JSON" };
+  }
+
+  const parsed = coachingReportSchema.safeParse(value);
+  if (parsed.success) return { report: parsed.data };
+  return {
+    error: parsed.error.issues
+      .map((issue) => `${issue.path.join(".") || "report"}: ${issue.message}`)
+      .join("; "),
+  };
+}
+
+// ── Rule-based report ──────────────────────────────────────────────────
+
+type Benchmark = {
+  metric: FocusMetric;
+  title: string;
+  // Actual value and the benchmark it is compared with (same unit)
+  actual: (s: EntrySummary) => number;
+  benchmark: (s: EntrySummary) => number;
+  describe: (s: EntrySummary) => string;
+  actions: string[];
+};
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+const share = (lines: number, s: EntrySummary) =>
+  s.totalLines > 0 ? Math.round((lines / s.totalLines) * 100) : 0;
+
+// What a solid week looks like; each metric is scored as actual / benchmark
+const BENCHMARKS: Benchmark[] = [
+  {
+    metric: "protectionRate",
+    title: "Protection attach rate",
+    actual: (s) => s.protectionRate,
+    benchmark: () => 30,
+    describe: (s) =>
+      `Protection on ${Math.round(s.protectionRate)}% of ${s.totalLines} lines (benchmark 30%).`,
+    actions: [
+      "Present protection with the device price, not after checkout",
+      "Explain the deductible with a real repair cost example",
+      "Ask every customer who declines what would change their mind",
+    ],
+  },
+  {
+    metric: "accessories",
+    title: "Accessory revenue",
+    actual: (s) => s.totalAccessories,
+    benchmark: (s) => s.totalLines * 15,
+    describe: (s) =>
+      `${money(s.totalAccessories)} in accessories, ${money(
+        s.totalLines > 0 ? s.totalAccessories / s.totalLines : 0
+      )} per line (benchmark $15).`,
+    actions: [
+      "Bundle a case and screen protector with every new phone",
+      "Demo a charger or earbuds while the device activates",
+      "Keep a short list of accessory bundles at the counter",
+    ],
+  },
+  {
+    metric: "hsi",
+    title: "Home Internet",
+    actual: (s) => s.totalHsi,
+    benchmark: (s) => Math.max(1, s.totalLines * 0.1),
+    describe: (s) => `${s.totalHsi} HSI lines, ${share(s.totalHsi, s)}% of all lines (benchmark 10%).`,
+    actions: [
+      "Check Home Internet availability for every customer's address",
+      "Ask what the customer pays for home internet today",
+      "Offer HSI with every new voice account",
+    ],
+  },
+  {
+    metric: "bts",
+    title: "BTS lines",
+    actual: (s) => s.totalBts,
+    benchmark: (s) => Math.max(1, s.totalLines * 0.1),
+    describe: (s) => `${s.totalBts} BTS lines, ${share(s.totalBts, s)}% of all lines (benchmark 10%).`,
+    actions: [
+      "Ask every voice customer about a watch or tablet",
+      "Show the monthly cost of a connected device next to the phone",
+      "Follow up with recent upgrades about a paired watch",
+    ],
+  },
+  {
+    metric: "voiceLines",
+    title: "Voice line volume",
+    actual: (s) => s.totalVoiceLines,
+    benchmark: (s) => Math.max(1, s.entryCount) * 3,
+    describe: (s) =>
+      `${s.totalVoiceLines} voice lines over ${s.entryCount} entries (benchmark 3 per day).`,
+    actions: [
+      "Ask every customer how many lines their household has elsewhere",
+      "Lead with the multi-line price when quoting plans",
+      "Call back this week's shoppers who left without buying",
+    ],
+  },
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * ruleBasedReport: A report for the week's entries from fixed benchmarks. Metrics at
+ * or above their benchmark are strengths, the rest weaknesses (best and worst first),
+ * and the weakest metric becomes the focus with the benchmark as its target.
+ */
+export function ruleBasedReport(entries: Entry[]): CoachingReport {
+  const s = summarizeEntries(entries);
+  const scored = BENCHMARKS.map((b) => {
+    const benchmark = b.benchmark(s);
+    return { ...b, score: benchmark > 0 ? b.actual(s) / benchmark : 1 };
+  }).sort((a, b) => b.score - a.score);
+
+  const point = (b: Benchmark) => ({ title: b.title, detail: b.describe(s) });
+  // Always at least one of each: the best metric is a strength, the worst a weakness
+  const strengths = scored.filter((b, i) => i === 0 || (b.score >= 1 && i < 3));
+  const weaknesses = scored
+    .slice(1)
+    .reverse()
+    .filter((b, i) => i === 0 || (b.score < 1 && i < 3));
+  const focus = weaknesses[0];
+  // Below the benchmark the target is the benchmark; already above it, 10% more
+  const current = focus.actual(s);
+  const goal = focus.score < 1 ? focus.benchmark(s) : current * 1.1;
+  const isLineCount = ["voiceLines", "bts", "iot", "hsi"].includes(focus.metric);
+
+  return {
+    summary:
+      entries.length === 0
+        ? "No entries this week yet, so every metric starts from zero."
+        : `${s.totalLines} lines over ${s.entryCount} entries with ${Math.round(
+            s.protectionRate
+          )}% protection and ${money(s.averageMrc)} average MRC.`,
+    strengths: strengths.map(point),
+    weaknesses: weaknesses.map(point),
+    focus: {
+      metric: focus.metric,
+      current: round(current),
+      target: isLineCount ? Math.ceil(goal) : round(goal),
+      actions: focus.actions,
+    },
+  };
+}
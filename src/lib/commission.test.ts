@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../tests/fixtures";
+import type { CommissionRules } from "../types/commission";
+import {
+  acceleratorBonus,
+  commissionRange,
+  entryCommission,
+  periodCommission,
+  rulesForDate,
+} from "./commission";
+import { toDailyTotals } from "./summary";
+
+const january: CommissionRules = {
+  id: "v1",
+  effectiveFrom: "2026-01-01",
+  lineRates: { voice: 10, bts: 5, iot: 2, hsi: 8 },
+  accessoryPercent: 10,
+  protectionSpiff: 3,
+  accelerators: [
+    { attainment: 150, multiplier: 2 },
+    { attainment: 100, multiplier: 1.5 },
+  ],
+};
+
+// A new comp plan from mid-October: double voice rate, no accelerators
+const october: CommissionRules = {
+  ...january,
+  id: "v2",
+  effectiveFrom: "2026-10-15",
+  lineRates: { ...january.lineRates, voice: 20 },
+  accelerators: [],
+};
+
+const versions = [october, january];
+
+describe("rulesForDate", () => {
+  it("picks the latest version that started on or before the date", () => {
+    expect(rulesForDate(versions, "2025-12-31")).toBeUndefined();
+    expect(rulesForDate(versions, "2026-01-01")?.id).toBe("v1");
+    expect(rulesForDate(versions, "2026-10-14")?.id).toBe("v1");
+    expect(rulesForDate(versions, "2026-10-15")?.id).toBe("v2");
+  });
+});
+
+describe("entryCommission", () => {
+  const day = (date: string) =>
+    entry(date, {
+      voiceLines: "2",
+      bts: "1",
+      iot: "1",
+      hsi: "1",
+      accessories: "100",
+      protection: "2",
+    });
+
+  it("pays an entry with the rules in force on its date", () => {
+    expect(entryCommission(day("2026-10-14"), versions)).toEqual({
+      lines: 35,
+      accessories: 10,
+      protection: 6,
+      accelerator: 0,
+      total: 51,
+    });
+    expect(entryCommission(day("2026-10-15"), versions)?.lines).toBe(55);
+  });
+
+  it("is null before the first version", () => {
+    expect(entryCommission(day("2025-12-31"), versions)).toBeNull();
+  });
+});
+
+describe("acceleratorBonus", () => {
+  it("pays each unit by the highest tier it falls in", () => {
+    // Quota 10: lines 11–15 earn 1.5× (5 × $5 extra), lines 16–17 earn 2× (2 × $10 extra)
+    expect(acceleratorBonus(8, 17, 10, january)).toBe(45);
+    expect(acceleratorBonus(0, 10, 10, january)).toBe(0);
+  });
+
+  it("pays nothing without a quota", () => {
+    expect(acceleratorBonus(0, 50, 0, january)).toBe(0);
+  });
+});
+
+describe("periodCommission", () => {
+  const days = toDailyTotals([
+    entry("2026-10-05", { voiceLines: "8" }),
+    entry("2026-10-14", { voiceLines: "4" }),
+    entry("2026-10-16", { voiceLines: "3" }),
+    entry("2026-11-02", { voiceLines: "12" }),
+  ]);
+  const quotas = new Map([
+    ["2026-10-01", 10],
+    ["2026-11-01", 10],
+  ]);
+
+  it("counts earlier days of the month toward the quota without paying them", () => {
+    const range = { from: "2026-10-10", to: "2026-10-31" };
+
+    expect(commissionRange(range)).toEqual({ from: "2026-10-01", to: "2026-10-31" });
+    // 10-14: 4 × $10 on v1; the month's lines 11 and 12 are over quota (2 × $5 extra)
+    // 10-16: 3 × $20 on v2, which has no accelerators
+    expect(periodCommission(days, versions, quotas, range)).toEqual({
+      lines: 100,
+      accessories: 0,
+      protection: 0,
+      accelerator: 10,
+      total: 110,
+    });
+  });
+
+  it("starts every month's count from zero", () => {
+    const november = periodCommission(days, [january], quotas, {
+      from: "2026-11-01",
+      to: "2026-11-30",
+    });
+
+    // October's 15 lines don't count: only November's lines 11 and 12 are over quota
+    expect(november).toMatchObject({ lines: 120, accelerator: 10, total: 130 });
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * commission.ts
+ *
+ * Estimated commission from entries, using the versioned comp plan (CommissionRules).
+ * • Every day is paid with the rules version in force on that day, so a new comp plan
+ *   never changes estimates for earlier dates.
+ * • Per entry: line units × rate per line type, a percentage of accessory revenue and
+ *   a spiff per protection package.
+ * • Per period: the same for every day, plus accelerators. Voice lines are counted
+ *   cumulatively through each calendar month against that month's voice-line quota
+ *   (the monthly goal); units beyond a tier's attainment earn the voice rate × the
+ *   tier multiplier instead of the plain rate.
+ */
+import type { CommissionRules } from "../types/commission";
+import type { Entry } from "../types/entry";
+import { isInRange, toDateString, type DateRange } from "./dateRange";
+import type { DailyTotals } from "./summary";
+
+/**
+ * Estimated commission, split by where it comes from ($).
+ */
+export type CommissionBreakdown = {
+  lines: number;          // Line units × rate per line type
+  accessories: number;    // Percentage of accessory revenue
+  protection: number;     // Protection spiffs
+  accelerator: number;    // Extra pay for voice lines above quota tiers
+  total: number;
+};
+
+// The unit counts commission is paid on (an entry's or a day's)
+type CommissionUnits = Pick<
+  DailyTotals,
+  "voiceLines" | "bts" | "iot" | "hsi" | "accessories" | "protection"
+>;
+
+export const ZERO_COMMISSION: CommissionBreakdown = {
+  lines: 0,
+  accessories: 0,
+  protection: 0,
+  accelerator: 0,
+  total: 0,
+};
+
+/**
+ * rulesForDate: The rules version in force on `date` (the latest that started on
+ * or before it), or undefined before the first version.
+ */
+export function rulesForDate(
+  versions: CommissionRules[],
+  date: string
+): CommissionRules | undefined {
+  return versions
+    .filter((v) => v.effectiveFrom <= date)
+    .reduce<CommissionRules | undefined>(
+      (latest, v) => (!latest || v.effectiveFrom > latest.effectiveFrom ? v : latest),
+      undefined
+    );
+}
+
+/**
+ * isInForce: Whether a rules version has already started (on or before `today`).
+ * Versions in force pay out estimates, so they can no longer be changed or removed.
+ */
+export function isInForce(
+  version: Pick<CommissionRules, "effectiveFrom">,
+  today = toDateString(new Date())
+): boolean {
+  return version.effectiveFrom <= today;
+}
+
+/**
+ * addCommission: Sum of two breakdowns.
+ */
+export function addCommission(
+  a: CommissionBreakdown,
+  b: CommissionBreakdown
+): CommissionBreakdown {
+  return {
+    lines: a.lines + b.lines,
+    accessories: a.accessories + b.accessories,
+    protection: a.protection + b.protection,
+    accelerator: a.accelerator + b.accelerator,
+    total: a.total + b.total,
+  };
+}
+
+// Commission before accelerators
+function baseCommission(units: CommissionUnits, rules: CommissionRules): CommissionBreakdown {
+  const { lineRates } = rules;
+  const lines =
+    units.voiceLines * lineRates.voice +
+    units.bts * lineRates.bts +
+    units.iot * lineRates.iot +
+    units.hsi * lineRates.hsi;
+  const accessories = (units.accessories * rules.accessoryPercent) / 100;
+  const protection = units.protection * rules.protectionSpiff;
+  return {
+    lines,
+    accessories,
+    protection,
+    accelerator: 0,
+    total: lines + accessories + protection,
+  };
+}
+
+/**
+ * acceleratorBonus: Extra pay for the voice lines numbered (from, to] in the month.
+ * Tiers are marginal: each unit is paid by the highest tier it falls in.
+ * @param from - Voice lines sold earlier in the month
+ * @param to - Voice lines sold through the day being paid
+ * @param quota - The month's voice-line quota
+ */
+export function acceleratorBonus(
+  from: number,
+  to: number,
+  quota: number,
+  rules: CommissionRules
+): number {
+  if (quota <= 0) return 0;
+  const tiers = [...rules.accelerators].sort((a, b) => a.attainment - b.attainment);
+
+  return tiers.reduce((bonus, tier, i) => {
+    const start = (quota * tier.attainment) / 100;
+    const end = i + 1 < tiers.length ? (quota * tiers[i + 1].attainment) / 100 : Infinity;
+    const units = Math.max(0, Math.min(to, end) - Math.max(from, start));
+    return bonus + units * rules.lineRates.voice * (tier.multiplier - 1);
+  }, 0);
+}
+
+/**
+ * entryCommission: Estimated commission for one entry (accelerators are earned
+ * against the month as a whole and only counted per period).
+ * Returns null when no rules version is in force on the entry's date.
+ */
+export function entryCommission(
+  entry: Entry,
+  versions: CommissionRules[]
+): CommissionBreakdown | null {
+  const rules = rulesForDate(versions, entry.date);
+  if (!rules) return null;
+  return baseCommission(
+    {
+      voiceLines: Number(entry.voiceLines),
+      bts: Number(entry.bts),
+      iot: Number(entry.iot),
+      hsi: Number(entry.hsi),
+      accessories: Number(entry.accessories),
+      protection: Number(entry.protection),
+    },
+    rules
+  );
+}
+
+/**
+ * commissionRange: The range `days` must cover for `periodCommission`: from the
+ * first of the month the period starts in, so accelerators see the month so far.
+ */
+export function commissionRange(range: DateRange): DateRange {
+  return { from: range.from ? `${range.from.slice(0, 7)}-01` : undefined, to: range.to };
+}
+
+/**
+ * periodCommission: Estimated commission for every day inside `range`.
+ * @param days - Per-day totals covering `commissionRange(range)`
+ * @param versions - Every rules version
+ * @param quotas - Voice-line quota per month, keyed by its first day (YYYY-MM-01)
+ * @param range - The period being paid
+ */
+export function periodCommission(
+  days: DailyTotals[],
+  versions: CommissionRules[],
+  quotas: Map<string, number>,
+  range: DateRange
+): CommissionBreakdown {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  // Voice lines sold so far in each month
+  const monthToDate = new Map<string, number>();
+  let total = ZERO_COMMISSION;
+
+  for (const day of sorted) {
+    const month = `${day.date.slice(0, 7)}-01`;
+    const before = monthToDate.get(month) ?? 0;
+    monthToDate.set(month, before + day.voiceLines);
+
+    const rules = rulesForDate(versions, day.date);
+    if (!rules || !isInRange(day.date, range)) continue;
+
+    const base = baseCommission(day, rules);
+    const accelerator = acceleratorBonus(
+      before,
+      before + day.voiceLines,
+      quotas.get(month) ?? 0,
+      rules
+    );
+    total = addCommission(total, {
+      ...base,
+      accelerator,
+      total: base.total + accelerator,
+    });
+  }
+
+  return total;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import type { CommissionRules, CommissionRulesInput } from "../types/commission";
+import { isInForce } from "./commission";
+import { createInMemoryCommissionRulesRepository } from "./commissionRulesRepository";
+
+const rules = (effectiveFrom: string, voice = 10): CommissionRulesInput => ({
+  effectiveFrom,
+  lineRates: { voice, bts: 5, iot: 2, hsi: 8 },
+  accessoryPercent: 10,
+  protectionSpiff: 3,
+  accelerators: [],
+});
+
+const inForce: CommissionRules = { id: "v1", ...rules("2026-01-01") };
+
+describe("isInForce", () => {
+  it("is true from the effective date on", () => {
+    expect(isInForce(inForce, "2025-12-31")).toBe(false);
+    expect(isInForce(inForce, "2026-01-01")).toBe(true);
+    expect(isInForce(inForce, "2026-06-01")).toBe(true);
+  });
+});
+
+describe("createInMemoryCommissionRulesRepository", () => {
+  it("adds versions that start after today", async () => {
+    const repository = createInMemoryCommissionRulesRepository([inForce]);
+
+    await repository.create(rules("2999-01-01"));
+
+    expect((await repository.list()).map((v) => v.effectiveFrom)).toEqual([
+      "2026-01-01",
+      "2999-01-01",
+    ]);
+  });
+
+  it("refuses versions that would already be in force", async () => {
+    const repository = createInMemoryCommissionRulesRepository([inForce]);
+
+    await expect(repository.create(rules("2026-01-01", 99))).rejects.toThrow("after today");
+    await expect(repository.create(rules("2026-03-01"))).rejects.toThrow("after today");
+    expect(await repository.list()).toEqual([inForce]);
+  });
+
+  it("never overwrites an existing version", async () => {
+    const repository = createInMemoryCommissionRulesRepository();
+    await repository.create(rules("2999-01-01"));
+
+    await expect(repository.create(rules("2999-01-01", 99))).rejects.toThrow("already exist");
+    expect((await repository.list())[0].lineRates.voice).toBe(10);
+  });
+
+  it("only removes versions that haven't started", async () => {
+    const repository = createInMemoryCommissionRulesRepository([inForce]);
+    const future = await repository.create(rules("2999-01-01"));
+
+    await expect(repository.remove(inForce.id)).rejects.toThrow("in force");
+    await repository.remove(future.id);
+    expect(await repository.list()).toEqual([inForce]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * commissionRulesRepository.ts
+ *
+ * Typed access to the `commission_rules` table (versions of the comp plan), following
+ * the same pattern as entriesRepository.ts: one row mapping, a Supabase implementation
+ * and an in-memory implementation. The rules are shared by every user.
+ * Versions are append-only once in force: new versions must start after today, and
+ * only versions that haven't started yet can be removed, so historical estimates never
+ * change (the database enforces the same rule).
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  AcceleratorTier,
+  CommissionRules,
+  CommissionRulesInput,
+} from "../types/commission";
+import { isInForce } from "./commission";
+
+/**
+ * CommissionRulesRow mirrors a row of `commission_rules` as returned by PostgREST.
+ * `numeric` columns may arrive as strings.
+ */
+export type CommissionRulesRow = {
+  id: string;
+  effective_from: string;
+  voice_rate: number | string;
+  bts_rate: number | string;
+  iot_rate: number | string;
+  hsi_rate: number | string;
+  accessory_percent: number | string;
+  protection_spiff: number | string;
+  accelerators: AcceleratorTier[];
+};
+
+const RULES_COLUMNS =
+  "id, effective_from, voice_rate, bts_rate, iot_rate, hsi_rate, accessory_percent, protection_spiff, accelerators";
+
+export interface CommissionRulesRepository {
+  /** Every version, oldest first. */
+  list(): Promise<CommissionRules[]>;
+  /** Adds a version starting on `rules.effectiveFrom` (after today, and not taken yet). */
+  create(rules: CommissionRulesInput): Promise<CommissionRules>;
+  /** Removes a version that hasn't started yet. */
+  remove(id: string): Promise<void>;
+}
+
+export function rowToCommissionRules(row: CommissionRulesRow): CommissionRules {
+  return {
+    id: row.id,
+    effectiveFrom: row.effective_from,
+    lineRates: {
+      voice: Number(row.voice_rate),
+      bts: Number(row.bts_rate),
+      iot: Number(row.iot_rate),
+      hsi: Number(row.hsi_rate),
+    },
+    accessoryPercent: Number(row.accessory_percent),
+    protectionSpiff: Number(row.protection_spiff),
+    accelerators: (row.accelerators ?? []).map((tier) => ({
+      attainment: Number(tier.attainment),
+      multiplier: Number(tier.multiplier),
+    })),
+  };
+}
+
+export function commissionRulesToRow(
+  rules: CommissionRulesInput
+): Omit<CommissionRulesRow, "id"> {
+  return {
+    effective_from: rules.effectiveFrom,
+    voice_rate: rules.lineRates.voice,
+    bts_rate: rules.lineRates.bts,
+    iot_rate: rules.lineRates.iot,
+    hsi_rate: rules.lineRates.hsi,
+    accessory_percent: rules.accessoryPercent,
+    protection_spiff: rules.protectionSpiff,
+    accelerators: [...rules.accelerators].sort((a, b) => a.attainment - b.attainment),
+  };
+}
+
+/**
+ * createSupabaseCommissionRulesRepository: Repository backed by `commission_rules`.
+ */
+export function createSupabaseCommissionRulesRepository(
+  client: SupabaseClient
+): CommissionRulesRepository {
+  return {
+    async list() {
+      const { data, error } = await client
+        .from("commission_rules")
+        .select(RULES_COLUMNS)
+        .order("effective_from");
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as CommissionRulesRow[]).map(rowToCommissionRules);
+    },
+
+    async create(rules) {
+      // Insert only: an existing version (same effective_from) is never overwritten
+      const { data, error } = await client
+        .from("commission_rules")
+        .insert(commissionRulesToRow(rules))
+        .select(RULES_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return rowToCommissionRules(data as CommissionRulesRow);
+    },
+
+    async remove(id) {
+      const { error } = await client.from("commission_rules").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+/**
+ * createInMemoryCommissionRulesRepository: Repository that keeps versions in a Map
+ * keyed by effective date.
+ */
+export function createInMemoryCommissionRulesRepository(
+  seed: CommissionRules[] = []
+): CommissionRulesRepository {
+  const versions = new Map(seed.map((v) => [v.effectiveFrom, v]));
+
+  return {
+    async list() {
+      return [...versions.values()].sort((a, b) =>
+        a.effectiveFrom.localeCompare(b.effectiveFrom)
+      );
+    },
+
+    async create(rules) {
+      if (isInForce(rules)) {
+        throw new Error("New commission rules must take effect after today");
+      }
+      if (versions.has(rules.effectiveFrom)) {
+        throw new Error(`Commission rules effective ${rules.effectiveFrom} already exist`);
+      }
+      const saved = rowToCommissionRules({
+        id: crypto.randomUUID(),
+        ...commissionRulesToRow(rules),
+      });
+      versions.set(saved.effectiveFrom, saved);
+      return saved;
+    },
+
+    async remove(id) {
+      const version = [...versions.values()].find((v) => v.id === id);
+      if (!version) throw new Error(`Commission rules ${id} not found`);
+      if (isInForce(version)) {
+        throw new Error(`Commission rules effective ${version.effectiveFrom} are already in force`);
+      }
+      versions.delete(version.effectiveFrom);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { escapeCsvField, parseCsv, toCsv } from "./csv";
+
+describe("escapeCsvField", () => {
+  it("leaves plain values alone", () => {
+    expect(escapeCsvField("Go5G Plus")).toBe("Go5G Plus");
+    expect(escapeCsvField(12.5)).toBe("12.5");
+    expect(escapeCsvField(null)).toBe("");
+    expect(escapeCsvField(undefined)).toBe("");
+  });
+
+  it("quotes commas, line breaks and double quotes, doubling the quotes", () => {
+    expect(escapeCsvField("1,234.50")).toBe('"1,234.50"');
+    expect(escapeCsvField("one\ntwo")).toBe('"one\ntwo"');
+    expect(escapeCsvField("one\r\ntwo")).toBe('"one\r\ntwo"');
+    expect(escapeCsvField('Go5G "Plus"')).toBe('"Go5G ""Plus"""');
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a header and rows with CRLF line endings", () => {
+    expect(toCsv(["Metric", "Value"], [["Entries", 3], ["Period", "All time"]])).toBe(
+      "Metric,Value\r\nEntries,3\r\nPeriod,All time\r\n"
+    );
+  });
+
+  it("reads back through parseCsv unchanged", () => {
+    const rows = [
+      ["plain", "with, comma", 'with "quotes"'],
+      ["multi\r\nline", "", "$1,234.50"],
+    ];
+
+    expect(parseCsv(toCsv(["A", "B", "C"], rows)).map((r) => r.fields)).toEqual([
+      ["A", "B", "C"],
+      ...rows,
+    ]);
+  });
+});
+
+describe("parseCsv", () => {
+  it("reports the line each record starts on", () => {
+    const text = [
+      "Date,Sales",
+      "2026-10-01,\"Go5G (Voice) $90;",
+      "Essentials (Voice) $60\"",
+      "",
+      "2026-10-02,",
+    ].join("\r\n");
+
+    expect(parseCsv(text)).toEqual([
+      { line: 1, fields: ["Date", "Sales"] },
+      { line: 2, fields: ["2026-10-01", "Go5G (Voice) $90;\r\nEssentials (Voice) $60"] },
+      { line: 5, fields: ["2026-10-02", ""] },
+    ]);
+  });
+
+  it("skips a byte order mark and blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\n\n\nc,d\n")).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 4, fields: ["c", "d"] },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * csv.ts
+ *
+ * Minimal RFC 4180 CSV writer and parser.
+ * • Fields containing a comma, double quote or line break are wrapped in double quotes.
+ * • Embedded double quotes are doubled ("Go5G ""Plus""").
+ * • Lines end with CRLF, which is what spreadsheet apps expect.
+ * • The parser accepts CRLF or LF line endings, quoted fields spanning lines and a UTF-8 BOM.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * One parsed CSV record with the 1-based line of the file it starts on (a quoted
+ * field can carry it over several lines).
+ */
+export type CsvRecord = {
+  line: number;
+  fields: string[];
+};
+
+/**
+ * escapeCsvField: Quotes a single value when (and only when) CSV requires it.
+ */
+export function escapeCsvField(value: CsvValue): string {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * toCsv: Serializes a header row plus data rows into a CSV document.
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
+
+/**
+ * parseCsv: Splits a CSV document into records of raw field strings, each with the
+ * line it starts on. Blank lines are skipped; fields are not trimmed or converted.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const rows: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;         // Line of the current character
+  let startLine = 1;    // Line the current record started on
+
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push({ line: startLine, fields: row });
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      endRow();
+      startLine = line + 1;
+    } else if (char !== "\r") {
+      field += char;
+    }
+
+    if (char === "\n") line++;
+  }
+
+  // Last row when the file does not end with a newline
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
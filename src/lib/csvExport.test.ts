@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../tests/fixtures";
+import type { StoredEntry } from "../types/entry";
+import { parseCsv } from "./csv";
+import { csvFilename, entriesToCsv, summaryToCsv } from "./csvExport";
+import { parseSales } from "./sales";
+import { summarizeEntries } from "./summary";
+
+const stored = (id: string, date: string, overrides: Partial<StoredEntry> = {}): StoredEntry => ({
+  ...entry(date),
+  id,
+  userId: "1",
+  createdAt: `${date}T09:00:00.000Z`,
+  updatedAt: `${date}T09:00:00.000Z`,
+  ...overrides,
+});
+
+describe("entriesToCsv", () => {
+  it("writes one row per entry in the All Entries column order", () => {
+    const csv = entriesToCsv([stored("a", "2026-10-01", { accessories: "40" })]);
+
+    expect(parseCsv(csv).map((r) => r.fields)).toEqual([
+      [
+        "Date",
+        "Voice Lines",
+        "BTS",
+        "IOT",
+        "HSI",
+        "Accessories ($)",
+        "Protection",
+        "Sales",
+        "Total MRC ($)",
+        "Created At",
+      ],
+      ["2026-10-01", "1", "0", "0", "0", "40.00", "0", "", "0.00", "2026-10-01T09:00:00.000Z"],
+    ]);
+  });
+
+  it("keeps every sale of an entry in one cell the import can read back", () => {
+    const sales = [
+      { planName: 'Go5G "Plus", family', lineType: "voice" as const, mrc: "1090" },
+      { planName: "Home Internet", lineType: "hsi" as const, mrc: "55.5" },
+    ];
+
+    const [, row] = parseCsv(entriesToCsv([stored("a", "2026-10-01", { sales })]));
+
+    expect(row.fields[7]).toBe('Go5G "Plus", family (Voice) $1090.00; Home Internet (HSI) $55.50');
+    expect(parseSales(row.fields[7])).toEqual([
+      { planName: 'Go5G "Plus", family', lineType: "voice", mrc: "1090.00" },
+      { planName: "Home Internet", lineType: "hsi", mrc: "55.50" },
+    ]);
+    expect(row.fields[8]).toBe("1145.50");
+  });
+});
+
+describe("summaryToCsv", () => {
+  it("heads the totals with the period", () => {
+    const summary = summarizeEntries([entry("2026-10-01"), entry("2026-10-02", { hsi: "2" })]);
+
+    const rows = parseCsv(summaryToCsv(summary, { from: "2026-10-01", to: "2026-10-31" }));
+
+    expect(rows[0].fields).toEqual(["Metric", "Value"]);
+    expect(rows[1].fields).toEqual(["Period", "2026-10-01 – 2026-10-31"]);
+    expect(rows.find((r) => r.fields[0] === "Entries")?.fields[1]).toBe("2");
+    expect(rows.find((r) => r.fields[0] === "Total HSI")?.fields[1]).toBe("2");
+  });
+});
+
+describe("csvFilename", () => {
+  it("names the file after the range", () => {
+    expect(csvFilename("entries", { from: "2026-10-01", to: "2026-10-31" })).toBe(
+      "entries_2026-10-01_2026-10-31.csv"
+    );
+    expect(csvFilename("entries", { from: "2026-10-01" })).toBe("entries_2026-10-01_today.csv");
+    expect(csvFilename("summary", {})).toBe("summary_all-time.csv");
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * csvExport.ts
+ *
+ * CSV documents for the entries in a view and for their Summary Statistics totals.
+ * Used by the dashboard's download buttons and by the /api/exportEntries endpoint,
+ * so both produce byte-identical files.
+ */
+import type { StoredEntry } from "../types/entry";
+import { toCsv } from "./csv";
+import { describeRange, type DateRange } from "./dateRange";
+import { formatSales, saleMrcTotal } from "./sales";
+import type { EntrySummary } from "./summary";
+
+// Entry columns, in the same order as the All Entries table, plus the created timestamp.
+// All of an entry's plan sales share one "Sales" cell (see formatSales), which the import reads back.
+const ENTRY_CSV_COLUMNS: ReadonlyArray<readonly [string, (e: StoredEntry) => string]> = [
+  ["Date", (e) => e.date],
+  ["Voice Lines", (e) => e.voiceLines],
+  ["BTS", (e) => e.bts],
+  ["IOT", (e) => e.iot],
+  ["HSI", (e) => e.hsi],
+  ["Accessories ($)", (e) => Number(e.accessories).toFixed(2)],
+  ["Protection", (e) => e.protection],
+  ["Sales", (e) => formatSales(e.sales)],
+  ["Total MRC ($)", (e) => saleMrcTotal(e).toFixed(2)],
+  ["Created At", (e) => e.createdAt],
+];
+
+/**
+ * entriesToCsv: One row per entry.
+ */
+export function entriesToCsv(entries: StoredEntry[]): string {
+  return toCsv(
+    ENTRY_CSV_COLUMNS.map(([header]) => header),
+    entries.map((e) => ENTRY_CSV_COLUMNS.map(([, pick]) => pick(e)))
+  );
+}
+
+/**
+ * summaryToCsv: The Summary Statistics totals as Metric,Value rows, headed by the period.
+ */
+export function summaryToCsv(s: EntrySummary, range: DateRange): string {
+  return toCsv(
+    ["Metric", "Value"],
+    [
+      ["Period", describeRange(range)],
+      ["Entries", s.entryCount],
+      ["Total Lines", s.totalLines],
+      ["Total Voice Lines", s.totalVoiceLines],
+      ["Total BTS", s.totalBts],
+      ["Total HSI", s.totalHsi],
+      ["Total IOT", s.totalIot],
+      ["Protection %", s.protectionRate.toFixed(1)],
+      ["Total Accessories ($)", s.totalAccessories.toFixed(2)],
+      ["Plan Sales", s.saleCount],
+      ["Average MRC per Sale ($)", s.averageMrc.toFixed(2)],
+    ]
+  );
+}
+
+/**
+ * csvFilename: e.g. "entries_2026-10-01_2026-10-31.csv" or "summary_all-time.csv".
+ */
+export function csvFilename(kind: "entries" | "summary", range: DateRange): string {
+  const span =
+    range.from || range.to
+      ? `${range.from ?? "start"}_${range.to ?? "today"}`
+      : "all-time";
+  return `${kind}_${span}.csv`;
+}
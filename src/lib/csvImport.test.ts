@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../tests/fixtures";
+import type { Entry } from "../types/entry";
+import { parseCsv } from "./csv";
+import { entriesToCsv } from "./csvExport";
+import { duplicateKey, guessColumnMapping, validateImportRows } from "./csvImport";
+
+// Parses a CSV document and validates its data rows with the guessed mapping
+const importCsv = (lines: string[], existing: Entry[] = []) => {
+  const [header, ...records] = parseCsv(lines.join("\n"));
+  return validateImportRows(records, guessColumnMapping(header.fields), existing);
+};
+
+describe("guessColumnMapping", () => {
+  it("matches field names and labels whatever their case and punctuation", () => {
+    const headers = ["voice_lines", "DATE", "Accessories ($)", "Notes", "plan"];
+
+    expect(guessColumnMapping(headers)).toEqual({
+      voiceLines: 0,
+      date: 1,
+      accessories: 2,
+      planName: 4,
+    });
+  });
+
+  it("maps every column of the CSV export back to its field", () => {
+    const csv = entriesToCsv([
+      { ...entry("2026-10-01"), id: "a", userId: "1", createdAt: "", updatedAt: "" },
+    ]);
+
+    expect(guessColumnMapping(parseCsv(csv)[0].fields)).toEqual({
+      date: 0,
+      voiceLines: 1,
+      bts: 2,
+      iot: 3,
+      hsi: 4,
+      accessories: 5,
+      protection: 6,
+      sales: 7,
+    });
+  });
+});
+
+describe("validateImportRows", () => {
+  it("reads the Sales column and money with dollar signs and thousands separators", () => {
+    const [row] = importCsv([
+      "Date,Voice Lines,BTS,IOT,HSI,Accessories,Protection,Sales",
+      '2026-10-01,2,0,1,0,"$1,234.50",1,"Go5G (Voice) $1,090; Home (HSI) $55"',
+    ]);
+
+    expect(row.errors).toEqual([]);
+    expect(row.values).toEqual({
+      date: "2026-10-01",
+      voiceLines: "2",
+      bts: "0",
+      iot: "1",
+      hsi: "0",
+      accessories: "1234.50",
+      protection: "1",
+      sales: [
+        { planName: "Go5G", lineType: "voice", mrc: "1090" },
+        { planName: "Home", lineType: "hsi", mrc: "55" },
+      ],
+    });
+  });
+
+  it("reads one sale per row from older Plan Name / Line Type / MRC columns", () => {
+    const rows = importCsv([
+      "Date,Voice Lines,BTS,IOT,HSI,Accessories,Protection,Plan Name,Line Type,MRC",
+      "2026-10-01,1,0,0,0,0,0,Go5G,,$90",
+      "2026-10-02,1,0,0,0,0,0,Home,hsi,55",
+      "2026-10-03,1,0,0,0,0,0,,,",
+    ]);
+
+    expect(rows.map((r) => r.values.sales)).toEqual([
+      [{ planName: "Go5G", lineType: "voice", mrc: "90" }],
+      [{ planName: "Home", lineType: "hsi", mrc: "55" }],
+      [],
+    ]);
+    expect(rows.flatMap((r) => r.errors)).toEqual([]);
+  });
+
+  it("labels each problem with its column and the record's line", () => {
+    const rows = importCsv([
+      "Date,Voice Lines,BTS,IOT,HSI,Accessories,Protection,Plan Name,Line Type,MRC",
+      "10/01/2026,1,0,0,0,0,0,Go5G,voice,90",
+      "2026-10-02,two,0,0,0,0,0,Go5G,fiber,abc",
+      "2026-10-03,1,0,0,0,0,0,Go5G,voice,90",
+    ]);
+
+    expect(rows.map((r) => [r.rowNumber, r.errors])).toEqual([
+      [2, ["Date: Enter a valid date (YYYY-MM-DD)"]],
+      [
+        3,
+        [
+          "Voice Lines: Must be a whole number",
+          "Sale 1 Line Type: Choose a line type",
+          "Sale 1 MRC: Enter a valid dollar amount",
+        ],
+      ],
+      [4, []],
+    ]);
+  });
+
+  it("rejects a Sales cell it cannot read", () => {
+    const [row] = importCsv([
+      "Date,Voice Lines,BTS,IOT,HSI,Accessories,Protection,Sales",
+      "2026-10-01,1,0,0,0,0,0,Go5G for $90",
+    ]);
+
+    expect(row.errors).toEqual(["Sales: Expected “Plan (Line Type) $MRC; …”"]);
+  });
+
+  it("flags rows that repeat a stored entry or an earlier valid row", () => {
+    const existing = [
+      entry("2026-10-01", { sales: [{ planName: "Go5G", lineType: "voice", mrc: "90" }] }),
+    ];
+
+    const rows = importCsv(
+      [
+        "Date,Voice Lines,BTS,IOT,HSI,Accessories,Protection,Plan Name,MRC",
+        "2026-10-01,1,0,0,0,0,0, go5g ,75",
+        "2026-10-02,x,0,0,0,0,0,Home,55",
+        "2026-10-02,1,0,0,0,0,0,Home,55",
+        "2026-10-02,1,0,0,0,0,0,HOME,60",
+        "2026-10-02,1,0,0,0,0,0,Go5G,90",
+      ],
+      existing
+    );
+
+    // The invalid row 3 is not imported, so row 4 is not its duplicate
+    expect(rows.map((r) => r.duplicate)).toEqual([true, false, false, true, false]);
+  });
+});
+
+describe("duplicateKey", () => {
+  it("ignores the order and case of the plans", () => {
+    const sale = (planName: string) => ({ planName, lineType: "voice" as const, mrc: "1" });
+
+    expect(duplicateKey(entry("2026-10-01", { sales: [sale("Go5G"), sale("Home")] }))).toBe(
+      duplicateKey(entry("2026-10-01", { sales: [sale("home "), sale("GO5G")] }))
+    );
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * csvImport.ts
+ *
+ * Turns a parsed CSV into validated Entry rows for bulk import.
+ * • Maps CSV columns to Entry fields (guessed from the header row, adjustable by the user).
+ * • Plan sales come either from a "Sales" column (as written by the CSV export, several
+ *   sales per row) or, for older spreadsheets, from Plan Name / Line Type / MRC columns
+ *   (one sale per row; the line type defaults to voice).
+ * • Validates every row with the same `performanceFormSchema` as the entry form.
+ * • Flags rows whose date + plans already exist (in the database or earlier in the file)
+ *   as possible duplicates.
+ */
+import type { Entry, Sale } from "../types/entry";
+import type { CsvRecord } from "./csv";
+import { performanceFormSchema } from "./performanceFormSchema";
+import { parseLineType, parseSales } from "./sales";
+
+// Entry fields read from one column each
+type ScalarField = Exclude<keyof Entry, "sales">;
+
+/**
+ * Every column the import can map: scalar Entry fields, the combined "Sales" column,
+ * and the single-sale columns of older spreadsheets.
+ */
+export type ImportField = ScalarField | "sales" | "planName" | "lineType" | "mrc";
+
+/**
+ * Column index in the CSV for each import field (undefined = not mapped).
+ */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * One CSV data row after mapping and validation.
+ */
+export type ImportRow = {
+  rowNumber: number;       // 1-based line in the file the record starts on (what an editor shows)
+  values: Entry;           // Mapped values (trimmed; "$" and thousands separators removed)
+  errors: string[];        // Validation messages; empty when the row can be imported
+  duplicate: boolean;      // Same date + plan already exists
+};
+
+// Scalar Entry fields with their labels, in table order
+const SCALAR_FIELDS: ReadonlyArray<readonly [ScalarField, string]> = [
+  ["date", "Date"],
+  ["voiceLines", "Voice Lines"],
+  ["bts", "BTS"],
+  ["iot", "IOT"],
+  ["hsi", "HSI"],
+  ["accessories", "Accessories ($)"],
+  ["protection", "Protection"],
+];
+
+// Import fields with the labels shown in the mapping UI
+export const IMPORT_FIELDS: ReadonlyArray<readonly [ImportField, string]> = [
+  ...SCALAR_FIELDS,
+  ["sales", "Sales"],
+  ["planName", "Plan Name"],
+  ["lineType", "Line Type"],
+  ["mrc", "MRC ($)"],
+];
+
+// Labels for validation messages about a sale's fields
+const SALE_FIELD_LABELS: Record<keyof Sale, string> = {
+  planName: "Plan Name",
+  lineType: "Line Type",
+  mrc: "MRC",
+};
+
+// Fields holding dollar amounts, where "$1,234.50" is accepted as 1234.50
+const MONEY_FIELDS: ReadonlySet<ImportField> = new Set(["accessories", "mrc"]);
+
+// Lower-case, alphanumerics only: "Voice Lines", "voice_lines" and "voiceLines" all match
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * guessColumnMapping: Matches header names to import fields by field name or label.
+ * Files produced by the CSV export map completely.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+
+  for (const [field, label] of IMPORT_FIELDS) {
+    const candidates = [normalizeHeader(field), normalizeHeader(label)];
+    if (field === "planName") candidates.push("plan");
+    const index = normalized.findIndex((h) => candidates.includes(h));
+    if (index !== -1) mapping[field] = index;
+  }
+
+  return mapping;
+}
+
+/**
+ * duplicateKey: Identity used for duplicate detection (date + the plans sold, case-insensitive).
+ */
+export function duplicateKey(entry: Pick<Entry, "date" | "sales">): string {
+  const plans = entry.sales.map((sale) => sale.planName.trim().toLowerCase()).sort();
+  return `${entry.date}|${plans.join(",")}`;
+}
+
+/**
+ * validateImportRows: Maps and validates every data row.
+ * @param dataRows - CSV records without the header
+ * @param mapping - Column index per Entry field
+ * @param existing - Entries already stored, for duplicate detection
+ */
+export function validateImportRows(
+  dataRows: CsvRecord[],
+  mapping: ColumnMapping,
+  existing: Pick<Entry, "date" | "sales">[] = []
+): ImportRow[] {
+  const seen = new Set(existing.map(duplicateKey));
+
+  return dataRows.map(({ line, fields: cells }) => {
+    const cell = (field: ImportField) => {
+      const index = mapping[field];
+      const value = index === undefined ? "" : (cells[index] ?? "").trim();
+      return MONEY_FIELDS.has(field) ? value.replace(/[$,]/g, "") : value;
+    };
+
+    const errors: string[] = [];
+    let sales: Sale[] = [];
+    if (mapping.sales !== undefined) {
+      const parsed = parseSales(cell("sales"));
+      if (parsed) sales = parsed;
+      else errors.push("Sales: Expected “Plan (Line Type) $MRC; …”");
+    } else if (cell("planName")) {
+      // Older one-plan-per-row spreadsheets; an unreadable line type is left for the schema to flag
+      const lineType = cell("lineType");
+      sales = [
+        {
+          planName: cell("planName"),
+          lineType: lineType ? (parseLineType(lineType) ?? (lineType as Sale["lineType"])) : "voice",
+          mrc: cell("mrc"),
+        },
+      ];
+    }
+
+    const values: Entry = {
+      ...(Object.fromEntries(
+        SCALAR_FIELDS.map(([field]) => [field, cell(field)])
+      ) as Omit<Entry, "sales">),
+      sales,
+    };
+
+    const result = performanceFormSchema.safeParse(values);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const [field, index, saleField] = issue.path;
+        const label =
+          field === "sales"
+            ? `Sale ${Number(index) + 1} ${SALE_FIELD_LABELS[saleField as keyof Sale] ?? ""}`.trim()
+            : SCALAR_FIELDS.find(([f]) => f === field)?.[1];
+        errors.push(`${label ?? issue.path.join(".")}: ${issue.message}`);
+      }
+    }
+
+    // Only rows that can actually be imported make later rows duplicates
+    const key = duplicateKey(values);
+    const duplicate = seen.has(key);
+    if (errors.length === 0) seen.add(key);
+
+    return { rowNumber: line, values, errors, duplicate };
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * dateRange.ts
+ *
+ * Reporting periods for the dashboard (today, this week, this month, custom, all time).
+ * • Resolves a period into an inclusive YYYY-MM-DD range in the user's local time zone.
+ * • Weeks start on Monday, matching how weekly numbers are reported to managers.
+ * • An open bound (undefined `from`/`to`) means "no limit on that side".
+ */
+
+export type Period = "today" | "week" | "month" | "custom" | "all";
+
+/**
+ * Inclusive range of entry dates (YYYY-MM-DD).
+ */
+export type DateRange = {
+  from?: string;
+  to?: string;
+};
+
+// Button labels, in display order
+export const PERIOD_OPTIONS: ReadonlyArray<readonly [Period, string]> = [
+  ["today", "Today"],
+  ["week", "This Week"],
+  ["month", "This Month"],
+  ["custom", "Custom"],
+  ["all", "All Time"],
+];
+
+/**
+ * toDateString: Formats a Date as YYYY-MM-DD using local (not UTC) calendar fields.
+ */
+export function toDateString(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * parseDateString: Reads a YYYY-MM-DD string as a local (not UTC) midnight.
+ */
+export function parseDateString(date: string): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/**
+ * startOfWeek: The Monday on or before `date`.
+ */
+export function startOfWeek(date: Date): Date {
+  // getDay(): 0 = Sunday … 6 = Saturday; shift so Monday is day 0
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+/**
+ * resolvePeriod: Turns a period selection into a concrete date range.
+ * @param period - The selected period
+ * @param custom - Range typed by the user; only used for "custom"
+ * @param now - Reference point for relative periods (defaults to the current time)
+ */
+export function resolvePeriod(
+  period: Period,
+  custom: DateRange = {},
+  now: Date = new Date()
+): DateRange {
+  switch (period) {
+    case "today":
+      return { from: toDateString(now), to: toDateString(now) };
+    case "week": {
+      const monday = startOfWeek(now);
+      const sunday = new Date(monday);
+      sunday.setDate(monday.getDate() + 6);
+      return { from: toDateString(monday), to: toDateString(sunday) };
+    }
+    case "month": {
+      const first = new Date(now.getFullYear(), now.getMonth(), 1);
+      const last = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+      return { from: toDateString(first), to: toDateString(last) };
+    }
+    case "custom":
+      return { from: custom.from || undefined, to: custom.to || undefined };
+    case "all":
+      return {};
+  }
+}
+
+/**
+ * isInRange: Whether a YYYY-MM-DD date falls inside an inclusive range.
+ * ISO dates compare correctly as plain strings.
+ */
+export function isInRange(date: string, range: DateRange): boolean {
+  return (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+/**
+ * describeRange: Human-readable label such as "2026-10-01 – 2026-10-31" or "All time".
+ */
+export function describeRange(range: DateRange): string {
+  if (!range.from && !range.to) return "All time";
+  if (range.from === range.to) return range.from!;
+  return `${range.from ?? "…"} – ${range.to ?? "…"}`;
+}
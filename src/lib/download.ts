@@ -0,0 +1,24 @@
+/**
+ * download.ts
+ *
+ * Browser-only helper that saves generated text as a file download.
+ */
+
+/**
+ * downloadFile: Triggers a download of `content` named `filename`.
+ * @param mimeType - Content type of the file (defaults to CSV)
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType = "text/csv;charset=utf-8"
+) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
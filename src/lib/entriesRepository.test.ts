@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../tests/fixtures";
+import type { AuditLogRow } from "./auditLogRepository";
+import {
+  EntryConflictError,
+  createInMemoryEntriesRepository,
+  listAllEntries,
+  type EntryRow,
+} from "./entriesRepository";
+
+const row = (id: string, userId: string, createdAt: string): EntryRow => ({
+  id,
+  user_id: userId,
+  date: createdAt.slice(0, 10),
+  voice_lines: 1,
+  bts: 0,
+  iot: 0,
+  hsi: 0,
+  accessories: 0,
+  protection: 0,
+  sales: [],
+  created_at: createdAt,
+  updated_at: createdAt,
+});
+
+describe("createInMemoryEntriesRepository", () => {
+  describe("createMany", () => {
+    it("inserts every entry and records the batch's source", async () => {
+      const auditLog: AuditLogRow[] = [];
+      const repository = createInMemoryEntriesRepository([], "1", { auditLog });
+
+      const created = await repository.createMany(
+        [entry("2026-10-01"), entry("2026-10-02")],
+        { source: "import" }
+      );
+
+      expect(created).toHaveLength(2);
+      expect(await repository.list()).toHaveLength(2);
+      expect(auditLog.map((r) => [r.action, r.source])).toEqual([
+        ["create", "import"],
+        ["create", "import"],
+      ]);
+    });
+
+    it("inserts nothing when any entry is invalid", async () => {
+      const auditLog: AuditLogRow[] = [];
+      const repository = createInMemoryEntriesRepository([], "1", { auditLog });
+      const changes: unknown[] = [];
+      repository.subscribe((change) => changes.push(change));
+
+      await expect(
+        repository.createMany([entry("2026-10-01"), entry("2026-10-02", { hsi: "1.5" })])
+      ).rejects.toThrow("integer");
+
+      expect(await repository.list()).toEqual([]);
+      expect(auditLog).toEqual([]);
+      expect(changes).toEqual([]);
+    });
+
+    it("uses the repository's source by default", async () => {
+      const auditLog: AuditLogRow[] = [];
+      const repository = createInMemoryEntriesRepository([], "1", { source: "api", auditLog });
+
+      await repository.createMany([entry("2026-10-01")]);
+      await repository.create(entry("2026-10-02"));
+
+      expect(auditLog.map((r) => r.source)).toEqual(["api", "api"]);
+    });
+  });
+
+  it("rejects invalid dates on create and update", async () => {
+    const repository = createInMemoryEntriesRepository();
+    await expect(repository.create(entry("2026-13-45"))).rejects.toThrow("date");
+
+    const created = await repository.create(entry("2026-10-01"));
+    await expect(repository.update(created.id, entry("10/01/2026"))).rejects.toThrow("date");
+    expect((await repository.list())[0].date).toBe("2026-10-01");
+  });
+
+  it("only shows the user's own entries", async () => {
+    const repository = createInMemoryEntriesRepository(
+      [row("a", "1", "2026-10-01T10:00:00Z"), row("b", "2", "2026-10-02T10:00:00Z")],
+      "1"
+    );
+
+    expect((await repository.list()).map((e) => e.id)).toEqual(["a"]);
+    await expect(repository.remove("b")).rejects.toThrow("not found");
+  });
+
+  it("pages through entries newest first", async () => {
+    const repository = createInMemoryEntriesRepository([
+      row("a", "1", "2026-10-01T10:00:00Z"),
+      row("b", "1", "2026-10-02T10:00:00Z"),
+      row("c", "1", "2026-10-02T10:00:00Z"),
+      row("d", "1", "2026-10-03T10:00:00Z"),
+    ]);
+
+    const first = await repository.listPage({ limit: 3 });
+    expect(first.entries.map((e) => e.id)).toEqual(["d", "c", "b"]);
+    const second = await repository.listPage({ limit: 3, cursor: first.nextCursor! });
+    expect(second.entries.map((e) => e.id)).toEqual(["a"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("rejects an update made against a stale version", async () => {
+    const repository = createInMemoryEntriesRepository([row("a", "1", "2026-10-01T10:00:00Z")]);
+
+    await expect(
+      repository.update("a", entry("2026-10-01"), { expectedUpdatedAt: "2026-09-30T00:00:00Z" })
+    ).rejects.toBeInstanceOf(EntryConflictError);
+  });
+
+  it("moves cleared entries to the trash and restores them as a batch", async () => {
+    const repository = createInMemoryEntriesRepository([
+      row("a", "1", "2026-10-01T10:00:00Z"),
+      row("b", "1", "2026-10-02T10:00:00Z"),
+    ]);
+
+    const { cleared, batchId } = await repository.clear();
+    expect(cleared).toBe(2);
+    expect(await repository.list()).toEqual([]);
+    expect(await repository.listTrash()).toHaveLength(2);
+
+    expect(await repository.restoreBatch(batchId!)).toBe(2);
+    expect(await repository.list()).toHaveLength(2);
+  });
+});
+
+describe("listAllEntries", () => {
+  it("reads every entry in the range across pages", async () => {
+    const seed = Array.from({ length: 1205 }, (_, i) =>
+      row(`e${String(i).padStart(4, "0")}`, "1", `2026-10-${i < 1200 ? "01" : "02"}T10:00:00Z`)
+    );
+    const repository = createInMemoryEntriesRepository(seed);
+
+    expect(await listAllEntries(repository)).toHaveLength(1205);
+    expect(await listAllEntries(repository, { from: "2026-10-02" })).toHaveLength(5);
+  });
+});
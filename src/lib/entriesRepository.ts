@@ -0,0 +1,852 @@
+/**
+ * entriesRepository.ts
+ *
+ * Typed access to the `entries` table, shared by the React app and the API handlers.
+ * • Owns the one mapping between database rows (snake_case, numbers) and UI entries (camelCase, strings).
+ * • Exposes list / listPage / dailyTotals / planMix / create / createMany / update / remove / clear
+ *   / renamePlans / listTrash / restore / restoreBatch
+ *   behind the `EntriesRepository` interface, plus `subscribe` for live change events.
+ * • `listAllEntries` pages through a whole range for callers that need every row.
+ * • Deletes are soft: `remove` and `clear` move entries to the trash (`deleted_at`), every
+ *   other read leaves trashed entries out, and the database purges them after
+ *   TRASH_RETENTION_DAYS.
+ * • Every write tells the database where it came from (`X-Entry-Source`: ui, import or api)
+ *   so the entry audit log can record it; the database records the actor itself.
+ * • Ships a Supabase implementation and an in-memory implementation (no database required).
+ * • Never filters by owner itself: Supabase row-level security limits every query to the
+ *   caller's rows, and the in-memory backend mimics that with its `userId` option.
+ *
+ * Imports are relative (no "@/" alias) so the Vercel functions in /api can use this file as-is.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Entry, LineType, StoredEntry, TrashedEntry } from "../types/entry";
+import type { AuditAction, EntrySource } from "../types/audit";
+import type { AuditLogRow } from "./auditLogRepository";
+import { isInRange, type DateRange } from "./dateRange";
+import {
+  toDailyTotals,
+  toPlanTotals,
+  type DailyTotals,
+  type PlanTotals,
+} from "./summary";
+
+/**
+ * WriteOptions override how a single write is recorded in the audit log.
+ */
+export type WriteOptions = {
+  source?: EntrySource;   // Defaults to the repository's source
+};
+
+// Request header the audit trigger reads the source from
+const SOURCE_HEADER = "X-Entry-Source";
+
+/**
+ * SaleRow is one element of the `entries.sales` jsonb array.
+ */
+export type SaleRow = {
+  plan_name: string;
+  line_type: LineType;
+  mrc: number;
+};
+
+/**
+ * EntryRow mirrors a row of the `entries` table as returned by PostgREST.
+ */
+export type EntryRow = {
+  id: string;
+  user_id: string;
+  date: string;
+  voice_lines: number;
+  bts: number;
+  iot: number;
+  hsi: number;
+  accessories: number;
+  protection: number;
+  sales: SaleRow[];
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;     // Set while the entry is in the trash
+  deleted_batch?: string | null;  // Shared by every entry trashed by one `clear`
+};
+
+/** Columns selected for every read, matching `EntryRow`. */
+export const ENTRY_COLUMNS =
+  "id, user_id, date, voice_lines, bts, iot, hsi, accessories, protection, sales, created_at, updated_at";
+
+/** Columns selected for the trash. */
+const TRASH_COLUMNS = `${ENTRY_COLUMNS}, deleted_at, deleted_batch`;
+
+/** Days an entry stays in the trash before it is purged (see `purge_deleted_entries`). */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Options accepted by `EntriesRepository.list`.
+ */
+export type ListEntriesOptions = {
+  limit?: number;        // Maximum number of rows (newest first); defaults to 100
+  range?: DateRange;     // Only entries whose `date` falls inside this inclusive range
+};
+
+/**
+ * Options accepted by `EntriesRepository.listPage`.
+ */
+export type ListPageOptions = {
+  range?: DateRange;     // Only entries whose `date` falls inside this inclusive range
+  cursor?: string | null; // `nextCursor` of the previous page; omit for the first page
+  limit?: number;        // Page size; defaults to 25
+};
+
+/**
+ * One page of entries, newest first.
+ */
+export type EntriesPage = {
+  entries: StoredEntry[];
+  nextCursor: string | null;  // Pass to the next `listPage` call; null on the last page
+};
+
+/**
+ * Options accepted by `EntriesRepository.create`.
+ */
+export type CreateEntryOptions = {
+  id?: string;   // Client-generated id; creating the same id again returns the stored entry
+};
+
+/**
+ * Options accepted by `EntriesRepository.update`.
+ */
+export type UpdateEntryOptions = {
+  expectedUpdatedAt?: string;  // Only update if the row is still at this version
+};
+
+/**
+ * EntryConflictError is thrown by `update` when `expectedUpdatedAt` no longer matches,
+ * i.e. the entry was edited (or deleted) elsewhere since the caller last read it.
+ */
+export class EntryConflictError extends Error {
+  constructor(public readonly entryId: string) {
+    super(`Entry ${entryId} was changed or deleted elsewhere`);
+    this.name = "EntryConflictError";
+  }
+}
+
+/**
+ * EntryRejectedError is thrown by `create`, `createMany` and `update` when the database
+ * refused the write itself (invalid values, a constraint or a permission), as opposed
+ * to failing to reach it. Sending the same write again can't succeed.
+ */
+export class EntryRejectedError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = "EntryRejectedError";
+  }
+}
+
+// SQLSTATE classes that say nothing about the write itself: connection problems,
+// rollbacks, resource limits and shutdowns
+const TRANSIENT_SQLSTATE_CLASSES = ["08", "40", "53", "57"];
+
+/**
+ * writeError: The error a failed write rejects with. Errors carrying a SQLSTATE came
+ * from Postgres and are rejections (unless transient); anything else (a network
+ * failure, a gateway error) is a plain Error.
+ */
+function writeError(error: { message: string; code?: string }): Error {
+  const code = error.code ?? "";
+  if (/^[0-9A-Z]{5}$/.test(code) && !TRANSIENT_SQLSTATE_CLASSES.includes(code.slice(0, 2))) {
+    return new EntryRejectedError(error.message, code);
+  }
+  return new Error(error.message);
+}
+
+/**
+ * Result of `EntriesRepository.clear`.
+ */
+export type ClearResult = {
+  cleared: number;            // Entries moved to the trash
+  batchId: string | null;     // Pass to `restoreBatch` to undo the clear (null when nothing was cleared)
+};
+
+/**
+ * A change to one entry, made by this or any other client.
+ * Moving an entry to the trash is a delete; restoring it is an update.
+ */
+export type EntryChange =
+  | { type: "insert" | "update"; entry: StoredEntry }
+  | { type: "delete"; id: string };
+
+/**
+ * EntriesRepository is the only way the app reads or writes entries.
+ * Every method rejects with an Error carrying the backend's message on failure
+ * (an EntryConflictError for version mismatches on `update`, an EntryRejectedError
+ * when the database refuses a write's values).
+ */
+export interface EntriesRepository {
+  list(options?: ListEntriesOptions): Promise<StoredEntry[]>;
+  /** Keyset-paginated listing (newest first) for the entries table. */
+  listPage(options?: ListPageOptions): Promise<EntriesPage>;
+  /** Per-day totals over every entry in the range (not just a loaded page). */
+  dailyTotals(range?: DateRange): Promise<DailyTotals[]>;
+  /** Sales per plan over every entry in the range. */
+  planMix(range?: DateRange): Promise<PlanTotals[]>;
+  /** Inserts one entry; with `options.id` it is idempotent (safe to retry after a timeout). */
+  create(entry: Entry, options?: CreateEntryOptions): Promise<StoredEntry>;
+  /** Inserts all entries in one batch (all or nothing). */
+  createMany(entries: Entry[], options?: WriteOptions): Promise<StoredEntry[]>;
+  update(id: string, entry: Entry, options?: UpdateEntryOptions): Promise<StoredEntry>;
+  /** Moves the entry to the trash. */
+  remove(id: string): Promise<void>;
+  /** Moves every entry to the trash as one batch. */
+  clear(): Promise<ClearResult>;
+  /** Entries in the trash, most recently deleted first. */
+  listTrash(): Promise<TrashedEntry[]>;
+  /** Takes entries out of the trash; resolves to the number restored. */
+  restore(ids: string[]): Promise<number>;
+  /** Takes every entry of one `clear` out of the trash; resolves to the number restored. */
+  restoreBatch(batchId: string): Promise<number>;
+  /**
+   * Renames every sale whose plan is one of `fromNames` to `toName` in the caller's
+   * entries outside the trash (admins only); resolves to the number of entries changed.
+   */
+  renamePlans(fromNames: string[], toName: string): Promise<number>;
+  /** Calls `onChange` for every later insert, update or delete; returns an unsubscribe function. */
+  subscribe(onChange: (change: EntryChange) => void): () => void;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_PAGE_SIZE = 25;
+
+// Page size for `listAllEntries` (PostgREST's default row cap)
+const LIST_ALL_PAGE_SIZE = 1000;
+
+/**
+ * listAllEntries: Every entry in `range`, newest first, read page by page with
+ * `listPage` so no row is dropped by a row limit.
+ */
+export async function listAllEntries(
+  repository: EntriesRepository,
+  range: DateRange = {}
+): Promise<StoredEntry[]> {
+  const all: StoredEntry[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: EntriesPage = await repository.listPage({
+      range,
+      cursor,
+      limit: LIST_ALL_PAGE_SIZE,
+    });
+    all.push(...page.entries);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return all;
+}
+
+/**
+ * Cursors point just past the last row of a page: its (created_at, id) pair,
+ * the same order the table is sorted by. `id` breaks ties between equal timestamps.
+ */
+const encodeCursor = (row: Pick<EntryRow, "created_at" | "id">) =>
+  `${row.created_at}|${row.id}`;
+
+const decodeCursor = (cursor: string) => {
+  const [createdAt, id] = cursor.split("|");
+  return { createdAt, id };
+};
+
+/**
+ * DailyTotalsRow mirrors a row returned by the `entry_daily_totals` function.
+ * Postgres bigint/numeric sums may arrive as strings.
+ */
+export type DailyTotalsRow = {
+  date: string;
+  entry_count: number | string;
+  voice_lines: number | string;
+  bts: number | string;
+  iot: number | string;
+  hsi: number | string;
+  accessories: number | string;
+  protection: number | string;
+  sale_count: number | string;
+  mrc_total: number | string;
+};
+
+/**
+ * TrashResultRow mirrors the row returned by the `trash_entries` function.
+ */
+type TrashResultRow = {
+  batch_id: string | null;
+  trashed: number | string;
+};
+
+/**
+ * PlanMixRow mirrors a row returned by the `entry_plan_mix` function.
+ */
+type PlanMixRow = {
+  plan_name: string;
+  sale_count: number | string;
+  mrc_total: number | string;
+};
+
+export const rowToDailyTotals = (row: DailyTotalsRow): DailyTotals => ({
+  date: row.date,
+  entryCount: Number(row.entry_count),
+  voiceLines: Number(row.voice_lines),
+  bts: Number(row.bts),
+  iot: Number(row.iot),
+  hsi: Number(row.hsi),
+  accessories: Number(row.accessories),
+  protection: Number(row.protection),
+  saleCount: Number(row.sale_count),
+  mrcTotal: Number(row.mrc_total),
+});
+
+const rowToPlanTotals = (row: PlanMixRow): PlanTotals => ({
+  planName: row.plan_name,
+  saleCount: Number(row.sale_count),
+  mrcTotal: Number(row.mrc_total),
+});
+
+/**
+ * rowToEntry: Converts a database row into the UI representation.
+ */
+export function rowToEntry(row: EntryRow): StoredEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    date: row.date,
+    voiceLines: String(row.voice_lines),
+    bts: String(row.bts),
+    iot: String(row.iot),
+    hsi: String(row.hsi),
+    accessories: String(row.accessories),
+    protection: String(row.protection),
+    sales: (row.sales ?? []).map((sale) => ({
+      planName: sale.plan_name,
+      lineType: sale.line_type,
+      mrc: String(sale.mrc),
+    })),
+  };
+}
+
+/**
+ * rowToTrashedEntry: Converts a trashed row into the Trash view representation.
+ */
+export function rowToTrashedEntry(row: EntryRow): TrashedEntry {
+  return {
+    ...rowToEntry(row),
+    deletedAt: row.deleted_at!,
+    batchId: row.deleted_batch ?? null,
+  };
+}
+
+/**
+ * entryToRow: Converts UI values into the columns written on insert/update.
+ * `lines` is not included; the database derives it from the four categories,
+ * `user_id` defaults to the caller's JWT subject and the timestamps are set by the database.
+ */
+export function entryToRow(
+  entry: Entry
+): Omit<EntryRow, "id" | "user_id" | "created_at" | "updated_at"> {
+  return {
+    date: entry.date,
+    voice_lines: Number(entry.voiceLines),
+    bts: Number(entry.bts),
+    iot: Number(entry.iot),
+    hsi: Number(entry.hsi),
+    accessories: Number(entry.accessories),
+    protection: Number(entry.protection),
+    sales: entry.sales.map((sale) => ({
+      plan_name: sale.planName,
+      line_type: sale.lineType,
+      mrc: Number(sale.mrc),
+    })),
+  };
+}
+
+/**
+ * createSupabaseEntriesRepository: Repository backed by the Supabase `entries` table.
+ * @param client - Any configured Supabase client (browser anon client or server client)
+ * @param options.source - Where its writes come from, for the audit log (default "ui")
+ */
+export function createSupabaseEntriesRepository(
+  client: SupabaseClient,
+  { source = "ui" }: { source?: EntrySource } = {}
+): EntriesRepository {
+  return {
+    async list(options = {}) {
+      let query = client.from("entries").select(ENTRY_COLUMNS).is("deleted_at", null);
+      if (options.range?.from) query = query.gte("date", options.range.from);
+      if (options.range?.to) query = query.lte("date", options.range.to);
+
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .limit(options.limit ?? DEFAULT_LIMIT);
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as EntryRow[]).map(rowToEntry);
+    },
+
+    async listPage(options = {}) {
+      const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+      let query = client.from("entries").select(ENTRY_COLUMNS).is("deleted_at", null);
+      if (options.range?.from) query = query.gte("date", options.range.from);
+      if (options.range?.to) query = query.lte("date", options.range.to);
+      if (options.cursor) {
+        // Rows strictly after the cursor in (created_at desc, id desc) order
+        const { createdAt, id } = decodeCursor(options.cursor);
+        query = query.or(
+          `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",id.lt."${id}")`
+        );
+      }
+
+      // Fetch one extra row to learn whether another page exists
+      const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(limit + 1);
+      if (error) throw new Error(error.message);
+
+      const rows = (data ?? []) as EntryRow[];
+      const pageRows = rows.slice(0, limit);
+      return {
+        entries: pageRows.map(rowToEntry),
+        nextCursor:
+          rows.length > limit ? encodeCursor(pageRows[pageRows.length - 1]) : null,
+      };
+    },
+
+    async dailyTotals(range = {}) {
+      const { data, error } = await client.rpc("entry_daily_totals", {
+        p_from: range.from ?? null,
+        p_to: range.to ?? null,
+      });
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as DailyTotalsRow[]).map(rowToDailyTotals);
+    },
+
+    async planMix(range = {}) {
+      const { data, error } = await client.rpc("entry_plan_mix", {
+        p_from: range.from ?? null,
+        p_to: range.to ?? null,
+      });
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as PlanMixRow[]).map(rowToPlanTotals);
+    },
+
+    async create(entry, options = {}) {
+      const row = options.id ? { ...entryToRow(entry), id: options.id } : entryToRow(entry);
+      const { data, error } = await client
+        .from("entries")
+        .insert([row])
+        .select(ENTRY_COLUMNS)
+        .setHeader(SOURCE_HEADER, source)
+        .single();
+      // Already inserted by an earlier attempt whose response was lost: return that row
+      if (error?.code === "23505" && options.id) {
+        const existing = await client
+          .from("entries")
+          .select(ENTRY_COLUMNS)
+          .eq("id", options.id)
+          .is("deleted_at", null)
+          .maybeSingle();
+        if (existing.data) return rowToEntry(existing.data as EntryRow);
+      }
+      if (error) throw writeError(error);
+      return rowToEntry(data as EntryRow);
+    },
+
+    async createMany(entries, options = {}) {
+      if (entries.length === 0) return [];
+      const { data, error } = await client
+        .from("entries")
+        .insert(entries.map(entryToRow))
+        .select(ENTRY_COLUMNS)
+        .setHeader(SOURCE_HEADER, options.source ?? source);
+      if (error) throw writeError(error);
+      return ((data ?? []) as EntryRow[]).map(rowToEntry);
+    },
+
+    async update(id, entry, options = {}) {
+      let query = client
+        .from("entries")
+        .update(entryToRow(entry))
+        .eq("id", id)
+        .is("deleted_at", null)
+        .setHeader(SOURCE_HEADER, source);
+      if (options.expectedUpdatedAt) {
+        query = query.eq("updated_at", options.expectedUpdatedAt);
+      }
+
+      const { data, error } = await query.select(ENTRY_COLUMNS).maybeSingle();
+      if (error) throw writeError(error);
+      // No row matched: it was trashed, or (with a version check) changed since it was read
+      if (!data) {
+        if (options.expectedUpdatedAt) throw new EntryConflictError(id);
+        throw new Error(`Entry ${id} not found`);
+      }
+      return rowToEntry(data as EntryRow);
+    },
+
+    async remove(id) {
+      const { data, error } = await client
+        .rpc("trash_entries", { p_ids: [id] })
+        .setHeader(SOURCE_HEADER, source);
+      if (error) throw new Error(error.message);
+      const [result] = (data ?? []) as TrashResultRow[];
+      if (!result || Number(result.trashed) === 0) throw new Error(`Entry ${id} not found`);
+    },
+
+    async clear() {
+      // Trashes every entry the caller can see (row-level security keeps this to their own rows)
+      const { data, error } = await client
+        .rpc("trash_entries", { p_ids: null })
+        .setHeader(SOURCE_HEADER, source);
+      if (error) throw new Error(error.message);
+      const [result] = (data ?? []) as TrashResultRow[];
+      const cleared = Number(result?.trashed ?? 0);
+      return { cleared, batchId: cleared > 0 ? result.batch_id : null };
+    },
+
+    async listTrash() {
+      const { data, error } = await client
+        .from("entries")
+        .select(TRASH_COLUMNS)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false })
+        .order("created_at", { ascending: false });
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as EntryRow[]).map(rowToTrashedEntry);
+    },
+
+    async restore(ids) {
+      if (ids.length === 0) return 0;
+      const { data, error } = await client
+        .from("entries")
+        .update({ deleted_at: null, deleted_batch: null })
+        .in("id", ids)
+        .not("deleted_at", "is", null)
+        .select("id")
+        .setHeader(SOURCE_HEADER, source);
+      if (error) throw new Error(error.message);
+      return (data ?? []).length;
+    },
+
+    async restoreBatch(batchId) {
+      const { data, error } = await client
+        .from("entries")
+        .update({ deleted_at: null, deleted_batch: null })
+        .eq("deleted_batch", batchId)
+        .select("id")
+        .setHeader(SOURCE_HEADER, source);
+      if (error) throw new Error(error.message);
+      return (data ?? []).length;
+    },
+
+    async renamePlans(fromNames, toName) {
+      const { data, error } = await client
+        .rpc("rename_plan_names", { p_from: fromNames, p_to: toName })
+        .setHeader(SOURCE_HEADER, source);
+      if (error) throw new Error(error.message);
+      return Number(data ?? 0);
+    },
+
+    subscribe(onChange) {
+      // Realtime applies row-level security, so only the caller's rows arrive
+      // (deletes carry just the id and may be for any row; unknown ids are no-ops)
+      const channel = client
+        .channel(`entries-changes-${crypto.randomUUID()}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "entries" },
+          (payload) => {
+            if (payload.eventType === "DELETE") {
+              const id = (payload.old as Partial<EntryRow>).id;
+              if (id) onChange({ type: "delete", id });
+            } else if ((payload.new as EntryRow).deleted_at) {
+              // Moved to the trash
+              onChange({ type: "delete", id: (payload.new as EntryRow).id });
+            } else {
+              onChange({
+                type: payload.eventType === "INSERT" ? "insert" : "update",
+                entry: rowToEntry(payload.new as EntryRow),
+              });
+            }
+          }
+        )
+        .subscribe();
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+}
+
+const INTEGER_COLUMNS = ["voice_lines", "bts", "iot", "hsi", "protection"] as const;
+
+/**
+ * checkRow: Rejects values the `entries` column types would reject, so in-memory
+ * writes fail where the database's would.
+ */
+function checkRow(row: ReturnType<typeof entryToRow>): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(row.date) || Number.isNaN(Date.parse(row.date))) {
+    throw new EntryRejectedError(`invalid input syntax for type date: "${row.date}"`, "22007");
+  }
+  for (const column of INTEGER_COLUMNS) {
+    if (!Number.isInteger(row[column])) {
+      throw new EntryRejectedError(
+        `invalid input syntax for type integer: "${row[column]}"`,
+        "22P02"
+      );
+    }
+  }
+  if (!Number.isFinite(row.accessories) || row.sales.some((sale) => !Number.isFinite(sale.mrc))) {
+    throw new EntryRejectedError("invalid input syntax for type numeric", "22P02");
+  }
+}
+
+/**
+ * createInMemoryEntriesRepository: Repository that keeps rows in an array.
+ * Useful for tests, demos and local development without a database.
+ * Like row-level security, only rows owned by `userId` are ever visible or writable.
+ * Trashed rows older than TRASH_RETENTION_DAYS are purged whenever the trash is read.
+ * Like the audit trigger, every change is appended to `auditLog` with its source.
+ * @param seed - Optional rows to start with (any order, any owner)
+ * @param userId - The user this repository acts as
+ * @param options.source - Where its writes come from (default "ui")
+ * @param options.auditLog - Array the audit rows are appended to
+ */
+export function createInMemoryEntriesRepository(
+  seed: EntryRow[] = [],
+  userId = "1",
+  { source = "ui", auditLog = [] }: { source?: EntrySource; auditLog?: AuditLogRow[] } = {}
+): EntriesRepository {
+  let rows: EntryRow[] = [...seed];
+  const listeners = new Set<(change: EntryChange) => void>();
+  const emit = (change: EntryChange) => listeners.forEach((listener) => listener(change));
+
+  // Appends one audit row, as the `entries_audit` trigger does
+  const audit = (
+    action: AuditAction,
+    before: EntryRow | null,
+    after: EntryRow | null,
+    {
+      batchId = null,
+      writeSource = source,
+    }: { batchId?: string | null; writeSource?: EntrySource } = {}
+  ) => {
+    auditLog.push({
+      id: auditLog.length + 1,
+      entry_id: (after ?? before)!.id,
+      user_id: userId,
+      actor_id: userId,
+      actor_name: null,
+      action,
+      source: writeSource,
+      before,
+      after,
+      batch_id: batchId,
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  // New rows for `entries`, stamped with one timestamp
+  const newRows = (entries: Entry[], id?: string): EntryRow[] => {
+    const now = new Date().toISOString();
+    return entries.map((entry) => {
+      const values = entryToRow(entry);
+      checkRow(values);
+      return {
+        ...values,
+        id: id ?? crypto.randomUUID(),
+        user_id: userId,
+        created_at: now,
+        updated_at: now,
+      };
+    });
+  };
+
+  // Adds rows that were all checked first, so a batch is never half inserted
+  const insert = (inserted: EntryRow[], writeSource: EntrySource) => {
+    rows.push(...inserted);
+    for (const row of inserted) {
+      audit("create", null, row, { writeSource });
+      emit({ type: "insert", entry: rowToEntry(row) });
+    }
+    return inserted.map(rowToEntry);
+  };
+
+  // The user's entries that are not in the trash
+  const ownRows = () => rows.filter((r) => r.user_id === userId && !r.deleted_at);
+  const trashedRows = () => rows.filter((r) => r.user_id === userId && r.deleted_at);
+
+  // Marks rows as trashed (one batch id for a clear) and reports them as deleted
+  const trash = (trashed: EntryRow[], batchId: string | null) => {
+    const ids = new Set(trashed.map((r) => r.id));
+    const deletedAt = new Date().toISOString();
+    rows = rows.map((r) =>
+      ids.has(r.id) ? { ...r, deleted_at: deletedAt, deleted_batch: batchId } : r
+    );
+    for (const row of trashed) {
+      const after = { ...row, deleted_at: deletedAt, deleted_batch: batchId };
+      audit(batchId ? "clear" : "delete", row, after, { batchId });
+      emit({ type: "delete", id: row.id });
+    }
+  };
+
+  // Takes rows out of the trash and reports them as updated
+  const untrash = (restored: EntryRow[]) => {
+    const now = new Date().toISOString();
+    for (const row of restored) {
+      const updated: EntryRow = { ...row, deleted_at: null, deleted_batch: null, updated_at: now };
+      rows = rows.map((r) => (r.id === row.id ? updated : r));
+      audit("restore", row, updated, { batchId: row.deleted_batch ?? null });
+      emit({ type: "update", entry: rowToEntry(updated) });
+    }
+    return restored.length;
+  };
+
+  // Newest first, ties broken by id: the order the Supabase backend pages in
+  const byNewest = (a: EntryRow, b: EntryRow) =>
+    b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id);
+
+  const findRow = (id: string) => {
+    const row = ownRows().find((r) => r.id === id);
+    if (!row) throw new Error(`Entry ${id} not found`);
+    return row;
+  };
+
+  return {
+    async list(options = {}) {
+      return ownRows()
+        .filter((r) => isInRange(r.date, options.range ?? {}))
+        .sort(byNewest)
+        .slice(0, options.limit ?? DEFAULT_LIMIT)
+        .map(rowToEntry);
+    },
+
+    async listPage(options = {}) {
+      const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+      const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+      const sorted = ownRows()
+        .filter((r) => isInRange(r.date, options.range ?? {}))
+        .sort(byNewest);
+      const start = cursor
+        ? sorted.findIndex(
+            (r) => byNewest(r, { created_at: cursor.createdAt, id: cursor.id } as EntryRow) > 0
+          )
+        : 0;
+      const pageRows = start === -1 ? [] : sorted.slice(start, start + limit);
+      const hasMore = start !== -1 && start + limit < sorted.length;
+      return {
+        entries: pageRows.map(rowToEntry),
+        nextCursor: hasMore ? encodeCursor(pageRows[pageRows.length - 1]) : null,
+      };
+    },
+
+    async dailyTotals(range = {}) {
+      return toDailyTotals(
+        ownRows()
+          .filter((r) => isInRange(r.date, range))
+          .map(rowToEntry)
+      );
+    },
+
+    async planMix(range = {}) {
+      return toPlanTotals(
+        ownRows()
+          .filter((r) => isInRange(r.date, range))
+          .map(rowToEntry)
+      );
+    },
+
+    async create(entry, options = {}) {
+      const existing = options.id ? rows.find((r) => r.id === options.id) : undefined;
+      if (existing) {
+        if (existing.user_id !== userId || existing.deleted_at) {
+          throw new EntryRejectedError(
+            `duplicate key value violates unique constraint "entries_pkey"`,
+            "23505"
+          );
+        }
+        return rowToEntry(existing);
+      }
+      const [created] = insert(newRows([entry], options.id), source);
+      return created;
+    },
+
+    async createMany(entries, options = {}) {
+      return insert(newRows(entries), options.source ?? source);
+    },
+
+    async update(id, entry, options = {}) {
+      const current = ownRows().find((r) => r.id === id);
+      if (options.expectedUpdatedAt && current?.updated_at !== options.expectedUpdatedAt) {
+        throw new EntryConflictError(id);
+      }
+      const before = findRow(id);
+      const values = entryToRow(entry);
+      checkRow(values);
+      const updated: EntryRow = { ...before, ...values, updated_at: new Date().toISOString() };
+      rows = rows.map((r) => (r.id === id ? updated : r));
+      audit("update", before, updated);
+      emit({ type: "update", entry: rowToEntry(updated) });
+      return rowToEntry(updated);
+    },
+
+    async remove(id) {
+      trash([findRow(id)], null);
+    },
+
+    async clear() {
+      const cleared = ownRows();
+      const batchId = cleared.length > 0 ? crypto.randomUUID() : null;
+      trash(cleared, batchId);
+      return { cleared: cleared.length, batchId };
+    },
+
+    async listTrash() {
+      const cutoff = Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      rows = rows.filter((r) => !r.deleted_at || Date.parse(r.deleted_at) >= cutoff);
+      return trashedRows()
+        .sort(
+          (a, b) =>
+            b.deleted_at!.localeCompare(a.deleted_at!) || b.created_at.localeCompare(a.created_at)
+        )
+        .map(rowToTrashedEntry);
+    },
+
+    async restore(ids) {
+      return untrash(trashedRows().filter((r) => ids.includes(r.id)));
+    },
+
+    async restoreBatch(batchId) {
+      return untrash(trashedRows().filter((r) => r.deleted_batch === batchId));
+    },
+
+    async renamePlans(fromNames, toName) {
+      const renamed = ownRows().filter((r) =>
+        r.sales.some((sale) => fromNames.includes(sale.plan_name))
+      );
+      for (const row of renamed) {
+        const updated: EntryRow = {
+          ...row,
+          sales: row.sales.map((sale) =>
+            fromNames.includes(sale.plan_name) ? { ...sale, plan_name: toName } : sale
+          ),
+          updated_at: new Date().toISOString(),
+        };
+        rows = rows.map((r) => (r.id === row.id ? updated : r));
+        audit("update", row, updated);
+        emit({ type: "update", entry: rowToEntry(updated) });
+      }
+      return renamed.length;
+    },
+
+    subscribe(onChange) {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+}
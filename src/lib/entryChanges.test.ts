@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { entry } from "../tests/fixtures";
+import type { StoredEntry } from "../types/entry";
+import { applyEntryChange, upsertEntry } from "./entryChanges";
+
+const stored = (id: string, createdAt: string, updatedAt = createdAt): StoredEntry => ({
+  ...entry("2026-10-01"),
+  id,
+  userId: "1",
+  createdAt,
+  updatedAt,
+});
+
+describe("upsertEntry", () => {
+  it("sorts by time whatever format the timestamps are in", () => {
+    // PostgREST style, then Realtime style for a later instant
+    const loaded = [stored("a", "2026-10-01T10:00:00+00:00")];
+    const live = stored("b", "2026-10-01T09:30:00.5-01:00");
+
+    expect(upsertEntry(loaded, live).map((e) => e.id)).toEqual(["b", "a"]);
+  });
+
+  it("breaks ties on the same instant by id", () => {
+    const loaded = [stored("a", "2026-10-01T10:00:00+00:00")];
+    const live = stored("b", "2026-10-01T10:00:00Z");
+
+    expect(upsertEntry(loaded, live).map((e) => e.id)).toEqual(["b", "a"]);
+  });
+
+  it("leaves entries older than the last loaded row to pagination", () => {
+    const loaded = [stored("b", "2026-10-02T10:00:00+00:00")];
+    const older = stored("a", "2026-10-02T09:00:00Z");
+    const newer = stored("c", "2026-10-02T05:00:00-06:00");
+
+    expect(upsertEntry(loaded, older, false).map((e) => e.id)).toEqual(["b"]);
+    expect(upsertEntry(loaded, newer, false).map((e) => e.id)).toEqual(["c", "b"]);
+  });
+
+  it("ignores an event older than the copy shown", () => {
+    const shown = stored("a", "2026-10-01T10:00:00Z", "2026-10-01T12:00:00+00:00");
+    const stale = stored("a", "2026-10-01T10:00:00Z", "2026-10-01T11:30:00.000Z");
+
+    expect(upsertEntry([shown], stale)).toEqual([shown]);
+  });
+});
+
+describe("applyEntryChange", () => {
+  it("removes entries that moved out of the selected period", () => {
+    const entry = stored("a", "2026-10-01T10:00:00Z");
+    const moved = { ...entry, date: "2026-09-30", updatedAt: "2026-10-01T11:00:00Z" };
+
+    expect(
+      applyEntryChange([entry], { type: "update", entry: moved }, { from: "2026-10-01" }, true)
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * entryChanges.ts
+ *
+ * Applies live change events (from `EntriesRepository.subscribe`) to the list of
+ * entries the table has loaded.
+ * • Idempotent: an insert for an entry that is already shown (e.g. the one this tab
+ *   just prepended after saving) replaces it instead of adding a duplicate.
+ * • Keeps the list newest first and limited to the selected period.
+ * • Ignores events older than the copy already shown (compared by `updatedAt`).
+ * • Entries older than the last loaded row are left for pagination to bring in.
+ */
+import type { StoredEntry } from "../types/entry";
+import type { EntryChange } from "./entriesRepository";
+import { isInRange, type DateRange } from "./dateRange";
+
+// Same order the repository pages in: newest first, ties broken by id. Timestamps are
+// parsed, not compared as strings (PostgREST and Realtime may format them differently)
+const byNewest = (a: StoredEntry, b: StoredEntry) =>
+  Date.parse(b.createdAt) - Date.parse(a.createdAt) || b.id.localeCompare(a.id);
+
+/**
+ * upsertEntry: Adds `entry` (or replaces the copy with the same id) in sorted position.
+ * @param complete - Whether every entry of the period is loaded; otherwise entries
+ *                   older than the last loaded row are not added
+ */
+export function upsertEntry(
+  entries: StoredEntry[],
+  entry: StoredEntry,
+  complete = true
+): StoredEntry[] {
+  const current = entries.find((e) => e.id === entry.id);
+  // Parse rather than compare strings: PostgREST and Realtime may format timestamps differently
+  if (current && Date.parse(current.updatedAt) > Date.parse(entry.updatedAt)) return entries;
+  const others = entries.filter((e) => e.id !== entry.id);
+  const last = others[others.length - 1];
+  const isLoaded = current !== undefined;
+  if (!isLoaded && !complete && last && byNewest(entry, last) > 0) return others;
+  return [...others, entry].sort(byNewest);
+}
+
+/**
+ * applyEntryChange: The loaded entries after one change event.
+ * @param entries - Currently loaded entries, newest first
+ * @param change - The insert, update or delete to apply
+ * @param range - Selected period; entries outside it are removed / not added
+ * @param complete - Whether every entry of the period is loaded (no further pages)
+ */
+export function applyEntryChange(
+  entries: StoredEntry[],
+  change: EntryChange,
+  range: DateRange,
+  complete: boolean
+): StoredEntry[] {
+  if (change.type === "delete") {
+    return entries.filter((e) => e.id !== change.id);
+  }
+  if (!isInRange(change.entry.date, range)) {
+    return entries.filter((e) => e.id !== change.entry.id);
+  }
+  return upsertEntry(entries, change.entry, complete);
+}
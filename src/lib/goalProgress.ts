@@ -0,0 +1,82 @@
+/**
+ * goalProgress.ts
+ *
+ * Turns a monthly Goal and the month-to-date summary into per-metric progress:
+ * percent complete, remaining gap and the daily pace needed to close it.
+ */
+import type { Goal } from "../types/goal";
+import type { EntrySummary } from "./summary";
+
+export type GoalMetric = "voiceLines" | "hsi" | "protectionRate" | "accessories";
+
+export type MetricProgress = {
+  metric: GoalMetric;
+  label: string;
+  actual: number;
+  target: number;
+  percent: number;        // actual / target * 100, capped at 100 (100 when target is 0)
+  remaining: number;      // Gap to target in the metric's own unit (0 once reached)
+  dailyPace: number;      // Units per remaining day needed to hit the target
+  paceUnit: string;       // What `dailyPace` counts, e.g. "lines/day"
+};
+
+/**
+ * daysLeftInMonth: Days from `today` through the end of its month, today included.
+ */
+export function daysLeftInMonth(today: Date = new Date()): number {
+  const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+  return lastDay - today.getDate() + 1;
+}
+
+/**
+ * computeGoalProgress: Progress for each goal metric.
+ * @param goal - The month's targets
+ * @param summary - Totals for the same month so far
+ * @param today - Reference day for the remaining-days calculation
+ */
+export function computeGoalProgress(
+  goal: Goal,
+  summary: EntrySummary,
+  today: Date = new Date()
+): MetricProgress[] {
+  const daysLeft = daysLeftInMonth(today);
+
+  const progress = (
+    metric: GoalMetric,
+    label: string,
+    actual: number,
+    target: number,
+    paceUnit: string,
+    paceNeeded: number
+  ): MetricProgress => {
+    const remaining = Math.max(target - actual, 0);
+    return {
+      metric,
+      label,
+      actual,
+      target,
+      percent: target > 0 ? Math.min((actual / target) * 100, 100) : 100,
+      remaining,
+      dailyPace: remaining > 0 ? paceNeeded / daysLeft : 0,
+      paceUnit,
+    };
+  };
+
+  // The attach rate is a ratio, so its "pace" is the protection packages still needed
+  // to lift the current lines to the target rate, spread over the days left.
+  const protectionNeeded = Math.max(
+    Math.ceil((goal.protectionRate / 100) * summary.totalLines) - summary.totalProtection,
+    0
+  );
+
+  return [
+    progress("voiceLines", "VOICE LINES", summary.totalVoiceLines, goal.voiceLines,
+      "lines/day", goal.voiceLines - summary.totalVoiceLines),
+    progress("hsi", "HSI", summary.totalHsi, goal.hsi,
+      "HSI/day", goal.hsi - summary.totalHsi),
+    progress("protectionRate", "PROTECTION %", summary.protectionRate, goal.protectionRate,
+      "protection/day", protectionNeeded),
+    progress("accessories", "ACCESSORIES", summary.totalAccessories, goal.accessories,
+      "$/day", goal.accessories - summary.totalAccessories),
+  ];
+}
@@ -0,0 +1,119 @@
+/**
+ * goalsRepository.ts
+ *
+ * Typed access to the `goals` table (monthly quota targets), following the same
+ * pattern as entriesRepository.ts: one row mapping, a Supabase implementation and
+ * an in-memory implementation. Row-level security scopes Supabase reads/writes to
+ * the caller; the in-memory backend only ever holds one user's goals.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Goal } from "../types/goal";
+import { isInRange, type DateRange } from "./dateRange";
+
+/**
+ * GoalRow mirrors a row of the `goals` table as returned by PostgREST.
+ * Postgres `numeric` columns arrive as numbers or strings depending on size.
+ */
+export type GoalRow = {
+  month: string;
+  voice_lines: number;
+  hsi: number;
+  protection_rate: number | string;
+  accessories: number | string;
+};
+
+const GOAL_COLUMNS = "month, voice_lines, hsi, protection_rate, accessories";
+
+export interface GoalsRepository {
+  /** Goal for the month starting on `month` (YYYY-MM-01), or null when none is set. */
+  get(month: string): Promise<Goal | null>;
+  /** Goals for every month starting inside `range` (all months when omitted), oldest first. */
+  list(range?: DateRange): Promise<Goal[]>;
+  /** Creates or replaces the goal for `goal.month`. */
+  save(goal: Goal): Promise<Goal>;
+}
+
+export function rowToGoal(row: GoalRow): Goal {
+  return {
+    month: row.month,
+    voiceLines: row.voice_lines,
+    hsi: row.hsi,
+    protectionRate: Number(row.protection_rate),
+    accessories: Number(row.accessories),
+  };
+}
+
+export function goalToRow(goal: Goal): GoalRow {
+  return {
+    month: goal.month,
+    voice_lines: goal.voiceLines,
+    hsi: goal.hsi,
+    protection_rate: goal.protectionRate,
+    accessories: goal.accessories,
+  };
+}
+
+/**
+ * createSupabaseGoalsRepository: Repository backed by the Supabase `goals` table.
+ */
+export function createSupabaseGoalsRepository(
+  client: SupabaseClient
+): GoalsRepository {
+  return {
+    async get(month) {
+      const { data, error } = await client
+        .from("goals")
+        .select(GOAL_COLUMNS)
+        .eq("month", month)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? rowToGoal(data as GoalRow) : null;
+    },
+
+    async list(range = {}) {
+      let query = client.from("goals").select(GOAL_COLUMNS);
+      if (range.from) query = query.gte("month", range.from);
+      if (range.to) query = query.lte("month", range.to);
+      const { data, error } = await query.order("month");
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as GoalRow[]).map(rowToGoal);
+    },
+
+    async save(goal) {
+      // One goal per user per month: upsert on the (user_id, month) unique key
+      const { data, error } = await client
+        .from("goals")
+        .upsert(goalToRow(goal), { onConflict: "user_id,month" })
+        .select(GOAL_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return rowToGoal(data as GoalRow);
+    },
+  };
+}
+
+/**
+ * createInMemoryGoalsRepository: Repository that keeps goals in a Map keyed by month.
+ */
+export function createInMemoryGoalsRepository(
+  seed: Goal[] = []
+): GoalsRepository {
+  const goals = new Map(seed.map((g) => [g.month, g]));
+
+  return {
+    async get(month) {
+      return goals.get(month) ?? null;
+    },
+
+    async list(range = {}) {
+      return [...goals.values()]
+        .filter((g) => isInRange(g.month, range))
+        .sort((a, b) => a.month.localeCompare(b.month));
+    },
+
+    async save(goal) {
+      goals.set(goal.month, goal);
+      return goal;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * leaderboard.ts
+ *
+ * Ranks the reps on a team for the manager dashboard.
+ * • Each rep's figures are the regular Summary Statistics (summarizeTotals) over
+ *   their per-day totals, so the leaderboard matches what the rep sees on their own
+ *   dashboard for the same period.
+ * • Reps are ranked by one metric at a time; equal values share a rank.
+ */
+import type { TeamMember } from "../types/team";
+import { summarizeTotals, type EntrySummary } from "./summary";
+import type { MemberDailyTotals } from "./teamsRepository";
+
+export type LeaderboardMetric = "lines" | "attachRate" | "accessories" | "mrc";
+
+/**
+ * One rep's row on the leaderboard.
+ */
+export type RepStanding = {
+  member: TeamMember;
+  summary: EntrySummary;
+  rank: number;               // 1 = best on the selected metric
+};
+
+// Sort buttons / columns: label and the summary value each metric ranks by
+export const LEADERBOARD_METRICS: ReadonlyArray<
+  readonly [LeaderboardMetric, string, (s: EntrySummary) => number]
+> = [
+  ["lines", "Lines", (s) => s.totalLines],
+  ["attachRate", "Attach Rate", (s) => s.protectionRate],
+  ["accessories", "Accessories", (s) => s.totalAccessories],
+  ["mrc", "MRC", (s) => s.totalMrc],
+];
+
+/**
+ * metricValue: The value a summary is ranked by for `metric`.
+ */
+export function metricValue(summary: EntrySummary, metric: LeaderboardMetric): number {
+  const [, , value] = LEADERBOARD_METRICS.find(([key]) => key === metric)!;
+  return value(summary);
+}
+
+/**
+ * rankReps: Every member's summary over `days`, best first on `metric`.
+ * Members without entries in the period are included with zeros.
+ */
+export function rankReps(
+  members: TeamMember[],
+  days: MemberDailyTotals[],
+  metric: LeaderboardMetric
+): RepStanding[] {
+  const standings = members
+    .map((member) => ({
+      member,
+      summary: summarizeTotals(days.filter((d) => d.userId === member.userId)),
+    }))
+    .sort(
+      (a, b) =>
+        metricValue(b.summary, metric) - metricValue(a.summary, metric) ||
+        a.member.displayName.localeCompare(b.member.displayName)
+    );
+
+  // Competition ranking (1, 2, 2, 4): ties share the better rank
+  return standings.map((standing) => {
+    const value = metricValue(standing.summary, metric);
+    const first = standings.findIndex((s) => metricValue(s.summary, metric) === value);
+    return { ...standing, rank: first + 1 };
+  });
+}
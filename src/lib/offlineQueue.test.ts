@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { entry } from "../tests/fixtures";
+import { createInMemoryEntriesRepository } from "./entriesRepository";
+import {
+  RETRY_BASE_MS,
+  createInMemoryOfflineQueue,
+  createQueueSyncer,
+  newPendingOperation,
+  replayQueue,
+  type ReplayResult,
+} from "./offlineQueue";
+
+describe("replayQueue", () => {
+  it("writes queued creates once, even when one already reached the database", async () => {
+    const repository = createInMemoryEntriesRepository();
+    const queue = createInMemoryOfflineQueue();
+    const op = newPendingOperation({ kind: "create", entry: entry("2026-10-01"), userId: "1" });
+    // The first attempt was stored, but its response never arrived
+    await repository.create(op.entry, { id: op.entryId });
+    await queue.put(op);
+
+    const result = await replayQueue(queue, repository, "1");
+
+    expect(result.synced.map((e) => e.id)).toEqual([op.entryId]);
+    expect(await repository.list()).toHaveLength(1);
+    expect(result.remaining).toBe(0);
+  });
+
+  it("marks refused writes as failed and keeps replaying the rest", async () => {
+    const repository = createInMemoryEntriesRepository();
+    const queue = createInMemoryOfflineQueue();
+    const bad = newPendingOperation({
+      kind: "create",
+      entry: entry("2026-10-01", { bts: "x" }),
+      userId: "1",
+    });
+    const good = newPendingOperation({ kind: "create", entry: entry("2026-10-02"), userId: "1" });
+    await queue.put({ ...bad, queuedAt: "2026-10-01T10:00:00Z" });
+    await queue.put({ ...good, queuedAt: "2026-10-01T10:01:00Z" });
+
+    const result = await replayQueue(queue, repository, "1");
+
+    expect(result.synced.map((e) => e.date)).toEqual(["2026-10-02"]);
+    expect(result.failed.map((op) => op.id)).toEqual([bad.id]);
+    expect(result.failed[0].error).toMatch("integer");
+    expect(result.pending).toBe(0);
+    expect((await queue.list("1")).map((op) => op.status)).toEqual(["failed"]);
+  });
+
+  it("stops at a failure to reach the database and leaves the rest pending", async () => {
+    const repository = {
+      ...createInMemoryEntriesRepository(),
+      create: async () => {
+        throw new Error("TypeError: Failed to fetch");
+      },
+    };
+    const queue = createInMemoryOfflineQueue();
+    await queue.put(newPendingOperation({ kind: "create", entry: entry("2026-10-01"), userId: "1" }));
+    await queue.put(newPendingOperation({ kind: "create", entry: entry("2026-10-02"), userId: "1" }));
+
+    const result = await replayQueue(queue, repository, "1");
+
+    expect(result.synced).toEqual([]);
+    expect(result.failed).toEqual([]);
+    expect(result.pending).toBe(2);
+  });
+
+  it("flags edits to entries changed elsewhere as conflicts", async () => {
+    const repository = createInMemoryEntriesRepository();
+    const stored = await repository.create(entry("2026-10-01"));
+    const queue = createInMemoryOfflineQueue();
+    await queue.put(
+      newPendingOperation({
+        kind: "update",
+        entry: entry("2026-10-01", { hsi: "2" }),
+        entryId: stored.id,
+        expectedUpdatedAt: "2026-09-30T00:00:00Z",
+        userId: "1",
+      })
+    );
+
+    const result = await replayQueue(queue, repository, "1");
+
+    expect(result.conflicts).toHaveLength(1);
+    expect((await repository.list())[0].hsi).toBe("0");
+  });
+});
+
+describe("createQueueSyncer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // A repository whose first `failures` creates can't reach the database
+  const flakyRepository = (failures: number) => {
+    const repository = createInMemoryEntriesRepository();
+    let calls = 0;
+    return {
+      ...repository,
+      create: async (...args: Parameters<typeof repository.create>) => {
+        calls += 1;
+        if (calls <= failures) throw new Error("TypeError: Failed to fetch");
+        return repository.create(...args);
+      },
+    };
+  };
+
+  it("retries a write that failed while online, without waiting for an online event", async () => {
+    const repository = flakyRepository(0);
+    const queue = createInMemoryOfflineQueue();
+    const synced: ReplayResult[] = [];
+    const syncer = createQueueSyncer({
+      queue,
+      repository,
+      userId: "1",
+      onSynced: (result) => synced.push(result),
+      isOnline: () => true,
+    });
+    // What `enqueue` does after the request failed
+    await queue.put(newPendingOperation({ kind: "create", entry: entry("2026-10-01"), userId: "1" }));
+    syncer.retryLater();
+
+    await vi.advanceTimersByTimeAsync(RETRY_BASE_MS);
+
+    expect(synced).toHaveLength(1);
+    expect(await queue.list("1")).toEqual([]);
+    expect(await repository.list()).toHaveLength(1);
+  });
+
+  it("backs off while the database stays unreachable", async () => {
+    const repository = flakyRepository(2);
+    const queue = createInMemoryOfflineQueue();
+    const syncer = createQueueSyncer({
+      queue,
+      repository,
+      userId: "1",
+      onSynced: () => {},
+      isOnline: () => true,
+    });
+    await queue.put(newPendingOperation({ kind: "create", entry: entry("2026-10-01"), userId: "1" }));
+
+    await syncer.sync();
+    await vi.advanceTimersByTimeAsync(RETRY_BASE_MS);
+    expect(await queue.list("1")).toHaveLength(1);
+
+    // The second retry waits twice as long
+    await vi.advanceTimersByTimeAsync(RETRY_BASE_MS * 2 - 1);
+    expect(await queue.list("1")).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await queue.list("1")).toEqual([]);
+  });
+
+  it("doesn't schedule retries while offline", async () => {
+    const queue = createInMemoryOfflineQueue();
+    const syncer = createQueueSyncer({
+      queue,
+      repository: flakyRepository(0),
+      userId: "1",
+      onSynced: () => {},
+      isOnline: () => false,
+    });
+    await queue.put(newPendingOperation({ kind: "create", entry: entry("2026-10-01"), userId: "1" }));
+
+    syncer.retryLater();
+    await vi.advanceTimersByTimeAsync(RETRY_BASE_MS * 10);
+
+    expect(await queue.list("1")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * offlineQueue.ts
+ *
+ * Entry writes that could not reach the database yet (offline, or the request failed),
+ * kept in the browser until they can be replayed.
+ * • Each operation is a create or an update of one entry, stored in IndexedDB so it
+ *   survives reloads; an in-memory queue with the same interface serves tests.
+ * • Operations are tagged with the user who made them, so a different sign-in on the
+ *   same browser never replays someone else's entries.
+ * • Updates carry the version (`updatedAt`) they were based on. If the entry changed
+ *   elsewhere in the meantime, replay marks the operation as a conflict instead of
+ *   overwriting the newer data.
+ * • Creates carry the id the entry is inserted with (generated in the browser), so a
+ *   replay after a lost response returns the stored entry instead of inserting it twice.
+ * • Writes the database refuses are marked "failed" with its message and skipped, so
+ *   they never hold up the operations queued after them.
+ * • `createQueueSyncer` runs one replay at a time and, while operations can't be sent,
+ *   retries with a growing delay (also right after a write is queued while online).
+ */
+import type { Entry, StoredEntry } from "../types/entry";
+import {
+  EntryConflictError,
+  EntryRejectedError,
+  type EntriesRepository,
+} from "./entriesRepository";
+
+/**
+ * One queued write.
+ */
+export type PendingOperation = {
+  id: string;                      // Local id of the operation (not the entry id)
+  userId: string;                  // User who queued it
+  kind: "create" | "update";
+  entry: Entry;                    // Values to write
+  entryId?: string;                // The id a create inserts with, or the entry an update changes
+  expectedUpdatedAt?: string;      // Updates only: version the edit was based on
+  queuedAt: string;                // ISO timestamp; replay happens in this order
+  status: "pending" | "conflict" | "failed";
+  error?: string;                  // Failed only: why the database refused it
+};
+
+export interface OfflineQueue {
+  /** Every queued operation for `userId`, oldest first. */
+  list(userId: string): Promise<PendingOperation[]>;
+  /** Adds or replaces an operation (matched by `id`). */
+  put(operation: PendingOperation): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Outcome of one replay pass.
+ */
+export type ReplayResult = {
+  synced: StoredEntry[];           // Entries written during this pass
+  conflicts: PendingOperation[];   // Operations newly marked as conflicts
+  failed: PendingOperation[];      // Operations newly marked as failed
+  pending: number;                 // Operations still to send (the pass stopped early)
+  remaining: number;               // Operations still queued (pending, conflict or failed)
+};
+
+/**
+ * newPendingOperation: Builds a queue record with a fresh id and timestamp
+ * (and, for a create without one, the entry's id).
+ */
+export function newPendingOperation(
+  fields: Omit<PendingOperation, "id" | "queuedAt" | "status">
+): PendingOperation {
+  return {
+    ...fields,
+    entryId: fields.entryId ?? (fields.kind === "create" ? crypto.randomUUID() : undefined),
+    id: crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+    status: "pending",
+  };
+}
+
+/**
+ * replayQueue: Sends every pending operation for `userId` to the repository, oldest first.
+ * • Written operations are removed from the queue.
+ * • Version mismatches are kept and marked "conflict" for the user to resolve.
+ * • Writes the database refused are kept and marked "failed"; the pass moves on.
+ * • Any other failure stops the pass (the connection is most likely still down);
+ *   the remaining operations are retried on the next pass.
+ */
+export async function replayQueue(
+  queue: OfflineQueue,
+  repository: EntriesRepository,
+  userId: string
+): Promise<ReplayResult> {
+  const operations = await queue.list(userId);
+  const synced: StoredEntry[] = [];
+  const conflicts: PendingOperation[] = [];
+  const failed: PendingOperation[] = [];
+
+  for (const op of operations) {
+    if (op.status !== "pending") continue;
+    try {
+      const stored =
+        op.kind === "create"
+          ? await repository.create(op.entry, { id: op.entryId })
+          : await repository.update(op.entryId!, op.entry, {
+              expectedUpdatedAt: op.expectedUpdatedAt,
+            });
+      await queue.remove(op.id);
+      synced.push(stored);
+    } catch (err) {
+      if (err instanceof EntryConflictError) {
+        const conflict: PendingOperation = { ...op, status: "conflict" };
+        await queue.put(conflict);
+        conflicts.push(conflict);
+      } else if (err instanceof EntryRejectedError) {
+        const failure: PendingOperation = { ...op, status: "failed", error: err.message };
+        await queue.put(failure);
+        failed.push(failure);
+      } else {
+        break;
+      }
+    }
+  }
+
+  const left = await queue.list(userId);
+  return {
+    synced,
+    conflicts,
+    failed,
+    pending: left.filter((op) => op.status === "pending").length,
+    remaining: left.length,
+  };
+}
+
+// Delay before retrying a pass that couldn't reach the database, doubled after every
+// further failure up to the maximum
+export const RETRY_BASE_MS = 5000;
+export const RETRY_MAX_MS = 5 * 60 * 1000;
+
+export interface QueueSyncer {
+  /** Replays the queue now (no-op while a pass runs); unsent operations are retried later. */
+  sync(): Promise<void>;
+  /** Schedules a pass after the current backoff delay, unless one is scheduled or offline. */
+  retryLater(): void;
+  /** Cancels a scheduled pass and resets the backoff. */
+  cancel(): void;
+}
+
+/**
+ * createQueueSyncer: Replays `userId`'s queue on demand and retries with backoff.
+ * @param options.onSynced - Runs after any pass that wrote something
+ * @param options.onSyncing - Runs when a pass starts (true) and ends (false)
+ * @param options.isOnline - Connectivity check (defaults to `navigator.onLine`)
+ */
+export function createQueueSyncer({
+  queue,
+  repository,
+  userId,
+  onSynced,
+  onSyncing,
+  isOnline = () => navigator.onLine,
+}: {
+  queue: OfflineQueue;
+  repository: EntriesRepository;
+  userId: string;
+  onSynced: (result: ReplayResult) => void;
+  onSyncing?: (syncing: boolean) => void;
+  isOnline?: () => boolean;
+}): QueueSyncer {
+  // One replay at a time: overlapping passes would send the same operation twice
+  let running = false;
+  // Scheduled retry, and the number of passes in a row that couldn't send everything
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const syncer: QueueSyncer = {
+    async sync() {
+      if (running) return;
+      running = true;
+      clearTimer();
+      onSyncing?.(true);
+
+      let unsent = 0;
+      try {
+        const result = await replayQueue(queue, repository, userId);
+        unsent = result.pending;
+        if (result.synced.length > 0) onSynced(result);
+      } catch (err: any) {
+        console.error("Sync error:", err.message);
+        unsent = 1;
+      } finally {
+        running = false;
+        onSyncing?.(false);
+      }
+
+      if (unsent === 0) attempts = 0;
+      else syncer.retryLater();
+    },
+
+    retryLater() {
+      if (timer || !isOnline()) return;
+      const delay = Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+      attempts += 1;
+      timer = setTimeout(() => {
+        timer = null;
+        syncer.sync();
+      }, delay);
+    },
+
+    cancel() {
+      clearTimer();
+      attempts = 0;
+    },
+  };
+  return syncer;
+}
+
+const byQueuedAt = (a: PendingOperation, b: PendingOperation) =>
+  a.queuedAt.localeCompare(b.queuedAt);
+
+// IndexedDB database & object store holding the queue
+const DB_NAME = "performance-tracker";
+const DB_VERSION = 1;
+const STORE = "pendingOperations";
+
+// Wraps an IDBRequest in a promise
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(request.error?.message ?? "IndexedDB error"));
+  });
+}
+
+/**
+ * createIndexedDbOfflineQueue: Queue persisted in the browser's IndexedDB.
+ * The database is opened lazily on first use.
+ */
+export function createIndexedDbOfflineQueue(
+  factory: IDBFactory = indexedDB
+): OfflineQueue {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    db ??= new Promise((resolve, reject) => {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error(request.error?.message ?? "IndexedDB error"));
+    });
+    return db;
+  };
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE, mode).objectStore(STORE);
+
+  return {
+    async list(userId) {
+      const all = await promisify<PendingOperation[]>((await store("readonly")).getAll());
+      return all.filter((op) => op.userId === userId).sort(byQueuedAt);
+    },
+
+    async put(operation) {
+      await promisify((await store("readwrite")).put(operation));
+    },
+
+    async remove(id) {
+      await promisify((await store("readwrite")).delete(id));
+    },
+  };
+}
+
+/**
+ * createInMemoryOfflineQueue: Non-persistent queue for tests and environments
+ * without IndexedDB.
+ */
+export function createInMemoryOfflineQueue(
+  seed: PendingOperation[] = []
+): OfflineQueue {
+  const operations = new Map(seed.map((op) => [op.id, op]));
+
+  return {
+    async list(userId) {
+      return [...operations.values()]
+        .filter((op) => op.userId === userId)
+        .sort(byQueuedAt);
+    },
+
+    async put(operation) {
+      operations.set(operation.id, operation);
+    },
+
+    async remove(id) {
+      operations.delete(id);
+    },
+  };
+}
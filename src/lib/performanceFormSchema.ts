@@ -0,0 +1,37 @@
+// Zod for schema definitions and validation
+import * as z from "zod";
+import { LINE_TYPE_VALUES } from "./sales";
+
+/**
+ * Zod schema for one plan-sale line item.
+ */
+export const saleSchema = z.object({
+  // Plan name must not be empty
+  planName: z.string().trim().nonempty({ message: "Plan Name is required" }),
+  lineType: z.enum(LINE_TYPE_VALUES, { message: "Choose a line type" }),
+  mrc: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid dollar amount"),
+});
+
+/**
+ * Zod schema for validating the performance form inputs.
+ * Shared by the entry form and the per-row editor so both accept exactly the same values.
+ */
+export const performanceFormSchema = z.object({
+  // Date field must be non-empty and match YYYY-MM-DD
+  date: z
+    .string()
+    .nonempty({ message: "Date is required" })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Enter a valid date (YYYY-MM-DD)" }),
+  // Numeric fields must be whole numbers
+  voiceLines: z.string().regex(/^\d+$/, "Must be a whole number"),
+  bts: z.string().regex(/^\d+$/, "Must be a whole number"),
+  iot: z.string().regex(/^\d+$/, "Must be a whole number"),
+  hsi: z.string().regex(/^\d+$/, "Must be a whole number"),
+  // Dollar amount fields
+  accessories: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid dollar amount"),
+  protection: z.string().regex(/^\d+$/, "Must be a whole number"),
+  // Plan sales (line items); a day with only accessories may have none
+  sales: z.array(saleSchema),
+});
+// Infer TypeScript types from Zod schema
+export type PerformanceFormValues = z.infer<typeof performanceFormSchema>;
@@ -0,0 +1,69 @@
+/**
+ * planNames.ts
+ *
+ * Matching free-text plan names against the plan catalog.
+ * • `normalizePlanKey` reduces a name to a comparison key, so "Go5G Plus", "go5g+"
+ *   and "GO 5G PLUS" are recognised as the same plan.
+ * • `findLegacyNames` groups the plan names found in entries that are not exactly a
+ *   catalog name, with the catalog plan each group most likely means, for the
+ *   normalization/merge tool.
+ */
+import type { Plan } from "../types/plan";
+import type { PlanTotals } from "./summary";
+
+/**
+ * A set of legacy plan names that normalize to the same key.
+ */
+export type LegacyNameGroup = {
+  key: string;
+  names: PlanTotals[];         // Legacy names with their sale counts, most used first
+  suggestion?: Plan;           // Catalog plan with the same key, if any
+};
+
+/**
+ * normalizePlanKey: Lower case, "+" read as "plus", everything but letters and digits removed.
+ */
+export function normalizePlanKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\+/g, "plus")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * findCatalogPlan: The catalog plan a name refers to (same normalized key), if any.
+ */
+export function findCatalogPlan(name: string, plans: Plan[]): Plan | undefined {
+  const key = normalizePlanKey(name);
+  return plans.find((p) => normalizePlanKey(p.name) === key);
+}
+
+/**
+ * findLegacyNames: Groups the plan names used in entries that don't exactly match
+ * a catalog name.
+ * @param used - Plan names found in entries, with their sale counts
+ * @param plans - The plan catalog
+ */
+export function findLegacyNames(
+  used: PlanTotals[],
+  plans: Plan[]
+): LegacyNameGroup[] {
+  const catalogNames = new Set(plans.map((p) => p.name));
+  const groups = new Map<string, LegacyNameGroup>();
+
+  for (const plan of used) {
+    if (catalogNames.has(plan.planName)) continue;
+    const key = normalizePlanKey(plan.planName);
+    const group = groups.get(key) ?? {
+      key,
+      names: [],
+      suggestion: findCatalogPlan(plan.planName, plans),
+    };
+    group.names.push(plan);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map((g) => ({ ...g, names: g.names.sort((a, b) => b.saleCount - a.saleCount) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
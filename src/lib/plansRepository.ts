@@ -0,0 +1,132 @@
+/**
+ * plansRepository.ts
+ *
+ * Typed access to the `plans` catalog table, following the same pattern as
+ * entriesRepository.ts: one row mapping, a Supabase implementation and an
+ * in-memory implementation. The catalog is shared by every user.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Plan, PlanInput } from "../types/plan";
+
+/**
+ * PlanRow mirrors a row of the `plans` table as returned by PostgREST.
+ * `numeric` columns may arrive as strings.
+ */
+export type PlanRow = {
+  id: string;
+  name: string;
+  default_mrc: number | string;
+  active: boolean;
+};
+
+const PLAN_COLUMNS = "id, name, default_mrc, active";
+
+export interface PlansRepository {
+  /** Every plan (active and inactive), by name. */
+  list(): Promise<Plan[]>;
+  create(plan: PlanInput): Promise<Plan>;
+  update(id: string, plan: PlanInput): Promise<Plan>;
+}
+
+export function rowToPlan(row: PlanRow): Plan {
+  return {
+    id: row.id,
+    name: row.name,
+    defaultMrc: Number(row.default_mrc),
+    active: row.active,
+  };
+}
+
+export function planToRow(plan: PlanInput): Omit<PlanRow, "id"> {
+  return {
+    name: plan.name.trim(),
+    default_mrc: plan.defaultMrc,
+    active: plan.active,
+  };
+}
+
+const byName = (a: Plan, b: Plan) => a.name.localeCompare(b.name);
+
+// Names are unique regardless of case (the database enforces the same rule)
+const duplicateNameError = (name: string) =>
+  new Error(`A plan named "${name}" already exists`);
+
+/**
+ * createSupabasePlansRepository: Repository backed by the Supabase `plans` table.
+ */
+export function createSupabasePlansRepository(
+  client: SupabaseClient
+): PlansRepository {
+  // 23505 = unique_violation (the case-insensitive name index)
+  const toError = (error: { code?: string; message: string }, name: string) =>
+    error.code === "23505" ? duplicateNameError(name) : new Error(error.message);
+
+  return {
+    async list() {
+      const { data, error } = await client
+        .from("plans")
+        .select(PLAN_COLUMNS)
+        .order("name");
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as PlanRow[]).map(rowToPlan);
+    },
+
+    async create(plan) {
+      const { data, error } = await client
+        .from("plans")
+        .insert([planToRow(plan)])
+        .select(PLAN_COLUMNS)
+        .single();
+      if (error) throw toError(error, plan.name);
+      return rowToPlan(data as PlanRow);
+    },
+
+    async update(id, plan) {
+      const { data, error } = await client
+        .from("plans")
+        .update(planToRow(plan))
+        .eq("id", id)
+        .select(PLAN_COLUMNS)
+        .single();
+      if (error) throw toError(error, plan.name);
+      return rowToPlan(data as PlanRow);
+    },
+  };
+}
+
+/**
+ * createInMemoryPlansRepository: Repository that keeps plans in an array.
+ */
+export function createInMemoryPlansRepository(
+  seed: Plan[] = []
+): PlansRepository {
+  let plans = [...seed];
+
+  const assertUniqueName = (name: string, exceptId?: string) => {
+    const taken = plans.some(
+      (p) => p.id !== exceptId && p.name.toLowerCase() === name.trim().toLowerCase()
+    );
+    if (taken) throw duplicateNameError(name);
+  };
+
+  return {
+    async list() {
+      return [...plans].sort(byName);
+    },
+
+    async create(plan) {
+      assertUniqueName(plan.name);
+      const created = rowToPlan({ id: crypto.randomUUID(), ...planToRow(plan) });
+      plans.push(created);
+      return created;
+    },
+
+    async update(id, plan) {
+      if (!plans.some((p) => p.id === id)) throw new Error(`Plan ${id} not found`);
+      assertUniqueName(plan.name, id);
+      const updated = rowToPlan({ id, ...planToRow(plan) });
+      plans = plans.map((p) => (p.id === id ? updated : p));
+      return updated;
+    },
+  };
+}
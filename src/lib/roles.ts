@@ -0,0 +1,42 @@
+/**
+ * roles.ts
+ *
+ * Role-based permissions, shared by the client (to hide what a user can't do) and
+ * the /api functions (to refuse it). The database enforces the same rules with
+ * row-level security on the `appRole` claim.
+ * • rep      manages their own entries
+ * • manager  also reads their team's figures
+ * • admin    also bulk-deletes entries, assigns reps to teams and manages the catalogs
+ *            (plans, commission rules)
+ */
+
+export type Role = "rep" | "manager" | "admin";
+
+export type Permission =
+  | "entries:clear"      // Bulk-delete entries (Clear Database)
+  | "catalog:manage"     // Edit the plan catalog and commission rules
+  | "team:read"          // Teams, leaderboard & reps' entries
+  | "team:assign";       // Add reps to teams and take them off
+
+// Roles allowed each permission
+const PERMISSION_ROLES: Record<Permission, readonly Role[]> = {
+  "entries:clear": ["admin"],
+  "catalog:manage": ["admin"],
+  "team:read": ["manager", "admin"],
+  "team:assign": ["admin"],
+};
+
+/**
+ * parseRole: Reads the `appRole` claim. Tokens issued before roles existed (or with
+ * an unknown value) get the least privileged role.
+ */
+export function parseRole(value: unknown): Role {
+  return value === "manager" || value === "admin" ? value : "rep";
+}
+
+/**
+ * can: Whether `role` has `permission`.
+ */
+export function can(role: Role, permission: Permission): boolean {
+  return PERMISSION_ROLES[permission].includes(role);
+}
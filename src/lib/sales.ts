@@ -0,0 +1,84 @@
+/**
+ * sales.ts
+ *
+ * Helpers for the plan-sale line items of an entry.
+ * • Line types with their display labels, in the same order as the line metrics.
+ * • Per-entry MRC totals.
+ * • A compact one-cell text form ("Magenta MAX (Voice) $85.00; Go5G (HSI) $50.00")
+ *   used by the CSV export and read back by the CSV import.
+ */
+import type { Entry, LineType, Sale } from "../types/entry";
+
+// Every line type, for validation
+export const LINE_TYPE_VALUES: readonly [LineType, ...LineType[]] = [
+  "voice",
+  "bts",
+  "iot",
+  "hsi",
+];
+
+// Line type labels, in display order
+export const LINE_TYPES: ReadonlyArray<readonly [LineType, string]> = [
+  ["voice", "Voice"],
+  ["bts", "BTS"],
+  ["iot", "IOT"],
+  ["hsi", "HSI"],
+];
+
+/**
+ * lineTypeLabel: Display label for a line type ("voice" → "Voice").
+ */
+export function lineTypeLabel(lineType: LineType): string {
+  return LINE_TYPES.find(([value]) => value === lineType)?.[1] ?? lineType;
+}
+
+/**
+ * parseLineType: Reads a line type from its value or label, case-insensitively.
+ * Returns undefined for anything else.
+ */
+export function parseLineType(text: string): LineType | undefined {
+  const normalized = text.trim().toLowerCase();
+  return LINE_TYPES.find(
+    ([value, label]) => value === normalized || label.toLowerCase() === normalized
+  )?.[0];
+}
+
+/**
+ * saleMrcTotal: Sum of the MRC of every sale in an entry.
+ */
+export function saleMrcTotal(entry: Pick<Entry, "sales">): number {
+  return entry.sales.reduce((total, sale) => total + Number(sale.mrc), 0);
+}
+
+/**
+ * formatSale: One sale as "Plan (Type) $MRC".
+ */
+export function formatSale(sale: Sale): string {
+  return `${sale.planName} (${lineTypeLabel(sale.lineType)}) $${Number(sale.mrc).toFixed(2)}`;
+}
+
+/**
+ * formatSales: Every sale of an entry in one cell, separated by "; ".
+ */
+export function formatSales(sales: Sale[]): string {
+  return sales.map(formatSale).join("; ");
+}
+
+// "Plan (Type) $MRC"; the dollar sign and thousands separators are optional
+const SALE_PATTERN = /^(.+?)\s*\(([^()]+)\)\s*\$?\s*([\d,]+(?:\.\d+)?)$/;
+
+/**
+ * parseSales: Reads the text produced by `formatSales`.
+ * Returns null when any item doesn't match; an empty cell is no sales.
+ */
+export function parseSales(text: string): Sale[] | null {
+  const items = text.split(";").map((item) => item.trim()).filter(Boolean);
+  const sales: Sale[] = [];
+  for (const item of items) {
+    const match = SALE_PATTERN.exec(item);
+    const lineType = match && parseLineType(match[2]);
+    if (!match || !lineType) return null;
+    sales.push({ planName: match[1], lineType, mrc: match[3].replace(/,/g, "") });
+  }
+  return sales;
+}
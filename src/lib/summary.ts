@@ -0,0 +1,166 @@
+/**
+ * summary.ts
+ *
+ * The Summary Statistics calculations, shared by the dashboard cards, goal tracking
+ * and anything else that needs period totals.
+ * • Works from per-day totals (`DailyTotals`), which the database aggregates over the
+ *   full dataset, so summaries never depend on how many entries the table has loaded.
+ * • `summarizeEntries` covers the cases that do hold every entry in memory.
+ * • MRC is averaged per plan sale (line item), not per entry; the plan mix breaks
+ *   the sales down by plan.
+ * All outputs are plain numbers.
+ */
+import type { Entry } from "../types/entry";
+import { saleMrcTotal } from "./sales";
+
+/**
+ * Sums for every entry on one date (one row of `entry_daily_totals`).
+ */
+export type DailyTotals = {
+  date: string;
+  entryCount: number;
+  voiceLines: number;
+  bts: number;
+  iot: number;
+  hsi: number;
+  accessories: number;
+  protection: number;
+  saleCount: number;        // Plan sales (line items) across the day's entries
+  mrcTotal: number;         // Sum of sale MRC, so averages can be taken over any set of days
+};
+
+export type EntrySummary = {
+  entryCount: number;
+  totalVoiceLines: number;
+  totalBts: number;
+  totalIot: number;
+  totalHsi: number;
+  totalLines: number;         // Combined total of all line metrics
+  totalAccessories: number;   // Accessories revenue ($)
+  totalProtection: number;    // Protection packages sold
+  protectionRate: number;     // totalProtection / totalLines * 100 (0 when no lines)
+  saleCount: number;          // Plan sales (line items)
+  totalMrc: number;           // Sum of sale MRC ($)
+  averageMrc: number;         // Average monthly recurring charge per sale
+};
+
+/**
+ * Sales of one plan over a period (one row of `entry_plan_mix`).
+ */
+export type PlanTotals = {
+  planName: string;
+  saleCount: number;
+  mrcTotal: number;
+};
+
+/**
+ * One row of the plan-mix breakdown.
+ */
+export type PlanMixItem = PlanTotals & {
+  share: number;              // saleCount / all sales * 100
+  averageMrc: number;         // mrcTotal / saleCount
+};
+
+/**
+ * toDailyTotals: Aggregates in-memory entries into per-day totals, oldest day first.
+ */
+export function toDailyTotals(entries: Entry[]): DailyTotals[] {
+  const byDate = new Map<string, DailyTotals>();
+  for (const e of entries) {
+    const day = byDate.get(e.date) ?? {
+      date: e.date,
+      entryCount: 0,
+      voiceLines: 0,
+      bts: 0,
+      iot: 0,
+      hsi: 0,
+      accessories: 0,
+      protection: 0,
+      saleCount: 0,
+      mrcTotal: 0,
+    };
+    day.entryCount += 1;
+    day.voiceLines += Number(e.voiceLines);
+    day.bts += Number(e.bts);
+    day.iot += Number(e.iot);
+    day.hsi += Number(e.hsi);
+    day.accessories += Number(e.accessories);
+    day.protection += Number(e.protection);
+    day.saleCount += e.sales.length;
+    day.mrcTotal += saleMrcTotal(e);
+    byDate.set(e.date, day);
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * summarizeTotals: Computes every Summary Statistics metric from per-day totals.
+ */
+export function summarizeTotals(days: DailyTotals[]): EntrySummary {
+  const sum = (pick: (d: DailyTotals) => number) =>
+    days.reduce((total, d) => total + pick(d), 0);
+
+  const entryCount = sum((d) => d.entryCount);
+  const totalVoiceLines = sum((d) => d.voiceLines);
+  const totalBts = sum((d) => d.bts);
+  const totalIot = sum((d) => d.iot);
+  const totalHsi = sum((d) => d.hsi);
+  const totalLines = totalVoiceLines + totalBts + totalIot + totalHsi;
+  const totalProtection = sum((d) => d.protection);
+  const saleCount = sum((d) => d.saleCount);
+  const totalMrc = sum((d) => d.mrcTotal);
+
+  return {
+    entryCount,
+    totalVoiceLines,
+    totalBts,
+    totalIot,
+    totalHsi,
+    totalLines,
+    totalAccessories: sum((d) => d.accessories),
+    totalProtection,
+    protectionRate: totalLines > 0 ? (totalProtection / totalLines) * 100 : 0,
+    saleCount,
+    totalMrc,
+    averageMrc: saleCount > 0 ? totalMrc / saleCount : 0,
+  };
+}
+
+/**
+ * summarizeEntries: Computes every Summary Statistics metric for a list of entries.
+ */
+export function summarizeEntries(entries: Entry[]): EntrySummary {
+  return summarizeTotals(toDailyTotals(entries));
+}
+
+/**
+ * toPlanTotals: Aggregates the sales of in-memory entries by plan name.
+ */
+export function toPlanTotals(entries: Entry[]): PlanTotals[] {
+  const byPlan = new Map<string, PlanTotals>();
+  for (const sale of entries.flatMap((e) => e.sales)) {
+    const plan = byPlan.get(sale.planName) ?? {
+      planName: sale.planName,
+      saleCount: 0,
+      mrcTotal: 0,
+    };
+    plan.saleCount += 1;
+    plan.mrcTotal += Number(sale.mrc);
+    byPlan.set(sale.planName, plan);
+  }
+  return [...byPlan.values()];
+}
+
+/**
+ * summarizePlanMix: Share of sales and average MRC per plan, most sold first.
+ */
+export function summarizePlanMix(plans: PlanTotals[]): PlanMixItem[] {
+  const totalSales = plans.reduce((total, p) => total + p.saleCount, 0);
+  return plans
+    .map((p) => ({
+      ...p,
+      share: totalSales > 0 ? (p.saleCount / totalSales) * 100 : 0,
+      averageMrc: p.saleCount > 0 ? p.mrcTotal / p.saleCount : 0,
+    }))
+    .sort((a, b) => b.saleCount - a.saleCount || a.planName.localeCompare(b.planName));
+}
@@ -4,8 +4,20 @@
  * Initializes and exports a single Supabase client instance for use throughout the app.
  * • Reads the project URL and anon key from environment variables.
  * • Throws an error at startup if either variable is missing, preventing hard-to-debug runtime failures.
+ * • Sends the signed-in user's JWT (from /api/login) with every request, so row-level
+ *   security scopes all reads and writes to that user. Falls back to the anon key when signed out.
+ * • Exports the app-wide repositories (entries, goals, plans, commission rules, teams, audit log,
+ *   tips) bound to this client.
  */
 import { createClient } from '@supabase/supabase-js'
+import { getStoredToken } from '@/lib/auth'
+import { createSupabaseEntriesRepository } from '@/lib/entriesRepository'
+import { createSupabaseGoalsRepository } from '@/lib/goalsRepository'
+import { createSupabasePlansRepository } from '@/lib/plansRepository'
+import { createSupabaseCommissionRulesRepository } from '@/lib/commissionRulesRepository'
+import { createSupabaseTeamsRepository } from '@/lib/teamsRepository'
+import { createSupabaseAuditLogRepository } from '@/lib/auditLogRepository'
+import { createSupabaseTipsRepository } from '@/lib/tipsRepository'
 
 // Read Supabase URL and anonymous public key from Vite env variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL!
@@ -19,4 +31,27 @@ if (!supabaseUrl || !supabaseKey) {
 }
 
 // Create and export the Supabase client for CRUD operations
-export const supabase = createClient(supabaseUrl, supabaseKey)
+export const supabase = createClient(supabaseUrl, supabaseKey, {
+  accessToken: async () => getStoredToken(),
+})
+
+// Repository the UI uses for every read/write on the `entries` table
+export const entriesRepository = createSupabaseEntriesRepository(supabase)
+
+// Repository for monthly quota goals
+export const goalsRepository = createSupabaseGoalsRepository(supabase)
+
+// Repository for the shared plan catalog
+export const plansRepository = createSupabasePlansRepository(supabase)
+
+// Repository for the versioned commission rules (comp plan)
+export const commissionRulesRepository = createSupabaseCommissionRulesRepository(supabase)
+
+// Repository for the manager's teams and their reps' figures
+export const teamsRepository = createSupabaseTeamsRepository(supabase)
+
+// Repository for the (read-only) entry audit log
+export const auditLogRepository = createSupabaseAuditLogRepository(supabase)
+
+// Repository for the Tip of the Day history & feedback
+export const tipsRepository = createSupabaseTipsRepository(supabase)
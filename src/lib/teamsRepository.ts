@@ -0,0 +1,208 @@
+/**
+ * teamsRepository.ts
+ *
+ * Typed access to a store manager's teams and their reps' figures, following the
+ * same pattern as entriesRepository.ts (Supabase and in-memory implementations).
+ * • Teams and memberships are only visible to the manager who owns them (and admins).
+ * • Only admins add reps to teams or take them off; the database refuses anyone else.
+ * • Reps' totals and entries come from `team_daily_totals` / `team_member_entries`,
+ *   which check that the caller manages the team and that an admin assigned the rep;
+ *   the `entries` table itself stays owner-only.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StoredEntry } from "../types/entry";
+import type { Team, TeamMember } from "../types/team";
+import { isInRange, type DateRange } from "./dateRange";
+import {
+  rowToDailyTotals,
+  rowToEntry,
+  type DailyTotalsRow,
+  type EntryRow,
+} from "./entriesRepository";
+import { toDailyTotals, type DailyTotals } from "./summary";
+
+/**
+ * TeamRow mirrors a `teams` row with its embedded `team_members`.
+ */
+type TeamRow = {
+  id: string;
+  name: string;
+  team_members: { user_id: string; display_name: string }[] | null;
+};
+
+const TEAM_COLUMNS = "id, name, team_members(user_id, display_name)";
+
+/**
+ * Per-day totals for one rep (one row of `team_daily_totals`).
+ */
+export type MemberDailyTotals = DailyTotals & { userId: string };
+
+export interface TeamsRepository {
+  /** Teams the caller manages (every team for admins), by name, members by display name. */
+  list(): Promise<Team[]>;
+  createTeam(name: string): Promise<Team>;
+  removeTeam(id: string): Promise<void>;
+  /** Adds a rep to the team, or renames them if they are already on it (admins only). */
+  addMember(teamId: string, member: TeamMember): Promise<void>;
+  /** Takes a rep off the team (admins only). */
+  removeMember(teamId: string, userId: string): Promise<void>;
+  /** Per-rep, per-day totals for every member of the team over `range`. */
+  memberDailyTotals(teamId: string, range?: DateRange): Promise<MemberDailyTotals[]>;
+  /** One member's entries over `range`, newest first. */
+  memberEntries(teamId: string, userId: string, range?: DateRange): Promise<StoredEntry[]>;
+}
+
+const byDisplayName = (a: TeamMember, b: TeamMember) =>
+  a.displayName.localeCompare(b.displayName);
+
+export function rowToTeam(row: TeamRow): Team {
+  return {
+    id: row.id,
+    name: row.name,
+    members: (row.team_members ?? [])
+      .map((m) => ({ userId: m.user_id, displayName: m.display_name }))
+      .sort(byDisplayName),
+  };
+}
+
+/**
+ * createSupabaseTeamsRepository: Repository backed by `teams` / `team_members`.
+ */
+export function createSupabaseTeamsRepository(client: SupabaseClient): TeamsRepository {
+  return {
+    async list() {
+      const { data, error } = await client.from("teams").select(TEAM_COLUMNS).order("name");
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as TeamRow[]).map(rowToTeam);
+    },
+
+    async createTeam(name) {
+      // manager_id defaults to the caller's JWT subject
+      const { data, error } = await client
+        .from("teams")
+        .insert({ name })
+        .select(TEAM_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return rowToTeam(data as TeamRow);
+    },
+
+    async removeTeam(id) {
+      const { error } = await client.from("teams").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+
+    async addMember(teamId, member) {
+      const { error } = await client.from("team_members").upsert(
+        { team_id: teamId, user_id: member.userId, display_name: member.displayName },
+        { onConflict: "team_id,user_id" }
+      );
+      if (error) throw new Error(error.message);
+    },
+
+    async removeMember(teamId, userId) {
+      const { error } = await client
+        .from("team_members")
+        .delete()
+        .eq("team_id", teamId)
+        .eq("user_id", userId);
+      if (error) throw new Error(error.message);
+    },
+
+    async memberDailyTotals(teamId, range = {}) {
+      const { data, error } = await client.rpc("team_daily_totals", {
+        p_team_id: teamId,
+        p_from: range.from ?? null,
+        p_to: range.to ?? null,
+      });
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as (DailyTotalsRow & { user_id: string })[]).map((row) => ({
+        ...rowToDailyTotals(row),
+        userId: row.user_id,
+      }));
+    },
+
+    async memberEntries(teamId, userId, range = {}) {
+      const { data, error } = await client.rpc("team_member_entries", {
+        p_team_id: teamId,
+        p_user_id: userId,
+        p_from: range.from ?? null,
+        p_to: range.to ?? null,
+      });
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as EntryRow[]).map(rowToEntry);
+    },
+  };
+}
+
+/**
+ * createInMemoryTeamsRepository: Repository that keeps teams in a Map and reads
+ * reps' figures from the given entry rows. The caller manages every team.
+ * @param seed - Teams to start with
+ * @param entryRows - Entries of every user (members' rows are reported)
+ */
+export function createInMemoryTeamsRepository(
+  seed: Team[] = [],
+  entryRows: EntryRow[] = []
+): TeamsRepository {
+  const teams = new Map(seed.map((t) => [t.id, { ...t, members: [...t.members] }]));
+
+  const findTeam = (id: string) => {
+    const team = teams.get(id);
+    if (!team) throw new Error(`Team ${id} not found`);
+    return team;
+  };
+
+  // Entries of one member inside the range
+  const memberRows = (team: Team, userId: string, range: DateRange) =>
+    team.members.some((m) => m.userId === userId)
+      ? entryRows.filter(
+          (r) => r.user_id === userId && !r.deleted_at && isInRange(r.date, range)
+        )
+      : [];
+
+  return {
+    async list() {
+      return [...teams.values()].sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async createTeam(name) {
+      const team: Team = { id: crypto.randomUUID(), name, members: [] };
+      teams.set(team.id, team);
+      return team;
+    },
+
+    async removeTeam(id) {
+      findTeam(id);
+      teams.delete(id);
+    },
+
+    async addMember(teamId, member) {
+      const team = findTeam(teamId);
+      team.members = [...team.members.filter((m) => m.userId !== member.userId), member].sort(
+        byDisplayName
+      );
+    },
+
+    async removeMember(teamId, userId) {
+      const team = findTeam(teamId);
+      team.members = team.members.filter((m) => m.userId !== userId);
+    },
+
+    async memberDailyTotals(teamId, range = {}) {
+      const team = findTeam(teamId);
+      return team.members.flatMap((m) =>
+        toDailyTotals(memberRows(team, m.userId, range).map(rowToEntry)).map((day) => ({
+          ...day,
+          userId: m.userId,
+        }))
+      );
+    },
+
+    async memberEntries(teamId, userId, range = {}) {
+      return memberRows(findTeam(teamId), userId, range)
+        .sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at))
+        .map(rowToEntry);
+    },
+  };
+}
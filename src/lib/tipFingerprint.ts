@@ -0,0 +1,32 @@
+/**
+ * tipFingerprint.ts
+ *
+ * Decides when the Tip of the Day is stale. The fingerprint rounds the figures the
+ * tip providers coach on into coarse bands, so it only changes when the data changed
+ * meaningfully (not with every routine entry):
+ * • protection attach rate, in 5-point bands
+ * • average MRC and accessory revenue per line, in $5 bands
+ * • each line category's share of all lines, in 10-point bands
+ * • sales volume, which only counts again each time the number of lines doubles
+ */
+import type { Entry } from "../types/entry";
+import { summarizeEntries } from "./summary";
+
+const band = (value: number, width: number) => Math.floor(value / width);
+
+/**
+ * tipFingerprint: A short string that stays the same while the entries tell the same story.
+ */
+export function tipFingerprint(entries: Entry[]): string {
+  if (entries.length === 0) return "empty";
+
+  const s = summarizeEntries(entries);
+  const share = (lines: number) => (s.totalLines > 0 ? band((lines / s.totalLines) * 100, 10) : 0);
+  return [
+    `v${Math.floor(Math.log2(s.totalLines + 1))}`,
+    `p${band(s.protectionRate, 5)}`,
+    `m${band(s.averageMrc, 5)}`,
+    `a${s.totalLines > 0 ? band(s.totalAccessories / s.totalLines, 5) : 0}`,
+    `mix${[s.totalVoiceLines, s.totalBts, s.totalIot, s.totalHsi].map(share).join(".")}`,
+  ].join("|");
+}
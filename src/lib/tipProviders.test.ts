@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { entry } from "../tests/fixtures";
+import type { Entry } from "../types/entry";
+import { NO_ENTRIES_TIP, createMockTipProvider, ruleBasedTip, withFallback } from "./tipProviders";
+
+// A day that is on target for everything, so a test only has to lower what it is about
+const strongDay = (overrides: Partial<Entry> = {}): Entry =>
+  entry("2026-10-19", {
+    voiceLines: "4",
+    bts: "1",
+    iot: "1",
+    hsi: "1",
+    accessories: "120",
+    protection: "3",
+    ...overrides,
+  });
+
+describe("withFallback", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("uses the primary provider while it works", async () => {
+    const primary = createMockTipProvider("Primary tip");
+    const fallback = createMockTipProvider("Fallback tip");
+    const entries = [strongDay()];
+
+    const result = await withFallback(primary, fallback).generateTip(entries);
+
+    expect(result.tip).toBe("Primary tip");
+    expect(primary.calls).toEqual([entries]);
+    expect(fallback.calls).toEqual([]);
+  });
+
+  it("asks the fallback with the same entries when the primary fails", async () => {
+    const primary = createMockTipProvider(new Error("down"));
+    const fallback = createMockTipProvider("Fallback tip");
+    const entries = [strongDay()];
+
+    const result = await withFallback(primary, fallback).generateReport(entries);
+
+    expect(result.fallbackReason).toBe("down");
+    expect(primary.calls).toEqual([entries]);
+    expect(fallback.calls).toEqual([entries]);
+  });
+});
+
+describe("ruleBasedTip", () => {
+  it("asks for entries when there are none", () => {
+    expect(ruleBasedTip([])).toBe(NO_ENTRIES_TIP);
+  });
+
+  it("pushes protection when the attach rate is low", () => {
+    expect(ruleBasedTip([strongDay({ protection: "0" })])).toMatch(/^🛡️ Protection is on 0%/);
+  });
+});
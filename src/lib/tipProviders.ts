@@ -0,0 +1,188 @@
+/**
+ * tipProviders.ts
+ *
+ * Where the coaching comes from (the Tip of the Day and the weekly coaching report),
+ * behind one `TipProvider` interface.
+ * • `createRuleBasedTipProvider`: an offline, deterministic coach that picks the most
+ *   useful tip from the entries' protection attach rate, line mix, MRC trend and
+ *   accessory revenue, and writes reports with `ruleBasedReport`. Needs no API key
+ *   or network.
+ * • `createMockTipProvider`: returns canned tips and records what it was asked, for tests.
+ * • `withFallback`: tries one provider and falls back to another when it fails.
+ * The OpenAI provider and the config that chooses between them live with the API
+ * routes (api/_lib/tipProvider.ts).
+ */
+import type { Entry } from "../types/entry";
+import { summarizeTotals, toDailyTotals, type DailyTotals } from "./summary";
+import { ruleBasedReport, type CoachingReport } from "./coachingReport";
+
+/**
+ * A tip and the provider that actually wrote it (after any fallback).
+ */
+export type GeneratedTip = {
+  tip: string;
+  provider: string;
+};
+
+/**
+ * A weekly coaching report and the provider that wrote it. `fallbackReason` is set
+ * when the configured provider failed and a fallback wrote it instead.
+ */
+export type GeneratedReport = {
+  report: CoachingReport;
+  provider: string;
+  fallbackReason?: string;
+};
+
+export interface TipProvider {
+  /** Name for logs and config ("openai", "rules", "mock"). */
+  readonly name: string;
+  /** A one-line tip for the entries (at least one). Rejects when no tip can be produced. */
+  generateTip(entries: Entry[]): Promise<GeneratedTip>;
+  /** A schema-valid coaching report for a week of entries. Rejects when none can be produced. */
+  generateReport(entries: Entry[]): Promise<GeneratedReport>;
+}
+
+// Shown when there is nothing to coach on yet
+export const NO_ENTRIES_TIP = "📊 Add at least one sales entry to get a personalized tip.";
+
+// Protection attach rate (%) below which the coach pushes protection
+const ATTACH_RATE_TARGET = 30;
+// Lines sold before the attach rate and line mix are worth coaching on
+const MIN_LINES = 5;
+// Relative MRC change between the earlier and the later half of the days that counts as a trend
+const MRC_TREND_THRESHOLD = 0.1;
+// Accessory revenue per line ($) below which the coach suggests accessories
+const ACCESSORIES_PER_LINE_TARGET = 15;
+
+const LINE_MIX: ReadonlyArray<readonly ["bts" | "iot" | "hsi", string, string]> = [
+  ["hsi", "HSI", "offer Home Internet to every customer with good coverage at home"],
+  ["bts", "BTS", "ask every voice customer about a watch or tablet line"],
+  ["iot", "IoT", "mention trackers and hotspots for family and travel needs"],
+];
+
+const percent = (value: number) => `${Math.round(value)}%`;
+const dollars = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * mrcTrend: Average MRC in the earlier and the later half of the days with sales,
+ * or null with fewer than two such days.
+ */
+function mrcTrend(days: DailyTotals[]): { earlier: number; later: number } | null {
+  const withSales = days.filter((d) => d.saleCount > 0);
+  if (withSales.length < 2) return null;
+  const middle = Math.floor(withSales.length / 2);
+  return {
+    earlier: summarizeTotals(withSales.slice(0, middle)).averageMrc,
+    later: summarizeTotals(withSales.slice(middle)).averageMrc,
+  };
+}
+
+/**
+ * ruleBasedTip: The coach's tip for the entries. Checks run in priority order and
+ * the first that applies wins, so the same entries always give the same tip.
+ */
+export function ruleBasedTip(entries: Entry[]): string {
+  if (entries.length === 0) return NO_ENTRIES_TIP;
+
+  const days = toDailyTotals(entries);
+  const s = summarizeTotals(days);
+
+  if (s.totalLines >= MIN_LINES && s.protectionRate < ATTACH_RATE_TARGET) {
+    return `🛡️ Protection is on ${percent(s.protectionRate)} of your ${s.totalLines} lines. Offer it with every new line to get above ${ATTACH_RATE_TARGET}%.`;
+  }
+
+  const trend = mrcTrend(days);
+  if (trend && trend.later < trend.earlier * (1 - MRC_TREND_THRESHOLD)) {
+    return `💲 Average MRC slipped from ${dollars(trend.earlier)} to ${dollars(trend.later)}. Lead with the premium plans before discussing cheaper options.`;
+  }
+
+  if (s.totalLines >= MIN_LINES) {
+    const totals = { bts: s.totalBts, iot: s.totalIot, hsi: s.totalHsi };
+    const missing = LINE_MIX.find(([key]) => totals[key] === 0);
+    if (missing) {
+      return `📶 No ${missing[1]} sold yet out of ${s.totalLines} lines: ${missing[2]}.`;
+    }
+  }
+
+  if (s.totalLines > 0 && s.totalAccessories / s.totalLines < ACCESSORIES_PER_LINE_TARGET) {
+    return `🎧 Accessories average ${dollars(s.totalAccessories / s.totalLines)} per line. Bundle a case and charger with each new phone.`;
+  }
+
+  if (trend && trend.later > trend.earlier * (1 + MRC_TREND_THRESHOLD)) {
+    return `📈 Average MRC is up from ${dollars(trend.earlier)} to ${dollars(trend.later)}. Keep leading with the plans that got you there.`;
+  }
+
+  return `✅ ${s.totalLines} lines with ${percent(s.protectionRate)} protection and a balanced line mix. Keep the same routine today.`;
+}
+
+/**
+ * createRuleBasedTipProvider: The offline coach as a TipProvider.
+ */
+export function createRuleBasedTipProvider(): TipProvider {
+  return {
+    name: "rules",
+    async generateTip(entries) {
+      return { tip: ruleBasedTip(entries), provider: "rules" };
+    },
+    async generateReport(entries) {
+      return { report: ruleBasedReport(entries), provider: "rules" };
+    },
+  };
+}
+
+/**
+ * Mock provider for tests: `calls` holds the entries of every request.
+ */
+export type MockTipProvider = TipProvider & { calls: Entry[][] };
+
+/**
+ * createMockTipProvider: Provider returning `tip` (a fixed string, or computed from
+ * the entries) and the rule-based report (or `report`). Pass an Error to make every
+ * call fail.
+ */
+export function createMockTipProvider(
+  tip: string | Error | ((entries: Entry[]) => string) = "🧪 Mock tip",
+  report?: CoachingReport
+): MockTipProvider {
+  const calls: Entry[][] = [];
+  return {
+    name: "mock",
+    calls,
+    async generateTip(entries) {
+      calls.push(entries);
+      if (tip instanceof Error) throw tip;
+      return { tip: typeof tip === "function" ? tip(entries) : tip, provider: "mock" };
+    },
+    async generateReport(entries) {
+      calls.push(entries);
+      if (tip instanceof Error) throw tip;
+      return { report: report ?? ruleBasedReport(entries), provider: "mock" };
+    },
+  };
+}
+
+/**
+ * withFallback: Uses `primary`, and `fallback` whenever `primary` fails.
+ */
+export function withFallback(primary: TipProvider, fallback: TipProvider): TipProvider {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    async generateTip(entries) {
+      try {
+        return await primary.generateTip(entries);
+      } catch (err: any) {
+        console.error(`${primary.name} tip error:`, err.message);
+        return fallback.generateTip(entries);
+      }
+    },
+    async generateReport(entries) {
+      try {
+        return await primary.generateReport(entries);
+      } catch (err: any) {
+        console.error(`${primary.name} report error:`, err.message);
+        return { ...(await fallback.generateReport(entries)), fallbackReason: err.message };
+      }
+    },
+  };
+}
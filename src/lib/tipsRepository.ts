@@ -0,0 +1,140 @@
+/**
+ * tipsRepository.ts
+ *
+ * Typed access to the `tips` table (Tip of the Day history and feedback), following
+ * the same pattern as entriesRepository.ts: one row mapping, a Supabase implementation
+ * and an in-memory implementation. Row-level security keeps every user to their own tips.
+ */
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Tip, TipFeedback, TipInput } from "../types/tip";
+
+/**
+ * TipRow mirrors a row of `tips`.
+ */
+export type TipRow = {
+  id: string;
+  tip_date: string;
+  tip: string;
+  provider: string;
+  fingerprint: string;
+  feedback: TipFeedback | null;
+  created_at: string;
+};
+
+const TIP_COLUMNS = "id, tip_date, tip, provider, fingerprint, feedback, created_at";
+
+const DEFAULT_HISTORY_LIMIT = 30;
+
+export interface TipsRepository {
+  /** The latest tip generated for `date`, or null. */
+  latest(date: string): Promise<Tip | null>;
+  create(tip: TipInput): Promise<Tip>;
+  /** Past tips, newest first. */
+  list(limit?: number): Promise<Tip[]>;
+  /** Rates a tip (null clears the rating). */
+  setFeedback(id: string, feedback: TipFeedback | null): Promise<Tip>;
+}
+
+export function rowToTip(row: TipRow): Tip {
+  return {
+    id: row.id,
+    date: row.tip_date,
+    text: row.tip,
+    provider: row.provider,
+    fingerprint: row.fingerprint,
+    feedback: row.feedback,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * createSupabaseTipsRepository: Repository backed by the Supabase `tips` table.
+ */
+export function createSupabaseTipsRepository(client: SupabaseClient): TipsRepository {
+  return {
+    async latest(date) {
+      const { data, error } = await client
+        .from("tips")
+        .select(TIP_COLUMNS)
+        .eq("tip_date", date)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? rowToTip(data as TipRow) : null;
+    },
+
+    async create(tip) {
+      const { data, error } = await client
+        .from("tips")
+        .insert({
+          tip_date: tip.date,
+          tip: tip.text,
+          provider: tip.provider,
+          fingerprint: tip.fingerprint,
+        })
+        .select(TIP_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return rowToTip(data as TipRow);
+    },
+
+    async list(limit = DEFAULT_HISTORY_LIMIT) {
+      const { data, error } = await client
+        .from("tips")
+        .select(TIP_COLUMNS)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as TipRow[]).map(rowToTip);
+    },
+
+    async setFeedback(id, feedback) {
+      const { data, error } = await client
+        .from("tips")
+        .update({ feedback, feedback_at: feedback ? new Date().toISOString() : null })
+        .eq("id", id)
+        .select(TIP_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return rowToTip(data as TipRow);
+    },
+  };
+}
+
+/**
+ * createInMemoryTipsRepository: Repository that keeps tips in an array.
+ */
+export function createInMemoryTipsRepository(seed: Tip[] = []): TipsRepository {
+  const tips = [...seed];
+  const newestFirst = () =>
+    [...tips].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    async latest(date) {
+      return newestFirst().find((t) => t.date === date) ?? null;
+    },
+
+    async create(tip) {
+      const created: Tip = {
+        ...tip,
+        id: crypto.randomUUID(),
+        feedback: null,
+        createdAt: new Date().toISOString(),
+      };
+      tips.push(created);
+      return created;
+    },
+
+    async list(limit = DEFAULT_HISTORY_LIMIT) {
+      return newestFirst().slice(0, limit);
+    },
+
+    async setFeedback(id, feedback) {
+      const index = tips.findIndex((t) => t.id === id);
+      if (index === -1) throw new Error(`Tip ${id} not found`);
+      tips[index] = { ...tips[index], feedback };
+      return tips[index];
+    },
+  };
+}
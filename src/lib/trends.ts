@@ -0,0 +1,53 @@
+/**
+ * trends.ts
+ *
+ * Buckets per-day totals by day or by week (Monday start) for the trend charts.
+ * Each bucket reuses summarizeTotals, so chart values always agree with the
+ * Summary Statistics for the same days.
+ */
+import { parseDateString, startOfWeek, toDateString } from "./dateRange";
+import { summarizeTotals, type DailyTotals } from "./summary";
+
+export type TrendGranularity = "day" | "week";
+
+export type TrendPoint = {
+  bucket: string;          // Day (YYYY-MM-DD) or the Monday starting the week
+  voiceLines: number;
+  bts: number;
+  iot: number;
+  hsi: number;
+  averageMrc: number;
+  protectionRate: number;  // Protection attach rate (%) within the bucket
+};
+
+/**
+ * buildTrendSeries: One point per day/week that has entries, oldest first.
+ */
+export function buildTrendSeries(
+  days: DailyTotals[],
+  granularity: TrendGranularity
+): TrendPoint[] {
+  const buckets = new Map<string, DailyTotals[]>();
+  for (const day of days) {
+    const bucket =
+      granularity === "week"
+        ? toDateString(startOfWeek(parseDateString(day.date)))
+        : day.date;
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), day]);
+  }
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([bucket, bucketDays]) => {
+      const s = summarizeTotals(bucketDays);
+      return {
+        bucket,
+        voiceLines: s.totalVoiceLines,
+        bts: s.totalBts,
+        iot: s.totalIot,
+        hsi: s.totalHsi,
+        averageMrc: Number(s.averageMrc.toFixed(2)),
+        protectionRate: Number(s.protectionRate.toFixed(1)),
+      };
+    });
+}
@@ -0,0 +1,156 @@
+// Default repository (Supabase-backed)
+import { auditLogRepository as defaultAuditLogRepository } from "@/lib/supabaseClient";
+import type { AuditLogRepository } from "@/lib/auditLogRepository";
+import type { AuditActor, AuditRecord } from "@/types/audit";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  describeRange,
+  resolvePeriod,
+  type DateRange,
+  type Period,
+} from "@/lib/dateRange";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PeriodSelector } from "@/components/period-selector";
+import { AuditLogTable } from "@/components/audit-log-table";
+
+/**
+ * Audit Log page.
+ * The history of every change to the entries the user may see (their own; their
+ * teams' for managers; all for admins), filterable by user and by date.
+ * @param auditLogRepository - The entry audit log (defaults to Supabase)
+ */
+export default function AuditLog({
+  auditLogRepository = defaultAuditLogRepository,
+}: {
+  auditLogRepository?: AuditLogRepository;
+}) {
+  const navigate = useNavigate();
+  const [actors, setActors] = useState<AuditActor[]>([]);
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Filters: user ("" = everyone) and the dates the changes were made on
+  const [userId, setUserId] = useState("");
+  const [period, setPeriod] = useState<Period>("week");
+  const [customRange, setCustomRange] = useState<DateRange>({});
+  const range = useMemo(
+    () => resolvePeriod(period, customRange),
+    [period, customRange]
+  );
+
+  // First page for the current filters
+  const reload = useCallback(async () => {
+    try {
+      const page = await auditLogRepository.list({ userId: userId || undefined, range });
+      setRecords(page.records);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("Audit log fetch error:", err.message);
+    }
+    setLoading(false);
+  }, [auditLogRepository, userId, range]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // People to filter by
+  useEffect(() => {
+    auditLogRepository
+      .actors()
+      .then(setActors)
+      .catch((err) => console.error("Audit actors fetch error:", err.message));
+  }, [auditLogRepository]);
+
+  /**
+   * handleLoadMore: Appends the next page of older changes.
+   */
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await auditLogRepository.list({
+        userId: userId || undefined,
+        range,
+        cursor: nextCursor,
+      });
+      setRecords((prev) => [...prev, ...page.records]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      console.error("Audit log fetch error:", err.message);
+      alert("Could not load more changes:\n" + err.message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading…</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-800 to-gray-200 p-6">
+      {/* ➡️ Top Nav */}
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-tmagenta">AUDIT LOG</h1>
+        <Button
+          variant="outline"
+          onClick={() => navigate("/")}
+          className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+        >
+          Back to dashboard
+        </Button>
+      </div>
+
+      <Card className="rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="p-6">
+          <h2 className="mb-1 text-2xl font-semibold text-tmagenta">Entry Changes</h2>
+          <p className="mb-4 text-sm text-gray-500">
+            Every create, edit, delete, clear, restore and purge, newest first ·{" "}
+            {describeRange(range)}
+          </p>
+
+          {/* Filters */}
+          <div className="mb-4 flex flex-wrap items-center gap-4">
+            <select
+              value={userId}
+              aria-label="User"
+              onChange={(e) => setUserId(e.target.value)}
+              className="h-9 rounded-md border border-gray-300 bg-transparent px-2 text-sm text-tblack focus:border-tmagenta"
+            >
+              <option value="">All users</option>
+              {actors.map((actor) => (
+                <option key={actor.id} value={actor.id}>
+                  {actor.name}
+                </option>
+              ))}
+            </select>
+            <PeriodSelector
+              period={period}
+              customRange={customRange}
+              onPeriodChange={setPeriod}
+              onCustomRangeChange={setCustomRange}
+            />
+          </div>
+
+          <AuditLogTable records={records} actors={actors} />
+
+          {nextCursor && (
+            <Button
+              variant="outline"
+              disabled={loadingMore}
+              onClick={handleLoadMore}
+              className="mt-4 border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+            >
+              {loadingMore ? "Loading…" : "Load older changes"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
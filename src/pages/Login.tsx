@@ -0,0 +1,137 @@
+// React hook for component state
+import { useState } from "react";
+// React Hook Form for form state management
+import { useForm } from "react-hook-form";
+// Zod resolver to integrate schema validation
+import { zodResolver } from "@hookform/resolvers/zod";
+// Zod for schema definitions and validation
+import * as z from "zod";
+// Routing helpers from React Router
+import { Navigate, useLocation, useNavigate, type Location } from "react-router-dom";
+// Session state & actions
+import useAuth from "@/hooks/useAuth";
+// UI components
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+
+/**
+ * Zod schema for validating the login form inputs.
+ */
+const loginFormSchema = z.object({
+  username: z.string().nonempty({ message: "Username is required" }),
+  password: z.string().nonempty({ message: "Password is required" }),
+});
+type LoginFormValues = z.infer<typeof loginFormSchema>;
+
+/**
+ * Login page.
+ * Exchanges credentials for a JWT via the auth context, then returns the user
+ * to the page that sent them here (or the dashboard).
+ */
+export default function Login() {
+  const { login, isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Where ProtectedRoute found the user before redirecting here
+  const from = (location.state as { from?: Location } | null)?.from?.pathname || "/";
+
+  const [submitError, setSubmitError] = useState<string>("");
+
+  const formHook = useForm<LoginFormValues>({
+    resolver: zodResolver(loginFormSchema),
+    mode: "onChange",
+    defaultValues: { username: "", password: "" },
+  });
+
+  // Submit credentials; on success go back to the original destination
+  const onSubmit = formHook.handleSubmit(async ({ username, password }) => {
+    setSubmitError("");
+    try {
+      await login(username, password);
+      navigate(from, { replace: true });
+    } catch (err: any) {
+      setSubmitError(err.message);
+    }
+  });
+
+  // Already signed in (e.g. restored session): skip the form
+  if (isAuthenticated) {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-b from-gray-800 to-gray-200 p-6">
+      <Card className="w-full max-w-sm rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="space-y-6 p-6">
+          <h1 className="text-center text-3xl font-bold text-tmagenta">
+            PERFORMANCE TRACKER
+          </h1>
+          <Form {...formHook}>
+            <form onSubmit={onSubmit} className="space-y-4">
+              {/* Username */}
+              <FormField
+                control={formHook.control}
+                name="username"
+                render={({ field: hookField, fieldState }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        {...hookField}
+                        required
+                        type="text"
+                        autoComplete="username"
+                        placeholder="Username"
+                        className="border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+                      />
+                    </FormControl>
+                    <FormMessage>{fieldState.error?.message}</FormMessage>
+                  </FormItem>
+                )}
+              />
+
+              {/* Password */}
+              <FormField
+                control={formHook.control}
+                name="password"
+                render={({ field: hookField, fieldState }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        {...hookField}
+                        required
+                        type="password"
+                        autoComplete="current-password"
+                        placeholder="Password"
+                        className="border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+                      />
+                    </FormControl>
+                    <FormMessage>{fieldState.error?.message}</FormMessage>
+                  </FormItem>
+                )}
+              />
+
+              {/* Server-side error (e.g. invalid credentials) */}
+              {submitError && <FormMessage>{submitError}</FormMessage>}
+
+              <Button
+                type="submit"
+                disabled={!formHook.formState.isValid || formHook.formState.isSubmitting}
+                className="w-full bg-tmagenta text-twhite transition-colors hover:bg-tmagenta/90"
+              >
+                {formHook.formState.isSubmitting ? "Signing in…" : "Sign in"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,21 +1,110 @@
-// Import Supabase client for database operations
-import { supabase } from "@/lib/supabaseClient";
+// Default repositories (Supabase-backed)
+import {
+  entriesRepository,
+  goalsRepository as defaultGoalsRepository,
+  plansRepository as defaultPlansRepository,
+  commissionRulesRepository as defaultCommissionRulesRepository,
+  tipsRepository as defaultTipsRepository,
+} from "@/lib/supabaseClient";
+import {
+  EntryConflictError,
+  EntryRejectedError,
+  listAllEntries,
+  type EntriesRepository,
+} from "@/lib/entriesRepository";
+import type { GoalsRepository } from "@/lib/goalsRepository";
+import type { PlansRepository } from "@/lib/plansRepository";
+import type { CommissionRulesRepository } from "@/lib/commissionRulesRepository";
+import type { TipsRepository } from "@/lib/tipsRepository";
+import type { Entry, StoredEntry } from "@/types/entry";
+import type { Goal } from "@/types/goal";
+import type { Plan } from "@/types/plan";
+import type { CommissionRules } from "@/types/commission";
 // React hooks for component state & side effects
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 // React Hook Form for form state management
 import { useForm } from "react-hook-form";
 // Zod resolver to integrate schema validation
 import { zodResolver } from "@hookform/resolvers/zod";
-// Zod for schema definitions and validation
-import * as z from "zod";
+// Shared Zod schema for entry values
+import {
+  performanceFormSchema,
+  type PerformanceFormValues,
+} from "@/lib/performanceFormSchema";
 // Navigation hook from React Router
 import { useNavigate } from "react-router-dom";
+// Session state (JWT) & logout action
+import useAuth from "@/hooks/useAuth";
+// Loads the next page of entries when the table bottom scrolls into view
+import useInfiniteScroll from "@/hooks/useInfiniteScroll";
+// Writes made offline (or that failed) wait in IndexedDB and replay on reconnect
+import useOfflineQueue from "@/hooks/useOfflineQueue";
+// Today's coaching tip (cached per day), its history & feedback
+import useTipOfTheDay from "@/hooks/useTipOfTheDay";
+import { TipOfTheDay } from "@/components/tip-of-the-day";
+// Weekly coaching report (generated on demand)
+import useCoachingReport from "@/hooks/useCoachingReport";
+import { CoachingReport } from "@/components/coaching-report";
+// Ask-your-data questions
+import useAskData from "@/hooks/useAskData";
+import { AskData } from "@/components/ask-data";
+import {
+  createIndexedDbOfflineQueue,
+  type OfflineQueue,
+  type PendingOperation,
+} from "@/lib/offlineQueue";
 // UI components: Card layout
 import { Card, CardContent } from "@/components/ui/card";
 // UI component: Input fields
 import { Input } from "@/components/ui/input";
 // UI component: Button with variants
 import { Button } from "@/components/ui/button";
+// Reporting period helpers & selector
+import {
+  describeRange,
+  isInRange,
+  resolvePeriod,
+  toDateString,
+  type DateRange,
+  type Period,
+} from "@/lib/dateRange";
+import { PeriodSelector } from "@/components/period-selector";
+// Summary Statistics calculations & monthly goal tracking
+import {
+  summarizePlanMix,
+  summarizeTotals,
+  type DailyTotals,
+  type PlanTotals,
+} from "@/lib/summary";
+import { PlanMix } from "@/components/plan-mix";
+import { computeGoalProgress } from "@/lib/goalProgress";
+import { GoalProgress } from "@/components/goal-progress";
+import { GoalEditor } from "@/components/goal-editor";
+// Estimated commission from the versioned comp plan
+import {
+  commissionRange,
+  entryCommission,
+  periodCommission,
+} from "@/lib/commission";
+import { CommissionSummary } from "@/components/commission-summary";
+// CSV export of the current view
+import { csvFilename, entriesToCsv, summaryToCsv } from "@/lib/csvExport";
+import { downloadFile } from "@/lib/download";
+// Trend charts for the selected period
+import { TrendCharts } from "@/components/trend-charts";
+// Bulk CSV import flow
+import { EntryImport } from "@/components/entry-import";
+// Live change events merged into the loaded entries without duplicates
+import { applyEntryChange, upsertEntry } from "@/lib/entryChanges";
+// Plan-sale line items (form rows & display helpers)
+import { SalesFields } from "@/components/sales-fields";
+import { formatSale, saleMrcTotal } from "@/lib/sales";
+// Inline editor for a single All Entries row
+import { EntryRowEditor } from "@/components/entry-row-editor";
+// Timed "Undo" after moving entries to the trash
+import { UndoToast } from "@/components/undo-toast";
+// Status & actions for queued (pending, conflicting or refused) writes
+import { QueuedStatus } from "@/components/queued-status";
 // Form primitives for building accessible forms
 import {
   Form,
@@ -25,54 +114,75 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 
-/**
- * Entry represents a single day's sales data in the UI.
- */
-type Entry = {
-  date: string;          // Entry date (YYYY-MM-DD)
-  voiceLines: string;    // Number of voice lines sold
-  bts: string;           // Number of BTS units sold
-  iot: string;           // Number of IoT units sold
-  hsi: string;           // Number of HSI units sold
-  accessories: string;   // Accessories revenue ($) as string
-  protection: string;    // Protection packages sold
-  planName: string;      // Name of the plan
-  mrc: string;           // Monthly Recurring Charge ($) as string
-};
+// Live changes arriving within this window trigger a single totals refresh (ms)
+const LIVE_TOTALS_DELAY = 500;
 
-/**
- * Zod schema for validating the performance form inputs.
- */
-const performanceFormSchema = z.object({
-  // Date field must be non-empty and match YYYY-MM-DD
-  date: z
-    .string()
-    .nonempty({ message: "Date is required" })
-    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Enter a valid date (YYYY-MM-DD)" }),
-  // Numeric fields must be whole numbers
-  voiceLines: z.string().regex(/^\d+$/, "Must be a whole number"),
-  bts: z.string().regex(/^\d+$/, "Must be a whole number"),
-  iot: z.string().regex(/^\d+$/, "Must be a whole number"),
-  hsi: z.string().regex(/^\d+$/, "Must be a whole number"),
-  // Dollar amount fields
-  accessories: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid dollar amount"),
-  protection: z.string().regex(/^\d+$/, "Must be a whole number"),
-  // Plan name must not be empty
-  planName: z.string().nonempty({ message: "Plan Name is required" }),
-  mrc: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a valid dollar amount"),
-});
-// Infer TypeScript types from Zod schema
-type PerformanceFormValues = z.infer<typeof performanceFormSchema>;
+// Browser-persisted queue for writes that could not be sent yet
+const defaultOfflineQueue = createIndexedDbOfflineQueue();
+
+// Data cells shared by stored and pending rows of the All Entries table
+const entryCells = (ent: Entry, rules: CommissionRules[]) => {
+  // Base commission only; accelerators are earned against the whole month
+  const commission = entryCommission(ent, rules);
+  return (
+    <>
+      <td className="px-4 py-2 text-sm text-tblack">{ent.date}</td>
+      <td className="px-4 py-2 text-sm text-tblack">{ent.voiceLines}</td>
+      <td className="px-4 py-2 text-sm text-tblack">{ent.bts}</td>
+      <td className="px-4 py-2 text-sm text-tblack">{ent.iot}</td>
+      <td className="px-4 py-2 text-sm text-tblack">{ent.hsi}</td>
+      <td className="px-4 py-2 text-sm text-tblack">${Number(ent.accessories).toFixed(2)}</td>
+      <td className="px-4 py-2 text-sm text-tblack">{ent.protection}</td>
+      <td className="px-4 py-2 text-sm text-tblack">
+        {ent.sales.length > 0 ? (
+          <ul>
+            {ent.sales.map((sale, i) => (
+              <li key={i}>{formatSale(sale)}</li>
+            ))}
+          </ul>
+        ) : (
+          "—"
+        )}
+      </td>
+      <td className="px-4 py-2 text-sm text-tblack">${saleMrcTotal(ent).toFixed(2)}</td>
+      <td className="px-4 py-2 text-sm text-tblack">
+        {commission ? `$${commission.total.toFixed(2)}` : "—"}
+      </td>
+    </>
+  );
+};
 
 /**
  * Main PerformanceTracker component.
  * Renders the form, table, summary stats, and handles data fetching & submission.
+ * @param repository - Where entries are read from and written to (defaults to Supabase)
+ * @param goalsRepository - Where monthly goals are read from and written to (defaults to Supabase)
+ * @param plansRepository - Plan catalog offered by the plan pickers (defaults to Supabase)
+ * @param commissionRulesRepository - Comp plan versions for commission estimates (defaults to Supabase)
+ * @param tipsRepository - Tip of the Day history & feedback (defaults to Supabase)
+ * @param offlineQueue - Where unsent writes wait for the connection (defaults to IndexedDB)
  */
-export default function PerformanceTracker() {
+export default function PerformanceTracker({
+  repository = entriesRepository,
+  goalsRepository = defaultGoalsRepository,
+  plansRepository = defaultPlansRepository,
+  commissionRulesRepository = defaultCommissionRulesRepository,
+  tipsRepository = defaultTipsRepository,
+  offlineQueue = defaultOfflineQueue,
+}: {
+  repository?: EntriesRepository;
+  goalsRepository?: GoalsRepository;
+  plansRepository?: PlansRepository;
+  commissionRulesRepository?: CommissionRulesRepository;
+  tipsRepository?: TipsRepository;
+  offlineQueue?: OfflineQueue;
+}) {
   // React Router navigate function
   const navigate = useNavigate();
-  // Default 'today' date in YYYY-MM-DD format
-  const today = new Date().toISOString().split("T")[0];
+  // Current session token, role check & logout action
+  const { token, user, can, logout } = useAuth();
+  // Default 'today' date in YYYY-MM-DD format (local, like the period ranges)
+  const today = toDateString(new Date());
 
   // 1️⃣ Set up React Hook Form with Zod validation
   const formHook = useForm<PerformanceFormValues>({
@@ -86,136 +196,295 @@ export default function PerformanceTracker() {
       hsi: "",
       accessories: "",
       protection: "",
-      planName: "",
-      mrc: "",
+      sales: [{ planName: "", lineType: "voice", mrc: "" }],
     },
   });
 
-  // 2️⃣ Component state: entries list & loading flag
-  const [entries, setEntries] = useState<Entry[]>([]);
+  // 2️⃣ Component state: loaded pages of entries, pagination cursor & loading flags
+  const [entries, setEntries] = useState<StoredEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Per-day totals over ALL entries in the period (summary & charts use these, not the loaded pages)
+  const [dailyTotals, setDailyTotals] = useState<DailyTotals[]>([]);
+  // Sales per plan over ALL entries in the period (plan-mix breakdown)
+  const [planTotals, setPlanTotals] = useState<PlanTotals[]>([]);
+  // Bumped after every write so the totals are re-aggregated
+  const [dataVersion, setDataVersion] = useState(0);
+  const refreshTotals = () => setDataVersion((v) => v + 1);
+  // Bumped when queued writes were replayed, so the first page is fetched again
+  const [pageVersion, setPageVersion] = useState(0);
+  // Id of the All Entries row currently being edited (null when none)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Plan catalog for the plan pickers
+  const [plans, setPlans] = useState<Plan[]>([]);
+  // Whether the CSV import panel is open
+  const [isImporting, setIsImporting] = useState(false);
+  // The last delete, while it can still be undone from the toast
+  const [undoable, setUndoable] = useState<{
+    message: string;
+    undo: () => Promise<void>;
+  } | null>(null);
+  const dismissUndo = useCallback(() => setUndoable(null), []);
+
+  // Selected reporting period; drives the query, the summary and the table
+  const [period, setPeriod] = useState<Period>("month");
+  const [customRange, setCustomRange] = useState<DateRange>({});
+  const range = useMemo(
+    () => resolvePeriod(period, customRange),
+    [period, customRange]
+  );
+  // Latest range, so a page that arrives after the period changed can be discarded
+  const rangeRef = useRef(range);
+  rangeRef.current = range;
+  // Whether every entry of the period is loaded (read by the live-updates subscription)
+  const isCompleteRef = useRef(true);
+  isCompleteRef.current = nextCursor === null;
+
+  // Monthly goal for the current month, month-to-date totals & editor toggle
+  const monthRange = useMemo(() => resolvePeriod("month"), []);
+  const [goal, setGoal] = useState<Goal | null>(null);
+  const [monthTotals, setMonthTotals] = useState<DailyTotals[]>([]);
+  const [isEditingGoals, setIsEditingGoals] = useState(false);
+
+  // Comp plan versions, plus what the period's commission needs beyond the period totals:
+  // per-day totals from the first of the month (accelerators count month-to-date) and
+  // the monthly voice-line quotas
+  const [commissionRules, setCommissionRules] = useState<CommissionRules[]>([]);
+  const earningsRange = useMemo(() => commissionRange(range), [range]);
+  const [monthStartTotals, setMonthStartTotals] = useState<DailyTotals[]>([]);
+  const [quotaGoals, setQuotaGoals] = useState<Goal[]>([]);
 
-  // 3️⃣ State for Tip of the Day feature
-  const [tip, setTip] = useState<string>("");
-  const [isLoadingTip, setIsLoadingTip] = useState<boolean>(false);
+  // Queued (offline / failed) writes; a successful replay reloads the table & totals
+  const {
+    operations: pendingOperations,
+    isOnline,
+    isSyncing,
+    enqueue,
+    resolveConflict,
+    resolveFailure,
+  } = useOfflineQueue(offlineQueue, repository, user?.sub ?? null, () => {
+    setPageVersion((v) => v + 1);
+    refreshTotals();
+  });
+
+  // 3️⃣ Tip of the Day: reused for the day until the entries change meaningfully
+  const tipOfTheDay = useTipOfTheDay(entries, tipsRepository, token);
+  // Weekly coaching report for the last 7 days
+  const coachingReport = useCoachingReport(repository, token);
+  const askData = useAskData(token);
+
+  // 4️⃣ Fetch the first page of entries for the selected period (on mount and whenever it changes)
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const page = await repository.listPage({ range });
+        if (!cancelled) {
+          setEntries(page.entries);
+          setNextCursor(page.nextCursor);
+        }
+      } catch (err: any) {
+        console.error("Fetch error:", err.message);
+      }
+      if (!cancelled) setLoading(false);
+    })();
+    // Ignore a slow response once the user has picked another period
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, range, pageVersion]);
 
-  // 4️⃣ Fetch existing entries from Supabase on mount
+  // Fetch the period's per-day totals & plan mix (again after every write)
   useEffect(() => {
+    let cancelled = false;
     (async () => {
-      // fetch rows without a bad generic
-      const { data, error } = await supabase
-        .from("entries")
-        .select("date, lines, accessories, protection, revenue, plan_name, created_at")
-        .order("created_at", { ascending: false })
-        .limit(100);
-
-      // Handle fetch error & map rows into our UI type
-      if (error) {
-        console.error("Fetch error:", error.message);
-      } else {
-      // cast `data` into our expected row shape
-      type Row = {
-        date: string;
-        lines: number;
-        accessories: number;
-        protection: number;
-        revenue: number;
-        plan_name: string;
-        created_at: string;
-      };
-      const rows = (data ?? []) as Row[];
-      const mapped = rows.map(row => ({  
-          date: row.date,
-          voiceLines: String(row.lines), // total lines from DB
-          bts: "0", // placeholder until multi-line supported
-          iot: "0",
-          hsi: "0",
-          accessories: String(row.accessories),
-          protection: String(row.protection),
-          planName: row.plan_name,
-          mrc: String(row.revenue),
-        }));
-        setEntries(mapped);
+      try {
+        const [totals, plans] = await Promise.all([
+          repository.dailyTotals(range),
+          repository.planMix(range),
+        ]);
+        if (!cancelled) {
+          setDailyTotals(totals);
+          setPlanTotals(plans);
+        }
+      } catch (err: any) {
+        console.error("Totals fetch error:", err.message);
       }
-      setLoading(false);
     })();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, range, dataVersion]);
 
- /**
-   * fetchTip: Calls the AI endpoint to generate a personalized sales tip based on current entries.
-   * @param entries - Array of Entry objects representing daily sales data
+  // Live updates: apply inserts, updates and deletes from any device (including this one)
+  // to the table and Latest Entry card, then re-aggregate the totals once things settle
+  useEffect(() => {
+    let totalsTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = repository.subscribe((change) => {
+      setEntries((prev) =>
+        applyEntryChange(prev, change, rangeRef.current, isCompleteRef.current)
+      );
+      clearTimeout(totalsTimer);
+      totalsTimer = setTimeout(
+        () => setDataVersion((v) => v + 1),
+        LIVE_TOTALS_DELAY
+      );
+    });
+    return () => {
+      clearTimeout(totalsTimer);
+      unsubscribe();
+    };
+  }, [repository]);
+
+  /**
+   * loadMore: Appends the next page of entries to the table.
    */
-  // fetchTip helper
-  async function fetchTip(entries: Entry[]) {
-    setIsLoadingTip(true);
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const requestedRange = range;
+    setIsLoadingMore(true);
     try {
-      const token = localStorage.getItem("authToken") || "";
-      const res = await fetch("/api/generateTip", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ entries }),
-      });
-      const raw = await res.text();
-      if (!res.ok) throw new Error(raw);
-      const data = JSON.parse(raw);
-      setTip(data.tip || "(no tip)");
+      const page = await repository.listPage({ range, cursor: nextCursor });
+      if (rangeRef.current === requestedRange) {
+        setEntries((prev) => [...prev, ...page.entries]);
+        setNextCursor(page.nextCursor);
+      }
     } catch (err: any) {
-      setTip(`Error: ${err.message}`);
+      console.error("Fetch error:", err.message);
     } finally {
-      setIsLoadingTip(false);
+      setIsLoadingMore(false);
     }
-  }
+  }, [repository, range, nextCursor, isLoadingMore]);
+
+  // Infinite scroll: load the next page when the sentinel below the table comes into view
+  const loadMoreRef = useInfiniteScroll<HTMLDivElement>(
+    loadMore,
+    !loading && nextCursor !== null && !isLoadingMore
+  );
 
-  // 5️⃣ Re-fetch tip whenever the entries array updates
+  // Load the plan catalog once
   useEffect(() => {
-    if (entries.length > 0) {
-      fetchTip(entries);
-    } else {
-      setTip("📊 Add at least one sales entry to get a personalized tip.");
-    }
-  }, [entries]);
+    (async () => {
+      try {
+        setPlans(await plansRepository.list());
+      } catch (err: any) {
+        console.error("Plans fetch error:", err.message);
+      }
+    })();
+  }, [plansRepository]);
+
+  // Load the commission rules once
+  useEffect(() => {
+    (async () => {
+      try {
+        setCommissionRules(await commissionRulesRepository.list());
+      } catch (err: any) {
+        console.error("Commission rules fetch error:", err.message);
+      }
+    })();
+  }, [commissionRulesRepository]);
+
+  // Quotas for every month the period touches (again when this month's goal is saved)
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const goals = await goalsRepository.list(earningsRange);
+        if (!cancelled) setQuotaGoals(goals);
+      } catch (err: any) {
+        console.error("Quota fetch error:", err.message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [goalsRepository, earningsRange, goal]);
+
+  // Totals from the first of the month, when the period starts later in a month
+  useEffect(() => {
+    if (earningsRange.from === range.from) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const totals = await repository.dailyTotals(earningsRange);
+        if (!cancelled) setMonthStartTotals(totals);
+      } catch (err: any) {
+        console.error("Commission totals fetch error:", err.message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, range, earningsRange, dataVersion]);
+
+  // Load this month's goal once
+  useEffect(() => {
+    (async () => {
+      try {
+        setGoal(await goalsRepository.get(monthRange.from!));
+      } catch (err: any) {
+        console.error("Goal fetch error:", err.message);
+      }
+    })();
+  }, [goalsRepository, monthRange]);
+
+  // Month-to-date totals for goal progress. When "This Month" is selected the period
+  // totals already are exactly that, so only other periods need a separate query.
+  useEffect(() => {
+    if (period === "month") return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const totals = await repository.dailyTotals(monthRange);
+        if (!cancelled) setMonthTotals(totals);
+      } catch (err: any) {
+        console.error("Month fetch error:", err.message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [repository, period, monthRange, dataVersion]);
 
   /**
-   * onSubmit handler: Validates form values, combines line metrics, inserts a new entry into Supabase,
+   * onSubmit handler: Validates form values, persists a new entry through the repository,
    * and updates the UI entries list.
    */
-  // 6️⃣ Handle form submit (write to Supabase)
+  // 6️⃣ Handle form submit (write through the repository, or queue it while offline)
 const onSubmit = formHook.handleSubmit(async (values) => {
-  // Combine the four line fields into one
-  const totalLines = [
-    values.voiceLines,
-    values.bts,
-    values.iot,
-    values.hsi,
-  ]
-    .map(Number)
-    .reduce((a, b) => a + b, 0);
-
-  // Insert a new entry
-  const { error } = await supabase
-    .from("entries")
-    .insert([
-      {
-        date: values.date,
-        lines: totalLines,
-        accessories: Number(values.accessories),
-        protection: Number(values.protection),
-        revenue: Number(values.mrc),
-        plan_name: values.planName,
-      },
-    ])
-    .select();
-
-  if (error) {
-    console.error("Insert error:", error.message);
-    return;
+  // One id for the insert and any queued retry of it, so a retry can't insert it twice
+  const id = crypto.randomUUID();
+  let created: StoredEntry | null = null;
+  try {
+    if (navigator.onLine) created = await repository.create(values, { id });
+  } catch (err: any) {
+    console.error("Insert error:", err.message);
+    // Refused by the database: sending it again can't succeed, so keep it in the form
+    if (err instanceof EntryRejectedError) {
+      alert("Could not save entry:\n" + err.message);
+      return;
+    }
+  }
+
+  if (created) {
+    // Add the stored entry (with its id) to UI state, if it belongs to the selected period;
+    // the live-update event for the same row is then recognised and not added twice
+    if (isInRange(created.date, range)) {
+      setEntries((prev) => upsertEntry(prev, created!));
+    }
+    refreshTotals();
+  } else {
+    // Offline or the request failed: keep it in the queue (shown as "Pending") and retry
+    // it once back online, or after a short delay if the browser is still online
+    try {
+      await enqueue({ kind: "create", entry: values, entryId: id });
+    } catch (err: any) {
+      console.error("Queue error:", err.message);
+      alert("Could not save entry:\n" + err.message);
+      return;
+    }
   }
-  
-  // Prepend new entry to UI state
-  setEntries((prev) => [values, ...prev]);
   // Reset form fields to default values
   formHook.reset({
     date: today,
@@ -225,38 +494,186 @@ const onSubmit = formHook.handleSubmit(async (values) => {
     hsi: "",
     accessories: "",
     protection: "",
-    planName: "",
-    mrc: "",
+    sales: [{ planName: "", lineType: "voice", mrc: "" }],
   });
 });
 
 // 7️⃣ Clear DB (optional)
 const handleClearDatabase = async () => {
-  if (!window.confirm("Are you sure you want to delete ALL entries?")) return;
-
-  // Delete all rows by filtering on a non-nullable primary key
-  const { data: deletedRows, error } = await supabase
-    .from("entries")
-    .delete()      
-    .not("id", "is", null) 
-    .select();
-
-  if (error) {
-    console.error("Delete error:", error.message);
-    alert("Could not clear database:\n" + error.message);
-  } else {
-    console.log("Deleted rows:", deletedRows?.length);
+  // The database refuses bulk deletes from non-admins as well
+  if (!can("entries:clear")) return;
+  if (!window.confirm("Move ALL entries to the Trash?")) return;
+
+  try {
+    const { cleared, batchId } = await repository.clear();
     setEntries([]);  // clear your UI state
+    setNextCursor(null);
+    refreshTotals();
+    if (batchId) {
+      setUndoable({
+        message: `${cleared} entries moved to the Trash.`,
+        undo: () => handleRestore(() => repository.restoreBatch(batchId)),
+      });
+    }
+  } catch (err: any) {
+    console.error("Delete error:", err.message);
+    alert("Could not clear database:\n" + err.message);
+  }
+};
+
+/**
+ * handleRestore: Runs a restore (the toast's Undo), then reloads the table & totals.
+ */
+const handleRestore = async (restore: () => Promise<number>) => {
+  try {
+    await restore();
+    setPageVersion((v) => v + 1);
+    refreshTotals();
+  } catch (err: any) {
+    console.error("Restore error:", err.message);
+    alert("Could not restore entries:\n" + err.message);
+  }
+};
+
+/**
+ * handleUpdateEntry: Saves an edited row (already validated by the row editor)
+ * and swaps the stored version into the UI list. The update only applies if the
+ * entry is still at the version shown; offline or failed edits are queued, and
+ * edits the database refuses are reported straight away.
+ */
+// 8️⃣ Edit a single entry
+const handleUpdateEntry = async (entry: StoredEntry, values: PerformanceFormValues) => {
+  try {
+    if (navigator.onLine) {
+      const updated = await repository.update(entry.id, values, {
+        expectedUpdatedAt: entry.updatedAt,
+      });
+      // Drop the row from view if its new date moved it out of the selected period
+      setEntries((prev) =>
+        isInRange(updated.date, range)
+          ? prev.map((e) => (e.id === entry.id ? updated : e))
+          : prev.filter((e) => e.id !== entry.id)
+      );
+      setEditingId(null);
+      refreshTotals();
+      return;
+    }
+  } catch (err: any) {
+    console.error("Update error:", err.message);
+    if (err instanceof EntryConflictError) {
+      alert("This entry was changed or deleted elsewhere. The table has been reloaded; please edit it again.");
+      setEditingId(null);
+      setPageVersion((v) => v + 1);
+      refreshTotals();
+      return;
+    }
+    // Refused by the database: leave the row editor open so the values can be fixed
+    if (err instanceof EntryRejectedError) {
+      alert("Could not update entry:\n" + err.message);
+      return;
+    }
+  }
+
+  // Offline or the request failed: queue the edit against the version it was based on
+  try {
+    await enqueue({
+      kind: "update",
+      entry: values,
+      entryId: entry.id,
+      expectedUpdatedAt: entry.updatedAt,
+    });
+    setEditingId(null);
+  } catch (err: any) {
+    console.error("Queue error:", err.message);
+    alert("Could not update entry:\n" + err.message);
+  }
+};
+
+/**
+ * handleResolveConflict: Applies the user's choice for a queued edit whose entry
+ * changed elsewhere ("keep" overwrites it, "discard" drops the queued edit).
+ */
+const handleResolveConflict = async (
+  operation: PendingOperation,
+  resolution: "keep" | "discard"
+) => {
+  try {
+    await resolveConflict(operation, resolution);
+  } catch (err: any) {
+    console.error("Conflict error:", err.message);
+    alert("Could not resolve conflict:\n" + err.message);
+  }
+};
+
+/**
+ * handleResolveFailure: Applies the user's choice for a queued write the database
+ * refused ("retry" sends it again, "discard" drops it).
+ */
+const handleResolveFailure = async (
+  operation: PendingOperation,
+  resolution: "retry" | "discard"
+) => {
+  try {
+    await resolveFailure(operation, resolution);
+  } catch (err: any) {
+    console.error("Failed write error:", err.message);
+    alert("Could not update the queued change:\n" + err.message);
+  }
+};
+
+/**
+ * handleDeleteEntry: Moves one row to the trash, with a timed Undo.
+ */
+// 9️⃣ Delete a single entry
+const handleDeleteEntry = async (entry: StoredEntry) => {
+  try {
+    await repository.remove(entry.id);
+    setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    refreshTotals();
+    setUndoable({
+      message: `The ${entry.date} entry was moved to the Trash.`,
+      undo: () => handleRestore(() => repository.restore([entry.id])),
+    });
+  } catch (err: any) {
+    console.error("Delete error:", err.message);
+    alert("Could not delete entry:\n" + err.message);
+  }
+};
+
+/**
+ * handleExportEntries: Downloads every entry in the selected period as CSV
+ * (not just the pages loaded into the table).
+ */
+const handleExportEntries = async () => {
+  try {
+    const all = await listAllEntries(repository, range);
+    downloadFile(csvFilename("entries", range), entriesToCsv(all));
+  } catch (err: any) {
+    console.error("Export error:", err.message);
+    alert("Could not export entries:\n" + err.message);
+  }
+};
+
+/**
+ * handleSaveGoal: Persists the month's goal and closes the editor.
+ */
+const handleSaveGoal = async (newGoal: Goal) => {
+  try {
+    setGoal(await goalsRepository.save(newGoal));
+    setIsEditingGoals(false);
+  } catch (err: any) {
+    console.error("Goal save error:", err.message);
+    alert("Could not save goals:\n" + err.message);
   }
 };
 
   /**
   * handleLogout
-  * • Clears the saved auth token to end the session
+  * • Ends the session through the auth context (clears the saved token)
   * • Redirects the user back to the login page
   */
   const handleLogout = () => {
-    localStorage.removeItem("authToken");
+    logout();
     navigate("/login");
   };
 
@@ -268,45 +685,53 @@ const handleClearDatabase = async () => {
     return <div>Loading…</div>;
   }
 
-  /**
-  * Summary metrics calculation
-  * • totalVoiceLines: sum of all voiceLines values
-  * • totalBts:         sum of all BTS values
-  * • totalIot:         sum of all IOT values
-  * • totalHsi:         sum of all HSI values
-  * • totalLines:       combined total of all line metrics
-  * • totalAccessories: sum of accessories revenue
-  * • totalProtection:  sum of protection counts
-  * • protectionPercent: (totalProtection / totalLines) * 100 as a string with one decimal
-  * • averageMRC:       average monthly recurring charge across entries
-  */
-  const totalVoiceLines = entries.reduce(
-    (sum, e) => sum + Number(e.voiceLines),
-    0
+  const summary = summarizeTotals(dailyTotals);
+
+  // Queued writes: new entries not stored yet, and edits waiting for (or blocked on) sync
+  const pendingCreates = pendingOperations.filter(
+    (op) => op.kind === "create" && isInRange(op.entry.date, range)
   );
-  const totalBts = entries.reduce((sum, e) => sum + Number(e.bts), 0);
-  const totalIot = entries.reduce((sum, e) => sum + Number(e.iot), 0);
-  const totalHsi = entries.reduce((sum, e) => sum + Number(e.hsi), 0);
-  const totalLines = totalVoiceLines + totalBts + totalIot + totalHsi;
-  const totalAccessories = entries.reduce(
-    (sum, e) => sum + Number(e.accessories),
-    0
+  const pendingUpdates = new Map(
+    pendingOperations
+      .filter((op) => op.kind === "update")
+      .map((op) => [op.entryId!, op])
   );
-  const totalProtection = entries.reduce(
-    (sum, e) => sum + Number(e.protection),
-    0
+  const failedCount = pendingOperations.filter((op) => op.status === "failed").length;
+
+  /**
+  * Summary metrics calculation over every entry in the period (see summarizeTotals)
+  * • protectionPercent: protection rate as a string with one decimal
+  * • averageMRC:        average monthly recurring charge per plan sale with two decimals
+  */
+  const {
+    totalVoiceLines,
+    totalBts,
+    totalIot,
+    totalHsi,
+    totalLines,
+    totalAccessories,
+    protectionRate,
+    saleCount,
+    averageMrc,
+  } = summary;
+  const protectionPercent = `${protectionRate.toFixed(1)}%`;
+  const averageMRC = averageMrc.toFixed(2);
+
+  // Estimated commission for the period (accelerators included)
+  const commission = periodCommission(
+    earningsRange.from === range.from ? dailyTotals : monthStartTotals,
+    commissionRules,
+    new Map(quotaGoals.map((g) => [g.month, g.voiceLines])),
+    range
   );
-  const protectionPercent =
-    totalLines > 0
-      ? `${((totalProtection / totalLines) * 100).toFixed(1)}%`
-      : "0.0%";
-  const averageMRC =
-    entries.length > 0
-      ? (
-          entries.reduce((sum, e) => sum + Number(e.mrc), 0) /
-          entries.length
-        ).toFixed(2)
-      : "0.00";
+
+  // Goal progress is always month-to-date, whatever period is selected above
+  const goalProgress = goal
+    ? computeGoalProgress(
+        goal,
+        summarizeTotals(period === "month" ? dailyTotals : monthTotals)
+      )
+    : null;
 
   /** 
   * Now the component render can proceed:
@@ -318,13 +743,61 @@ const handleClearDatabase = async () => {
         <h1 className="text-3xl font-bold text-tmagenta">
           PERFORMANCE TRACKER
         </h1>                  
-        <Button
-          variant="outline"
-          onClick={handleLogout}
-          className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite transition-colors"
-        >
-          Log out
-        </Button>
+        {/* Connection / sync status */}
+        {(!isOnline || pendingOperations.length > 0) && (
+          <p className="text-sm text-twhite">
+            {!isOnline
+              ? "Offline — new entries will sync when you reconnect"
+              : isSyncing
+                ? "Syncing…"
+                : failedCount > 0
+                  ? `${failedCount} change(s) could not be saved — see the table`
+                  : `${pendingOperations.length} change(s) waiting to sync`}
+          </p>
+        )}
+        <div className="flex gap-2">
+          {/* Deleted entries, restorable until purged */}
+          <Button
+            variant="outline"
+            onClick={() => navigate("/trash")}
+            className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+          >
+            Trash
+          </Button>
+          {/* Who changed which entry, when and from where */}
+          <Button
+            variant="outline"
+            onClick={() => navigate("/audit")}
+            className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+          >
+            Audit Log
+          </Button>
+          {/* Manager dashboard: team leaderboard (managers & admins) */}
+          {can("team:read") && (
+            <Button
+              variant="outline"
+              onClick={() => navigate("/team")}
+              className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+            >
+              Team
+            </Button>
+          )}
+          {/* Plan catalog & other settings */}
+          <Button
+            variant="outline"
+            onClick={() => navigate("/settings")}
+            className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+          >
+            Settings
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleLogout}
+            className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite transition-colors"
+          >
+            Log out
+          </Button>
+        </div>
       </div>
 
       {/**
@@ -407,17 +880,15 @@ const handleClearDatabase = async () => {
                 </div>
 
                 {/*
-                Protection / Accessories / MRC / Plan Name Inputs Group
-                – Renders four input fields in a responsive grid:
+                Protection / Accessories Inputs Group
+                – Renders two input fields in a responsive grid:
                   • Protection: number of protection packages sold (whole number)
                   • Accessories $: accessories revenue (dollar amount)
-                  • MRC $: monthly recurring charge (dollar amount)
-                  • Plan Name: name of the selected plan (non‐empty string)
                 – Each FormField is bound to React Hook Form (`control` & `name`)
                 – Uses an Input component with `required` and appropriate `placeholder`
                 – Displays inline validation messages via FormMessage
               */}
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   {/* Protection field */}
                   <FormField
                     control={formHook.control}
@@ -457,46 +928,16 @@ const handleClearDatabase = async () => {
                       </FormItem>
                     )}
                   />
+                </div>
 
-                  {/* MRC $ field */}
-                  <FormField
-                    control={formHook.control}
-                    name="mrc"
-                    render={({ field: hookField, fieldState }) => (
-                      <FormItem>
-                        <FormControl>
-                          <Input
-                            {...hookField}
-                            required
-                            type="text"
-                            placeholder="MRC $"
-                            className="border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
-                          />
-                        </FormControl>
-                         <FormMessage>{fieldState.error?.message}</FormMessage>
-                      </FormItem>
-                    )}
-                  />
-
-                  {/* Plan Name field */}
-                  <FormField
-                    control={formHook.control}
-                    name="planName"
-                    render={({ field: hookField, fieldState }) => (
-                      <FormItem>
-                        <FormControl>
-                          <Input
-                            {...hookField}
-                            required
-                            type="text"
-                            placeholder="Name of Plan"
-                            className="border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
-                          />
-                        </FormControl>
-                         <FormMessage>{fieldState.error?.message}</FormMessage>
-                      </FormItem>
-                    )}
-                  />
+                {/*
+                Plan Sales (line items)
+                – One row per account sold: plan name, line type and MRC $
+                – Rows can be added and removed; a day with no plan sales is allowed
+              */}
+                <div>
+                  <p className="mb-2 text-sm font-medium text-tblack">Plan Sales</p>
+                  <SalesFields form={formHook} plans={plans} />
                 </div>
 
                 <Button
@@ -543,13 +984,21 @@ const handleClearDatabase = async () => {
               <span className="font-medium">Protection:</span>{" "}
               {entries[0]?.protection || 0}
             </p>
+            <div className="text-tblack">
+              <span className="font-medium">Plan Sales:</span>{" "}
+              {entries[0]?.sales.length ? (
+                <ul className="ml-4 list-disc">
+                  {entries[0].sales.map((sale, i) => (
+                    <li key={i}>{formatSale(sale)}</li>
+                  ))}
+                </ul>
+              ) : (
+                "—"
+              )}
+            </div>
             <p className="text-tblack">
-              <span className="font-medium">Plan Name:</span>{" "}
-              {entries[0]?.planName || "—"}
-            </p>
-            <p className="text-tblack">
-              <span className="font-medium">MRC:</span> $
-              {entries[0]?.mrc || "0.00"}
+              <span className="font-medium">Total MRC:</span> $
+              {entries[0] ? saleMrcTotal(entries[0]).toFixed(2) : "0.00"}
             </p>
           </CardContent>
         </Card>
@@ -557,7 +1006,9 @@ const handleClearDatabase = async () => {
 
       {/*
         Summary Statistics Card
-        – Displays aggregated metrics for all entries:
+        – Period selector (today / this week / this month / custom / all time)
+          that also filters the All Entries table.
+        – Displays aggregated metrics for entries in the selected period:
           • TOTAL LINES
           • TOTAL VOICE LINES
           • TOTAL BTS
@@ -565,15 +1016,41 @@ const handleClearDatabase = async () => {
           • TOTAL IOT
           • PROTECTION % (protection / totalLines)
           • TOTAL ACCESSORIES
-          • AVERAGE MRC
+          • TOTAL SALES (plan sales / line items)
+          • AVG MRC / SALE
+        – Plan Mix: sales, share and average MRC per plan.
+        – Estimated Commission: the period's pay under the comp plan, by source.
+        – Monthly Goals: progress bars, remaining gap and required daily pace
+          for the current month's quota (with an inline goal editor).
       */}
       {/* Summary Statistics */}
       <Card className="mt-8 bg-twhite shadow-lg rounded-lg border border-gray-200">
         <CardContent className="p-6">
-          {/* Section heading */}
-          <h2 className="text-2xl font-semibold text-tmagenta mb-4">
-            Summary Statistics
-          </h2>
+          {/* Section heading + period selector */}
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-semibold text-tmagenta">
+                Summary Statistics
+              </h2>
+              <p className="text-sm text-gray-500">{describeRange(range)}</p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <PeriodSelector
+                period={period}
+                customRange={customRange}
+                onPeriodChange={setPeriod}
+                onCustomRangeChange={setCustomRange}
+              />
+              {/* Export the totals below as CSV */}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadFile(csvFilename("summary", range), summaryToCsv(summary, range))}
+              >
+                Export Summary
+              </Button>
+            </div>
+          </div>
           {/* Grid of metric cards */}
           <div className="grid grid-cols-2 sm:grid-cols-4 gap-6 text-tblack text-sm">
             {/* TOTAL LINES */}
@@ -611,18 +1088,86 @@ const handleClearDatabase = async () => {
               <p className="font-medium">TOTAL ACCESSORIES</p>
               <p className="text-lg">${totalAccessories.toFixed(2)}</p>
             </div>
-            {/* AVERAGE MRC */}
+            {/* TOTAL SALES */}
+            <div>
+              <p className="font-medium">TOTAL SALES</p>
+              <p className="text-lg">{saleCount}</p>
+            </div>
+            {/* AVG MRC / SALE */}
             <div>
-              <p className="font-medium">AVERAGE MRC</p>
+              <p className="font-medium">AVG MRC / SALE</p>
               <p className="text-lg">${averageMRC}</p>
             </div>
           </div>
+
+          {/* Plan Mix */}
+          <div className="mt-6 border-t border-gray-200 pt-6">
+            <h3 className="mb-4 text-lg font-semibold text-tmagenta">Plan Mix</h3>
+            <PlanMix items={summarizePlanMix(planTotals)} />
+          </div>
+
+          {/* Estimated Commission */}
+          <div className="mt-6 border-t border-gray-200 pt-6">
+            <h3 className="mb-4 text-lg font-semibold text-tmagenta">
+              Estimated Commission
+            </h3>
+            <CommissionSummary
+              breakdown={commission}
+              hasRules={commissionRules.length > 0}
+            />
+          </div>
+
+          {/* Monthly Goals */}
+          <div className="mt-6 border-t border-gray-200 pt-6">
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-tmagenta">
+                Monthly Goals
+              </h3>
+              {!isEditingGoals && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setIsEditingGoals(true)}
+                  className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+                >
+                  {goal ? "Edit Goals" : "Set Goals"}
+                </Button>
+              )}
+            </div>
+            {isEditingGoals ? (
+              <GoalEditor
+                month={monthRange.from!}
+                goal={goal}
+                onSave={handleSaveGoal}
+                onCancel={() => setIsEditingGoals(false)}
+              />
+            ) : goalProgress ? (
+              <GoalProgress progress={goalProgress} />
+            ) : (
+              <p className="text-sm text-gray-500">
+                No goals set for this month yet.
+              </p>
+            )}
+          </div>
         </CardContent>
       </Card>
       
+      {/*
+        Trends Card
+        – Daily/weekly line charts for the same entries and period as the summary:
+          lines per category, average MRC and protection attach rate.
+      */}
+      <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="p-6">
+          <h2 className="mb-4 text-2xl font-semibold text-tmagenta">Trends</h2>
+          <TrendCharts days={dailyTotals} />
+        </CardContent>
+      </Card>
+
       {/*
         Tip of the Day Card
-        – Shows a loading state while fetching, then displays the AI-generated sales tip.
+        – Shows a loading state while fetching, then displays the sales tip with
+          helpful / not-helpful feedback and the history of earlier tips.
       */}
       {/* ── Tip of the Day ── */}
       <Card className="mt-8 bg-twhite shadow-lg rounded-lg border border-gray-200">
@@ -630,17 +1175,52 @@ const handleClearDatabase = async () => {
           <h2 className="text-2xl font-semibold text-tmagenta mb-2">
             Tip of the Day
           </h2>
-          {isLoadingTip ? (
-            <p className="text-tblack text-sm">Loading tip…</p>
-          ) : (
-            <p className="text-tblack text-sm">{tip}</p>
-          )}
+          <TipOfTheDay
+            tip={tipOfTheDay.tip}
+            message={tipOfTheDay.message}
+            isLoading={tipOfTheDay.isLoading}
+            history={tipOfTheDay.history}
+            onRate={tipOfTheDay.rateTip}
+          />
           </CardContent>
         </Card>
 
+      {/* ── Weekly Coaching Report ── */}
+      <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="p-6">
+          <h2 className="mb-2 text-2xl font-semibold text-tmagenta">Weekly Coaching Report</h2>
+          <CoachingReport
+            result={coachingReport.result}
+            error={coachingReport.error}
+            isLoading={coachingReport.isLoading}
+            onGenerate={coachingReport.generate}
+          />
+        </CardContent>
+      </Card>
+
+      {/* ── Ask Your Data ── */}
+      <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="p-6">
+          <h2 className="mb-2 text-2xl font-semibold text-tmagenta">Ask Your Data</h2>
+          <AskData
+            result={askData.result}
+            error={askData.error}
+            isLoading={askData.isLoading}
+            onAsk={askData.ask}
+          />
+        </CardContent>
+      </Card>
+
       {/*
         All Entries Table + Clear
-        – Provides a scrollable table of every entry.
+        – Provides a scrollable table of every entry, loaded a page at a time
+          (more pages load as you scroll, or via “Load more”).
+        – Each row can be edited inline or deleted; deleted rows move to the Trash
+          and a toast offers a timed “Undo”.
+        – Writes made offline (or that failed) appear as “Pending” until they sync;
+          edits that clash with changes made elsewhere offer “Keep mine” / “Discard”,
+          and writes the database refused show why, with “Retry” / “Discard”.
+        – “Import CSV” opens a bulk import with per-row validation & duplicate flags.
         – Includes a “Clear Database” button that’s disabled when no entries exist.
       */}
       {/* All Entries Table + Clear */}
@@ -648,21 +1228,65 @@ const handleClearDatabase = async () => {
         <CardContent className="p-6">
           {/* Header with title and clear action */}
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-2xl font-semibold text-tmagenta">All Entries</h2>
-            {/* Clear Database button */}
-            <Button
-              onClick={handleClearDatabase}
-              disabled={entries.length === 0}
-              className={`text-sm font-semibold py-2 px-4 rounded ${
-                entries.length === 0
-                  ? "bg-gray-300 text-gray-600 cursor-not-allowed"
-                  : "bg-tmagenta text-twhite hover:bg-opacity-90"
-              } transition-colors`}
-            >
-              Clear Database
-            </Button>
+            <div>
+              <h2 className="text-2xl font-semibold text-tmagenta">All Entries</h2>
+              <p className="text-sm text-gray-500">
+                {describeRange(range)} · showing {entries.length} of {summary.entryCount}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {/* Import CSV button (opens the import panel) */}
+              <Button
+                variant="outline"
+                onClick={() => setIsImporting(true)}
+                disabled={isImporting}
+                className="border-tmagenta text-sm font-semibold text-tmagenta hover:bg-tmagenta hover:text-twhite"
+              >
+                Import CSV
+              </Button>
+              {/* Export CSV button (entries in the selected period) */}
+              <Button
+                variant="outline"
+                onClick={handleExportEntries}
+                disabled={summary.entryCount === 0}
+                className="border-tmagenta text-sm font-semibold text-tmagenta hover:bg-tmagenta hover:text-twhite"
+              >
+                Export CSV
+              </Button>
+              {/* Clear Database button (admins only) */}
+              {can("entries:clear") && (
+                <Button
+                  onClick={handleClearDatabase}
+                  disabled={entries.length === 0}
+                  className={`text-sm font-semibold py-2 px-4 rounded ${
+                    entries.length === 0
+                      ? "bg-gray-300 text-gray-600 cursor-not-allowed"
+                      : "bg-tmagenta text-twhite hover:bg-opacity-90"
+                  } transition-colors`}
+                >
+                  Clear Database
+                </Button>
+              )}
+            </div>
           {/* Table container for overflow on small screens */}
           </div>
+          {/* CSV import panel */}
+          {isImporting && (
+            <div className="mb-6 rounded-lg border border-gray-200 p-4">
+              <EntryImport
+                repository={repository}
+                onImported={(created) => {
+                  setEntries((prev) =>
+                    created
+                      .filter((e) => isInRange(e.date, range))
+                      .reduce((list, entry) => upsertEntry(list, entry), prev)
+                  );
+                  refreshTotals();
+                }}
+                onClose={() => setIsImporting(false)}
+              />
+            </div>
+          )}
           <div className="overflow-auto">
             <table className="min-w-full table-auto border-collapse">
               {/* Column headers */}
@@ -675,42 +1299,129 @@ const handleClearDatabase = async () => {
                   <th className="px-4 py-2 text-left text-sm font-medium text-tblack">HSI</th>
                   <th className="px-4 py-2 text-left text-sm font-medium text-tblack">Accessories ($)</th>
                   <th className="px-4 py-2 text-left text-sm font-medium text-tblack">Protection</th>
-                  <th className="px-4 py-2 text-left text-sm font-medium text-tblack">Plan Name</th>
-                  <th className="px-4 py-2 text-left text-sm font-medium text-tblack">MRC ($)</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-tblack">Sales</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-tblack">Total MRC ($)</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-tblack">Commission ($)</th>
+                  <th className="px-4 py-2 text-left text-sm font-medium text-tblack">Actions</th>
                 </tr>
               </thead>
               <tbody>
-                {entries.length > 0 ? (
-                  entries.map((ent, idx) => (
-                    <tr
-                      key={idx}
-                      className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
-                    >
-                      {/* Data cells for each entry property */}
-                      <td className="px-4 py-2 text-sm text-tblack">{ent.date}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">{ent.voiceLines}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">{ent.bts}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">{ent.iot}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">{ent.hsi}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">${Number(ent.accessories).toFixed(2)}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">{ent.protection}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">{ent.planName}</td>
-                      <td className="px-4 py-2 text-sm text-tblack">${ent.mrc}</td>
-                    </tr>
-                  ))
+                {/* Queued new entries, not stored yet */}
+                {pendingCreates.map((op) => (
+                  <tr key={op.id} className={op.status === "failed" ? "bg-red-50" : "bg-yellow-50"}>
+                    {entryCells(op.entry, commissionRules)}
+                    <td className="whitespace-nowrap px-4 py-2 text-sm">
+                      <QueuedStatus
+                        operation={op}
+                        onResolveConflict={(resolution) => handleResolveConflict(op, resolution)}
+                        onResolveFailure={(resolution) => handleResolveFailure(op, resolution)}
+                      />
+                    </td>
+                  </tr>
+                ))}
+                {entries.length > 0 || pendingCreates.length > 0 ? (
+                  entries.map((ent, idx) => {
+                    const queued = pendingUpdates.get(ent.id);
+                    if (ent.id === editingId) {
+                      return (
+                        <EntryRowEditor
+                          key={ent.id}
+                          entry={ent}
+                          plans={plans}
+                          onSave={(values) => handleUpdateEntry(ent, values)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      );
+                    }
+                    // A queued edit shows its values until it syncs (or its conflict is resolved)
+                    if (queued) {
+                      return (
+                        <tr
+                          key={ent.id}
+                          className={queued.status === "pending" ? "bg-yellow-50" : "bg-red-50"}
+                        >
+                          {entryCells(queued.entry, commissionRules)}
+                          <td className="whitespace-nowrap px-4 py-2 text-sm">
+                            <QueuedStatus
+                              operation={queued}
+                              onResolveConflict={(resolution) =>
+                                handleResolveConflict(queued, resolution)
+                              }
+                              onResolveFailure={(resolution) =>
+                                handleResolveFailure(queued, resolution)
+                              }
+                            />
+                          </td>
+                        </tr>
+                      );
+                    }
+                    return (
+                      <tr
+                        key={ent.id}
+                        className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                      >
+                        {/* Data cells for each entry property */}
+                        {entryCells(ent, commissionRules)}
+                        {/* Row actions */}
+                        <td className="whitespace-nowrap px-4 py-2 text-sm">
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={editingId !== null}
+                              onClick={() => setEditingId(ent.id)}
+                              className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={editingId !== null}
+                              onClick={() => handleDeleteEntry(ent)}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })
                 ) : (
                   // Fallback row when there are no entries
                   <tr>
-                    <td colSpan={9} className="px-4 py-2 text-center text-gray-500 text-sm">
-                      No entries yet
+                    <td colSpan={11} className="px-4 py-2 text-center text-gray-500 text-sm">
+                      No entries in this period
                     </td>
                   </tr>
                 )}
               </tbody>
             </table>
           </div>
+          {/* Pagination: sentinel for infinite scroll, plus a manual fallback */}
+          <div ref={loadMoreRef} className="mt-4 flex justify-center">
+            {nextCursor && (
+              <Button
+                variant="outline"
+                onClick={loadMore}
+                disabled={isLoadingMore}
+                className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+              >
+                {isLoadingMore ? "Loading…" : "Load more"}
+              </Button>
+            )}
+          </div>
         </CardContent>
       </Card>
+
+      {/* Undo for the last delete */}
+      {undoable && (
+        <UndoToast
+          message={undoable.message}
+          onUndo={undoable.undo}
+          onDismiss={dismissUndo}
+        />
+      )}
     </div>
   );
 }
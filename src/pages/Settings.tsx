@@ -0,0 +1,229 @@
+// Default repositories (Supabase-backed)
+import {
+  entriesRepository,
+  plansRepository as defaultPlansRepository,
+  commissionRulesRepository as defaultCommissionRulesRepository,
+} from "@/lib/supabaseClient";
+import type { EntriesRepository } from "@/lib/entriesRepository";
+import type { PlansRepository } from "@/lib/plansRepository";
+import type { CommissionRulesRepository } from "@/lib/commissionRulesRepository";
+import type { Plan, PlanInput } from "@/types/plan";
+import type { CommissionRules, CommissionRulesInput } from "@/types/commission";
+import type { PlanTotals } from "@/lib/summary";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import useAuth from "@/hooks/useAuth";
+import { findLegacyNames } from "@/lib/planNames";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { PlanCatalog } from "@/components/plan-catalog";
+import { PlanNameMerge } from "@/components/plan-name-merge";
+import { CommissionRulesEditor } from "@/components/commission-rules";
+
+/**
+ * Settings page.
+ * Manages the shared plan catalog and commission rules (admins; others see them
+ * read-only), and lets admins normalize legacy plan names in their entries.
+ * @param repository - Entries to normalize (defaults to Supabase)
+ * @param plansRepository - The plan catalog (defaults to Supabase)
+ * @param commissionRulesRepository - Comp plan versions (defaults to Supabase)
+ */
+export default function Settings({
+  repository = entriesRepository,
+  plansRepository = defaultPlansRepository,
+  commissionRulesRepository = defaultCommissionRulesRepository,
+}: {
+  repository?: EntriesRepository;
+  plansRepository?: PlansRepository;
+  commissionRulesRepository?: CommissionRulesRepository;
+}) {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const canManageCatalog = can("catalog:manage");
+  const [plans, setPlans] = useState<Plan[]>([]);
+  // Plan names used across all of the user's entries, with sale counts
+  const [usedNames, setUsedNames] = useState<PlanTotals[]>([]);
+  const [rulesVersions, setRulesVersions] = useState<CommissionRules[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load the catalog, the plan names in use and the commission rules
+  const reload = useCallback(async () => {
+    try {
+      const [catalog, used, versions] = await Promise.all([
+        plansRepository.list(),
+        repository.planMix(),
+        commissionRulesRepository.list(),
+      ]);
+      setPlans(catalog);
+      setUsedNames(used);
+      setRulesVersions(versions);
+    } catch (err: any) {
+      console.error("Settings fetch error:", err.message);
+    }
+    setLoading(false);
+  }, [repository, plansRepository, commissionRulesRepository]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  /**
+   * handleCreatePlan: Adds a plan to the catalog.
+   */
+  const handleCreatePlan = async (plan: PlanInput) => {
+    try {
+      await plansRepository.create(plan);
+      await reload();
+      return true;
+    } catch (err: any) {
+      console.error("Plan create error:", err.message);
+      alert("Could not add plan:\n" + err.message);
+      return false;
+    }
+  };
+
+  /**
+   * handleUpdatePlan: Saves a catalog plan. A renamed plan keeps its history:
+   * the user's entries that used the old name are moved to the new one.
+   */
+  const handleUpdatePlan = async (id: string, plan: PlanInput) => {
+    const previous = plans.find((p) => p.id === id);
+    try {
+      const updated = await plansRepository.update(id, plan);
+      if (previous && previous.name !== updated.name) {
+        await repository.renamePlans([previous.name], updated.name);
+      }
+      await reload();
+      return true;
+    } catch (err: any) {
+      console.error("Plan update error:", err.message);
+      alert("Could not update plan:\n" + err.message);
+      return false;
+    }
+  };
+
+  /**
+   * handleMerge: Rewrites legacy plan names in the user's entries to a catalog name.
+   */
+  const handleMerge = async (names: string[], target: string) => {
+    if (!window.confirm(`Rename ${names.map((n) => `“${n}”`).join(", ")} to “${target}” in all your entries?`)) return;
+
+    try {
+      await repository.renamePlans(names, target);
+      await reload();
+    } catch (err: any) {
+      console.error("Merge error:", err.message);
+      alert("Could not merge plan names:\n" + err.message);
+    }
+  };
+
+  /**
+   * handleSaveRules: Adds a commission rules version starting after today.
+   */
+  const handleSaveRules = async (rules: CommissionRulesInput) => {
+    if (rulesVersions.some((v) => v.effectiveFrom === rules.effectiveFrom)) {
+      alert(
+        `Commission rules effective ${rules.effectiveFrom} already exist.\n` +
+          "Remove that version first to replace it."
+      );
+      return false;
+    }
+    try {
+      await commissionRulesRepository.create(rules);
+      await reload();
+      return true;
+    } catch (err: any) {
+      console.error("Commission rules save error:", err.message);
+      alert("Could not save commission rules:\n" + err.message);
+      return false;
+    }
+  };
+
+  /**
+   * handleRemoveRules: Deletes a version that hasn't started; its dates fall back to
+   * the version before it.
+   */
+  const handleRemoveRules = async (version: CommissionRules) => {
+    if (!window.confirm(`Remove the commission rules effective ${version.effectiveFrom}?`)) return;
+
+    try {
+      await commissionRulesRepository.remove(version.id);
+      await reload();
+    } catch (err: any) {
+      console.error("Commission rules remove error:", err.message);
+      alert("Could not remove commission rules:\n" + err.message);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading…</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-800 to-gray-200 p-6">
+      {/* ➡️ Top Nav */}
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-tmagenta">SETTINGS</h1>
+        <Button
+          variant="outline"
+          onClick={() => navigate("/")}
+          className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+        >
+          Back to dashboard
+        </Button>
+      </div>
+
+      {/* Plan Catalog */}
+      <Card className="rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="p-6">
+          <h2 className="mb-1 text-2xl font-semibold text-tmagenta">Plan Catalog</h2>
+          <p className="mb-4 text-sm text-gray-500">
+            Plans offered in the Plan Name picker; the default MRC is filled in when a plan is picked.
+          </p>
+          <PlanCatalog
+            plans={plans}
+            onCreate={handleCreatePlan}
+            onUpdate={handleUpdatePlan}
+            readOnly={!canManageCatalog}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Commission Rules */}
+      <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="p-6">
+          <h2 className="mb-1 text-2xl font-semibold text-tmagenta">Commission Rules</h2>
+          <p className="mb-4 text-sm text-gray-500">
+            The comp plan used for commission estimates. Each version applies from its
+            effective date until the next one starts. New versions start after today, and
+            versions already in force can't be changed, so past estimates never move.
+          </p>
+          <CommissionRulesEditor
+            versions={rulesVersions}
+            onSave={handleSaveRules}
+            onRemove={handleRemoveRules}
+            readOnly={!canManageCatalog}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Normalize Plan Names (admins) */}
+      {canManageCatalog && (
+        <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+          <CardContent className="p-6">
+            <h2 className="mb-1 text-2xl font-semibold text-tmagenta">Normalize Plan Names</h2>
+            <p className="mb-4 text-sm text-gray-500">
+              Plan names in your entries that aren't in the catalog. Merge them into a catalog
+              plan so per-plan reporting adds up.
+            </p>
+            <PlanNameMerge
+              groups={findLegacyNames(usedNames, plans)}
+              plans={plans}
+              onMerge={handleMerge}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
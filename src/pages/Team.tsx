@@ -0,0 +1,310 @@
+// Default repository (Supabase-backed)
+import { teamsRepository as defaultTeamsRepository } from "@/lib/supabaseClient";
+import type { MemberDailyTotals, TeamsRepository } from "@/lib/teamsRepository";
+import type { Team as TeamType, TeamMember } from "@/types/team";
+import type { StoredEntry } from "@/types/entry";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import useAuth from "@/hooks/useAuth";
+import {
+  describeRange,
+  resolvePeriod,
+  type DateRange,
+  type Period,
+} from "@/lib/dateRange";
+import { rankReps, type LeaderboardMetric } from "@/lib/leaderboard";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { PeriodSelector } from "@/components/period-selector";
+import { Leaderboard } from "@/components/leaderboard";
+import { TeamMembers } from "@/components/team-members";
+import { RepEntries } from "@/components/rep-entries";
+
+/**
+ * Team page (manager dashboard).
+ * Ranks the reps of a team by lines, attach rate, accessories and MRC for a period,
+ * drills down into any rep's entries, and shows the team rosters (admins assign reps;
+ * managers only see them).
+ * @param teamsRepository - The manager's teams and their reps' figures (defaults to Supabase)
+ */
+export default function Team({
+  teamsRepository = defaultTeamsRepository,
+}: {
+  teamsRepository?: TeamsRepository;
+}) {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const canAssign = can("team:assign");
+  const [teams, setTeams] = useState<TeamType[]>([]);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [newTeamName, setNewTeamName] = useState("");
+
+  // Period & ranking metric for the leaderboard
+  const [period, setPeriod] = useState<Period>("month");
+  const [customRange, setCustomRange] = useState<DateRange>({});
+  const range = useMemo(
+    () => resolvePeriod(period, customRange),
+    [period, customRange]
+  );
+  const [metric, setMetric] = useState<LeaderboardMetric>("lines");
+  const [memberDays, setMemberDays] = useState<MemberDailyTotals[]>([]);
+
+  // Rep selected for the drill-down, and their entries for the period
+  const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [repEntries, setRepEntries] = useState<StoredEntry[]>([]);
+
+  const team = teams.find((t) => t.id === teamId) ?? null;
+
+  // Load the manager's teams, keeping the selected one when it still exists
+  const reload = useCallback(async () => {
+    try {
+      const list = await teamsRepository.list();
+      setTeams(list);
+      setTeamId((current) =>
+        list.some((t) => t.id === current) ? current : list[0]?.id ?? null
+      );
+    } catch (err: any) {
+      console.error("Teams fetch error:", err.message);
+    }
+    setLoading(false);
+  }, [teamsRepository]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Per-rep totals for the selected team & period (again when the roster changes)
+  useEffect(() => {
+    if (!team) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const days = await teamsRepository.memberDailyTotals(team.id, range);
+        if (!cancelled) setMemberDays(days);
+      } catch (err: any) {
+        console.error("Team totals fetch error:", err.message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [teamsRepository, team, range]);
+
+  // Drill-down: the selected rep's entries for the period
+  useEffect(() => {
+    if (!team || !selectedUserId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const entries = await teamsRepository.memberEntries(team.id, selectedUserId, range);
+        if (!cancelled) setRepEntries(entries);
+      } catch (err: any) {
+        console.error("Rep entries fetch error:", err.message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [teamsRepository, team, selectedUserId, range]);
+
+  /**
+   * handleCreateTeam: Adds a team managed by the signed-in user and selects it.
+   */
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const created = await teamsRepository.createTeam(newTeamName.trim());
+      setNewTeamName("");
+      setTeamId(created.id);
+      await reload();
+    } catch (err: any) {
+      console.error("Team create error:", err.message);
+      alert("Could not create team:\n" + err.message);
+    }
+  };
+
+  /**
+   * handleRemoveTeam: Deletes the selected team (the reps' entries are untouched).
+   */
+  const handleRemoveTeam = async () => {
+    if (!team || !window.confirm(`Delete the team “${team.name}”? Reps' entries are kept.`)) return;
+
+    try {
+      await teamsRepository.removeTeam(team.id);
+      setSelectedUserId(null);
+      await reload();
+    } catch (err: any) {
+      console.error("Team delete error:", err.message);
+      alert("Could not delete team:\n" + err.message);
+    }
+  };
+
+  /**
+   * handleAddMember: Assigns a rep to the selected team (or renames them). Admins only.
+   */
+  const handleAddMember = async (member: TeamMember) => {
+    if (!team) return false;
+    try {
+      await teamsRepository.addMember(team.id, member);
+      await reload();
+      return true;
+    } catch (err: any) {
+      console.error("Member add error:", err.message);
+      alert("Could not add rep:\n" + err.message);
+      return false;
+    }
+  };
+
+  /**
+   * handleRemoveMember: Takes a rep off the selected team.
+   */
+  const handleRemoveMember = async (member: TeamMember) => {
+    if (!team || !window.confirm(`Remove ${member.displayName} from “${team.name}”?`)) return;
+
+    try {
+      await teamsRepository.removeMember(team.id, member.userId);
+      if (member.userId === selectedUserId) setSelectedUserId(null);
+      await reload();
+    } catch (err: any) {
+      console.error("Member remove error:", err.message);
+      alert("Could not remove rep:\n" + err.message);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading…</div>;
+  }
+
+  const standings = team ? rankReps(team.members, memberDays, metric) : [];
+  const selected = standings.find((s) => s.member.userId === selectedUserId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-800 to-gray-200 p-6">
+      {/* ➡️ Top Nav */}
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-tmagenta">TEAM</h1>
+        <Button
+          variant="outline"
+          onClick={() => navigate("/")}
+          className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+        >
+          Back to dashboard
+        </Button>
+      </div>
+
+      {/* Team picker & new team */}
+      <Card className="rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="flex flex-wrap items-center justify-between gap-4 p-6">
+          <div className="flex items-center gap-2 text-sm text-tblack">
+            {teams.length > 0 ? (
+              <>
+                <select
+                  value={teamId ?? ""}
+                  aria-label="Team"
+                  onChange={(e) => {
+                    setTeamId(e.target.value);
+                    setSelectedUserId(null);
+                  }}
+                  className="h-9 rounded-md border border-gray-300 bg-transparent px-2 focus:border-tmagenta"
+                >
+                  {teams.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+                <Button size="sm" variant="outline" onClick={handleRemoveTeam}>
+                  Delete team
+                </Button>
+              </>
+            ) : (
+              <p className="text-gray-500">You don't manage any teams yet.</p>
+            )}
+          </div>
+          <form onSubmit={handleCreateTeam} className="flex items-center gap-2">
+            <Input
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+              aria-label="New team name"
+              placeholder="New team name"
+              className="w-48 border-gray-300 focus:border-tmagenta focus:ring-tmagenta"
+            />
+            <Button
+              type="submit"
+              disabled={!newTeamName.trim()}
+              className="bg-tmagenta text-twhite hover:bg-tmagenta/90"
+            >
+              Create Team
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {team && (
+        <>
+          {/* Leaderboard */}
+          <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+            <CardContent className="p-6">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <h2 className="text-2xl font-semibold text-tmagenta">Leaderboard</h2>
+                  <p className="text-sm text-gray-500">{describeRange(range)}</p>
+                </div>
+                <PeriodSelector
+                  period={period}
+                  customRange={customRange}
+                  onPeriodChange={setPeriod}
+                  onCustomRangeChange={setCustomRange}
+                />
+              </div>
+              <Leaderboard
+                standings={standings}
+                metric={metric}
+                onMetricChange={setMetric}
+                selectedUserId={selectedUserId}
+                onSelect={setSelectedUserId}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Drill-down into one rep */}
+          {selected && (
+            <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+              <CardContent className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <div>
+                    <h2 className="text-2xl font-semibold text-tmagenta">
+                      {selected.member.displayName}
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                      {selected.summary.entryCount} entries · {selected.summary.saleCount} plan
+                      sales · avg MRC ${selected.summary.averageMrc.toFixed(2)} / sale
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => setSelectedUserId(null)}>
+                    Close
+                  </Button>
+                </div>
+                <RepEntries entries={repEntries} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Roster */}
+          <Card className="mt-8 rounded-lg border border-gray-200 bg-twhite shadow-lg">
+            <CardContent className="p-6">
+              <h2 className="mb-4 text-2xl font-semibold text-tmagenta">Reps on {team.name}</h2>
+              {canAssign ? (
+                <TeamMembers team={team} onAdd={handleAddMember} onRemove={handleRemoveMember} />
+              ) : (
+                <TeamMembers team={team} />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
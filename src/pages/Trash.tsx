@@ -0,0 +1,197 @@
+// Default repository (Supabase-backed)
+import { entriesRepository } from "@/lib/supabaseClient";
+import {
+  TRASH_RETENTION_DAYS,
+  type EntriesRepository,
+} from "@/lib/entriesRepository";
+import type { TrashedEntry } from "@/types/entry";
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatSales } from "@/lib/sales";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+// One row of the Trash view: a single deleted entry, or every entry of one Clear Database
+type TrashGroup =
+  | { kind: "entry"; entry: TrashedEntry }
+  | { kind: "batch"; batchId: string; entries: TrashedEntry[] };
+
+/**
+ * groupTrash: Groups a Clear Database's entries under one row, keeping the
+ * most-recently-deleted-first order.
+ */
+function groupTrash(entries: TrashedEntry[]): TrashGroup[] {
+  const groups: TrashGroup[] = [];
+  const batches = new Map<string, TrashedEntry[]>();
+  for (const entry of entries) {
+    if (!entry.batchId) {
+      groups.push({ kind: "entry", entry });
+      continue;
+    }
+    const batch = batches.get(entry.batchId);
+    if (batch) {
+      batch.push(entry);
+    } else {
+      const created = [entry];
+      batches.set(entry.batchId, created);
+      groups.push({ kind: "batch", batchId: entry.batchId, entries: created });
+    }
+  }
+  return groups;
+}
+
+// "Jun 3, 2026, 4:05 PM" in the user's locale
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+// When a trashed entry is purged for good
+const purgeDate = (deletedAt: string) =>
+  new Date(
+    Date.parse(deletedAt) + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  ).toLocaleDateString(undefined, { dateStyle: "medium" });
+
+/**
+ * Trash page.
+ * Lists deleted entries until they are purged, and restores single entries or a
+ * whole Clear Database.
+ * @param repository - Where entries are read from and restored (defaults to Supabase)
+ */
+export default function Trash({
+  repository = entriesRepository,
+}: {
+  repository?: EntriesRepository;
+}) {
+  const navigate = useNavigate();
+  const [trash, setTrash] = useState<TrashedEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Key of the row being restored (entry id or batch id)
+  const [restoringKey, setRestoringKey] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setTrash(await repository.listTrash());
+    } catch (err: any) {
+      console.error("Trash fetch error:", err.message);
+    }
+    setLoading(false);
+  }, [repository]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  /**
+   * handleRestore: Restores one row of the Trash view and refreshes the list.
+   */
+  const handleRestore = async (key: string, restore: () => Promise<number>) => {
+    setRestoringKey(key);
+    try {
+      await restore();
+      await reload();
+    } catch (err: any) {
+      console.error("Restore error:", err.message);
+      alert("Could not restore entries:\n" + err.message);
+    } finally {
+      setRestoringKey(null);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading…</div>;
+  }
+
+  const groups = groupTrash(trash);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-800 to-gray-200 p-6">
+      {/* ➡️ Top Nav */}
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-tmagenta">TRASH</h1>
+        <Button
+          variant="outline"
+          onClick={() => navigate("/")}
+          className="border-tmagenta text-tmagenta transition-colors hover:bg-tmagenta hover:text-twhite"
+        >
+          Back to dashboard
+        </Button>
+      </div>
+
+      <Card className="rounded-lg border border-gray-200 bg-twhite shadow-lg">
+        <CardContent className="p-6">
+          <h2 className="mb-1 text-2xl font-semibold text-tmagenta">Deleted Entries</h2>
+          <p className="mb-4 text-sm text-gray-500">
+            Deleted entries stay here for {TRASH_RETENTION_DAYS} days, then they are removed
+            permanently.
+          </p>
+          {groups.length === 0 ? (
+            <p className="text-sm text-gray-500">The trash is empty.</p>
+          ) : (
+            <table className="min-w-full table-auto border-collapse text-sm text-tblack">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Deleted</th>
+                  <th className="px-4 py-2 text-left font-medium">Entries</th>
+                  <th className="px-4 py-2 text-left font-medium">Purged on</th>
+                  <th className="px-4 py-2 text-left font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map((group, idx) => {
+                  const key = group.kind === "entry" ? group.entry.id : group.batchId;
+                  const deletedAt =
+                    group.kind === "entry" ? group.entry.deletedAt : group.entries[0].deletedAt;
+                  return (
+                    <tr key={key} className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}>
+                      <td className="whitespace-nowrap px-4 py-2">{formatTimestamp(deletedAt)}</td>
+                      <td className="px-4 py-2">
+                        {group.kind === "entry" ? (
+                          <>
+                            {group.entry.date} · {group.entry.voiceLines} voice lines
+                            {group.entry.sales.length > 0 && (
+                              <span className="text-gray-500"> · {formatSales(group.entry.sales)}</span>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            Clear Database: {group.entries.length} entries
+                            <span className="text-gray-500">
+                              {" "}
+                              ({group.entries[group.entries.length - 1].date} to{" "}
+                              {group.entries[0].date})
+                            </span>
+                          </>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-4 py-2">{purgeDate(deletedAt)}</td>
+                      <td className="px-4 py-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={restoringKey !== null}
+                          onClick={() =>
+                            handleRestore(key, () =>
+                              group.kind === "entry"
+                                ? repository.restore([group.entry.id])
+                                : repository.restoreBatch(group.batchId)
+                            )
+                          }
+                          className="border-tmagenta text-tmagenta hover:bg-tmagenta hover:text-twhite"
+                        >
+                          {restoringKey === key
+                            ? "Restoring…"
+                            : group.kind === "entry"
+                              ? "Restore"
+                              : "Restore all"}
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
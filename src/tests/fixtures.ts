@@ -0,0 +1,18 @@
+/** fixtures.ts
+ *
+ * Shared test data for the unit tests.
+ * • `entry(date, overrides)` – a one-voice-line day; override any field the test is about
+ */
+import type { Entry } from "../types/entry";
+
+export const entry = (date: string, overrides: Partial<Entry> = {}): Entry => ({
+  date,
+  voiceLines: "1",
+  bts: "0",
+  iot: "0",
+  hsi: "0",
+  accessories: "0",
+  protection: "0",
+  sales: [],
+  ...overrides,
+});
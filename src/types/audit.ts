@@ -0,0 +1,43 @@
+import type { StoredEntry } from "./entry";
+
+/**
+ * Where a change to an entry came from: the app's own forms, a CSV import or a
+ * direct API call. The audit log adds "system" for scheduled jobs (the trash purge).
+ */
+export type EntrySource = "ui" | "import" | "api";
+
+/**
+ * What happened to the entry.
+ */
+export type AuditAction =
+  | "create"     // Added
+  | "update"     // Edited
+  | "delete"     // Moved to the trash on its own
+  | "clear"      // Moved to the trash by a Clear Database
+  | "restore"    // Taken out of the trash
+  | "purge";     // Removed for good after the retention period
+
+/**
+ * AuditRecord is one row of the append-only entry audit log.
+ */
+export type AuditRecord = {
+  id: string;
+  entryId: string;
+  userId: string;                      // Owner of the entry
+  actorId: string | null;              // Who made the change (null for system jobs)
+  actorName: string | null;
+  action: AuditAction;
+  source: EntrySource | "system";
+  before: StoredEntry | null;          // Values before the change (null on create)
+  after: StoredEntry | null;           // Values after the change (null on purge)
+  batchId: string | null;              // The Clear Database a clear / restore belongs to
+  createdAt: string;                   // ISO timestamp of the change
+};
+
+/**
+ * AuditActor is someone whose changes appear in the log (for the user filter).
+ */
+export type AuditActor = {
+  id: string;
+  name: string;
+};
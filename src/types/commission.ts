@@ -0,0 +1,28 @@
+import type { LineType } from "./entry";
+
+/**
+ * One accelerator tier: voice lines sold beyond `attainment` percent of the monthly
+ * voice-line quota pay the voice rate times `multiplier`.
+ */
+export type AcceleratorTier = {
+  attainment: number;      // Percent of quota where the tier starts (e.g. 100)
+  multiplier: number;      // Multiplier on the voice rate (e.g. 1.5)
+};
+
+/**
+ * CommissionRules is one version of the comp plan, in force from `effectiveFrom`
+ * until the next version starts.
+ */
+export type CommissionRules = {
+  id: string;
+  effectiveFrom: string;                  // First day the version applies (YYYY-MM-DD)
+  lineRates: Record<LineType, number>;    // $ per unit sold, per line type
+  accessoryPercent: number;               // % of accessory revenue
+  protectionSpiff: number;                // $ per protection package
+  accelerators: AcceleratorTier[];        // Ascending by attainment
+};
+
+/**
+ * Values for creating a version.
+ */
+export type CommissionRulesInput = Omit<CommissionRules, "id">;
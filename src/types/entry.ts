@@ -0,0 +1,46 @@
+/**
+ * Line type a plan sale was made on (matches the four line metrics).
+ */
+export type LineType = "voice" | "bts" | "iot" | "hsi";
+
+/**
+ * Sale is one line item of an entry: a single account sold on one plan.
+ */
+export type Sale = {
+  planName: string;      // Name of the plan
+  lineType: LineType;    // Which kind of line the plan was sold on
+  mrc: string;           // Monthly Recurring Charge ($) as string
+};
+
+/**
+ * Entry represents a single day's sales data in the UI.
+ * Every numeric value is kept as a string so it can be bound directly to form inputs.
+ */
+export type Entry = {
+  date: string;          // Entry date (YYYY-MM-DD)
+  voiceLines: string;    // Number of voice lines sold
+  bts: string;           // Number of BTS units sold
+  iot: string;           // Number of IoT units sold
+  hsi: string;           // Number of HSI units sold
+  accessories: string;   // Accessories revenue ($) as string
+  protection: string;    // Protection packages sold
+  sales: Sale[];         // Plan sales made that day, one line item per account
+};
+
+/**
+ * StoredEntry is an Entry that has been persisted and carries its database identity.
+ */
+export type StoredEntry = Entry & {
+  id: string;            // Primary key of the `entries` row
+  userId: string;        // Owner (the `sub` claim of the JWT that created it)
+  createdAt: string;     // ISO timestamp the row was created
+  updatedAt: string;     // ISO timestamp of the last change (the row's version)
+};
+
+/**
+ * TrashedEntry is a stored entry that was deleted and can still be restored.
+ */
+export type TrashedEntry = StoredEntry & {
+  deletedAt: string;          // When it was moved to the trash (ISO timestamp)
+  batchId: string | null;     // Set when it was trashed by a Clear Database, shared by that whole clear
+};
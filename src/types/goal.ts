@@ -0,0 +1,11 @@
+/**
+ * Goal holds one user's monthly quota targets.
+ * Unlike Entry these are numbers: they are edited as a unit and never bound field-by-field.
+ */
+export type Goal = {
+  month: string;           // First day of the month (YYYY-MM-01)
+  voiceLines: number;      // Voice lines to sell
+  hsi: number;             // HSI units to sell
+  protectionRate: number;  // Protection attach rate to reach (% of all lines)
+  accessories: number;     // Accessories revenue to reach ($)
+};
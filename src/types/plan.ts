@@ -0,0 +1,14 @@
+/**
+ * Plan is one entry of the shared plan catalog.
+ */
+export type Plan = {
+  id: string;
+  name: string;            // Canonical plan name, stored on every sale of the plan
+  defaultMrc: number;      // MRC ($) pre-filled when the plan is picked
+  active: boolean;         // Inactive plans are kept for history but not offered
+};
+
+/**
+ * Values for creating or editing a plan.
+ */
+export type PlanInput = Omit<Plan, "id">;
@@ -0,0 +1,16 @@
+/**
+ * TeamMember is one rep on a manager's team.
+ */
+export type TeamMember = {
+  userId: string;          // The rep's user id (the `sub` their entries are owned by)
+  displayName: string;     // Name shown on the leaderboard
+};
+
+/**
+ * Team is a group of reps managed by one store manager.
+ */
+export type Team = {
+  id: string;
+  name: string;
+  members: TeamMember[];   // Sorted by display name
+};
@@ -0,0 +1,23 @@
+/**
+ * The user's verdict on a tip.
+ */
+export type TipFeedback = "helpful" | "not_helpful";
+
+/**
+ * TipInput is a freshly generated tip, before it is saved.
+ */
+export type TipInput = {
+  date: string;                  // The user's local day (YYYY-MM-DD) it was generated for
+  text: string;
+  provider: string;              // Tip provider that wrote it ("openai", "rules", …)
+  fingerprint: string;           // Summary of the data it was generated from (see tipFingerprint)
+};
+
+/**
+ * Tip is a saved Tip of the Day.
+ */
+export type Tip = TipInput & {
+  id: string;
+  feedback: TipFeedback | null;  // null until the user rates it
+  createdAt: string;             // ISO timestamp
+};
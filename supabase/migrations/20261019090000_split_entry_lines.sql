@@ -0,0 +1,30 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Split the combined `lines` count into one column per line category.
+--
+-- • Adds voice_lines / bts / iot / hsi as non-null integer columns.
+-- • Backfills existing rows: their breakdown was never stored, so the
+--   combined count is attributed to voice lines (which is what the UI
+--   has been displaying for them all along).
+-- • Re-creates `lines` as a generated total so anything still reading
+--   the old column keeps getting the sum of all four categories.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+alter table public.entries
+  add column if not exists voice_lines integer not null default 0,
+  add column if not exists bts         integer not null default 0,
+  add column if not exists iot         integer not null default 0,
+  add column if not exists hsi         integer not null default 0;
+
+update public.entries
+  set voice_lines = coalesce(lines, 0);
+
+alter table public.entries
+  drop column lines;
+
+alter table public.entries
+  add column lines integer
+    generated always as (voice_lines + bts + iot + hsi) stored;
+
+commit;
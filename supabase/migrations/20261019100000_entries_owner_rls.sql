@@ -0,0 +1,51 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Scope every entry to the user who created it.
+--
+-- • Adds `user_id`, filled from the `sub` claim of the caller's JWT.
+--   Tokens are issued by POST /api/login and signed with the project's
+--   JWT secret, so PostgREST verifies them and exposes the claims via
+--   auth.jwt().
+-- • Backfills existing rows to the demo account (user 1), the only user
+--   that could have created them.
+-- • Enables row-level security so reads and writes only ever touch the
+--   caller's own rows; the anon role gets no access at all.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+alter table public.entries
+  add column if not exists user_id text;
+
+update public.entries
+  set user_id = '1'
+  where user_id is null;
+
+alter table public.entries
+  alter column user_id set default (auth.jwt() ->> 'sub'),
+  alter column user_id set not null;
+
+create index if not exists entries_user_id_created_at_idx
+  on public.entries (user_id, created_at desc);
+
+alter table public.entries enable row level security;
+
+revoke all on public.entries from anon;
+
+create policy "entries_select_own" on public.entries
+  for select to authenticated
+  using (user_id = auth.jwt() ->> 'sub');
+
+create policy "entries_insert_own" on public.entries
+  for insert to authenticated
+  with check (user_id = auth.jwt() ->> 'sub');
+
+create policy "entries_update_own" on public.entries
+  for update to authenticated
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
+
+create policy "entries_delete_own" on public.entries
+  for delete to authenticated
+  using (user_id = auth.jwt() ->> 'sub');
+
+commit;
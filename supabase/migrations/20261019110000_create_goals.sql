@@ -0,0 +1,47 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Monthly quota goals, one row per user per month.
+--
+-- • `month` is the first day of the month the goal applies to.
+-- • Targets: voice lines, HSI, protection attach rate (percent of all
+--   lines) and accessory revenue in dollars.
+-- • Same ownership model as `entries`: `user_id` comes from the caller's
+--   JWT and row-level security limits every user to their own goals.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create table if not exists public.goals (
+  id               uuid primary key default gen_random_uuid(),
+  user_id          text not null default (auth.jwt() ->> 'sub'),
+  month            date not null check (extract(day from month) = 1),
+  voice_lines      integer not null default 0 check (voice_lines >= 0),
+  hsi              integer not null default 0 check (hsi >= 0),
+  protection_rate  numeric(5, 2) not null default 0
+                     check (protection_rate between 0 and 100),
+  accessories      numeric(10, 2) not null default 0 check (accessories >= 0),
+  created_at       timestamptz not null default now(),
+  unique (user_id, month)
+);
+
+alter table public.goals enable row level security;
+
+revoke all on public.goals from anon;
+
+create policy "goals_select_own" on public.goals
+  for select to authenticated
+  using (user_id = auth.jwt() ->> 'sub');
+
+create policy "goals_insert_own" on public.goals
+  for insert to authenticated
+  with check (user_id = auth.jwt() ->> 'sub');
+
+create policy "goals_update_own" on public.goals
+  for update to authenticated
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
+
+create policy "goals_delete_own" on public.goals
+  for delete to authenticated
+  using (user_id = auth.jwt() ->> 'sub');
+
+commit;
@@ -0,0 +1,56 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Per-day totals for a date range, so summaries and charts cover the
+-- full dataset while the entries table only loads one page at a time.
+--
+-- • `security invoker` keeps row-level security in force: callers only
+--   ever aggregate their own entries.
+-- • Null bounds mean "no limit on that side".
+-- • `mrc_total` is returned (not an average) so days can be combined
+--   into correct period averages on the client.
+-- • The (created_at, id) index backs keyset pagination of the table.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create or replace function public.entry_daily_totals(
+  p_from date default null,
+  p_to   date default null
+)
+returns table (
+  date         date,
+  entry_count  bigint,
+  voice_lines  bigint,
+  bts          bigint,
+  iot          bigint,
+  hsi          bigint,
+  accessories  numeric,
+  protection   bigint,
+  mrc_total    numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    e.date,
+    count(*),
+    sum(e.voice_lines),
+    sum(e.bts),
+    sum(e.iot),
+    sum(e.hsi),
+    sum(e.accessories),
+    sum(e.protection),
+    sum(e.revenue)
+  from public.entries e
+  where (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by e.date
+  order by e.date;
+$$;
+
+grant execute on function public.entry_daily_totals(date, date) to authenticated;
+
+create index if not exists entries_created_at_id_idx
+  on public.entries (created_at desc, id desc);
+
+commit;
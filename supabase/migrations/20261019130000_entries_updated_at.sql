@@ -0,0 +1,33 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Track when each entry was last modified.
+--
+-- • `updated_at` is bumped by a trigger on every update, so clients can
+--   send the version they edited and detect when someone else changed
+--   the row in the meantime (used when replaying offline edits).
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+alter table public.entries
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.entries
+  set updated_at = created_at;
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_set_updated_at on public.entries;
+
+create trigger entries_set_updated_at
+  before update on public.entries
+  for each row execute function public.set_updated_at();
+
+commit;
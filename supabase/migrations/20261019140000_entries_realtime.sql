@@ -0,0 +1,26 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Broadcast entry changes over Supabase Realtime.
+--
+-- • Adds `entries` to the `supabase_realtime` publication so dashboards
+--   receive inserts, updates and deletes live. Realtime applies the
+--   table's row-level security, so each user only sees their own rows.
+-- • Delete events carry just the primary key (default replica identity),
+--   which is all the client needs to drop the row.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'entries'
+  ) then
+    alter publication supabase_realtime add table public.entries;
+  end if;
+end;
+$$;
+
+commit;
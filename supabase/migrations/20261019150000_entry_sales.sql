@@ -0,0 +1,113 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Plan sales as line items.
+--
+-- • `sales` holds one element per account sold that day:
+--   {"plan_name": text, "line_type": "voice"|"bts"|"iot"|"hsi", "mrc": number}.
+--   A jsonb array keeps an entry and its sales in one row, so inserts,
+--   updates, realtime events and offline replays stay atomic.
+-- • Existing rows become one voice-line sale from their plan_name/revenue;
+--   those two columns are then dropped.
+-- • `entry_daily_totals` now returns `sale_count` and sums MRC over the
+--   sales, so the average MRC is per sale rather than per day.
+-- • `entry_plan_mix` returns sales per plan for the plan-mix breakdown.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+alter table public.entries
+  add column if not exists sales jsonb not null default '[]'::jsonb;
+
+alter table public.entries
+  add constraint entries_sales_is_array check (jsonb_typeof(sales) = 'array');
+
+update public.entries
+  set sales = jsonb_build_array(
+    jsonb_build_object(
+      'plan_name', plan_name,
+      'line_type', 'voice',
+      'mrc', coalesce(revenue, 0)
+    )
+  )
+  where coalesce(trim(plan_name), '') <> '';
+
+-- The return type changes, so the function must be dropped first
+drop function if exists public.entry_daily_totals(date, date);
+
+alter table public.entries
+  drop column plan_name,
+  drop column revenue;
+
+create function public.entry_daily_totals(
+  p_from date default null,
+  p_to   date default null
+)
+returns table (
+  date         date,
+  entry_count  bigint,
+  voice_lines  bigint,
+  bts          bigint,
+  iot          bigint,
+  hsi          bigint,
+  accessories  numeric,
+  protection   bigint,
+  sale_count   bigint,
+  mrc_total    numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    e.date,
+    count(*),
+    sum(e.voice_lines),
+    sum(e.bts),
+    sum(e.iot),
+    sum(e.hsi),
+    sum(e.accessories),
+    sum(e.protection),
+    sum(s.sale_count),
+    sum(s.mrc_total)
+  from public.entries e
+  cross join lateral (
+    select
+      count(*)                                   as sale_count,
+      coalesce(sum((item ->> 'mrc')::numeric), 0) as mrc_total
+    from jsonb_array_elements(e.sales) as item
+  ) s
+  where (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by e.date
+  order by e.date;
+$$;
+
+grant execute on function public.entry_daily_totals(date, date) to authenticated;
+
+create or replace function public.entry_plan_mix(
+  p_from date default null,
+  p_to   date default null
+)
+returns table (
+  plan_name   text,
+  sale_count  bigint,
+  mrc_total   numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    item ->> 'plan_name',
+    count(*),
+    sum((item ->> 'mrc')::numeric)
+  from public.entries e
+  cross join lateral jsonb_array_elements(e.sales) as item
+  where (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by item ->> 'plan_name'
+  order by count(*) desc, item ->> 'plan_name';
+$$;
+
+grant execute on function public.entry_plan_mix(date, date) to authenticated;
+
+commit;
@@ -0,0 +1,81 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Plan catalog, shared by every user of the deployment.
+--
+-- • One row per plan: name, default MRC (pre-filled when the plan is
+--   picked) and an active flag (retired plans stay for old entries but
+--   are no longer offered).
+-- • Names are unique case-insensitively.
+-- • Any signed-in user can read the catalog and manage it; plans are
+--   retired rather than deleted, so there is no delete policy.
+-- • `rename_plan_names` rewrites legacy free-text plan names in the
+--   caller's own entries (row-level security applies) and returns how
+--   many entries changed; the settings screen's merge tool uses it.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create table if not exists public.plans (
+  id           uuid primary key default gen_random_uuid(),
+  name         text not null check (trim(name) <> ''),
+  default_mrc  numeric(10, 2) not null default 0 check (default_mrc >= 0),
+  active       boolean not null default true,
+  created_at   timestamptz not null default now()
+);
+
+create unique index if not exists plans_name_lower_key
+  on public.plans (lower(name));
+
+alter table public.plans enable row level security;
+
+revoke all on public.plans from anon;
+
+create policy "plans_select_all" on public.plans
+  for select to authenticated
+  using (true);
+
+create policy "plans_insert_all" on public.plans
+  for insert to authenticated
+  with check (true);
+
+create policy "plans_update_all" on public.plans
+  for update to authenticated
+  using (true)
+  with check (true);
+
+create or replace function public.rename_plan_names(
+  p_from text[],
+  p_to   text
+)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  v_count integer;
+begin
+  update public.entries e
+    set sales = (
+      select jsonb_agg(
+        case
+          when item ->> 'plan_name' = any (p_from)
+            then jsonb_set(item, '{plan_name}', to_jsonb(p_to))
+          else item
+        end
+        order by ord
+      )
+      from jsonb_array_elements(e.sales) with ordinality as t(item, ord)
+    )
+    where exists (
+      select 1
+      from jsonb_array_elements(e.sales) as item
+      where item ->> 'plan_name' = any (p_from)
+    );
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.rename_plan_names(text[], text) to authenticated;
+
+commit;
@@ -0,0 +1,55 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Commission rules (the comp plan), versioned by effective date.
+--
+-- • Each row is one version of the rules, in force from `effective_from`
+--   until the next version starts. Estimates for a date always use the
+--   version in force on that date, so publishing a new comp plan never
+--   changes historical estimates.
+-- • Rates: dollars per unit for each line type, a percentage of
+--   accessory revenue and a dollar spiff per protection package.
+-- • `accelerators` is a jsonb array of tiers
+--   [{"attainment": <% of the monthly voice-line quota>, "multiplier": n}];
+--   voice lines sold beyond a tier's attainment pay the voice rate times
+--   its multiplier.
+-- • Shared by every user: readable and manageable by any signed-in user.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create table if not exists public.commission_rules (
+  id                  uuid primary key default gen_random_uuid(),
+  effective_from      date not null unique,
+  voice_rate          numeric(10, 2) not null default 0 check (voice_rate >= 0),
+  bts_rate            numeric(10, 2) not null default 0 check (bts_rate >= 0),
+  iot_rate            numeric(10, 2) not null default 0 check (iot_rate >= 0),
+  hsi_rate            numeric(10, 2) not null default 0 check (hsi_rate >= 0),
+  accessory_percent   numeric(5, 2)  not null default 0
+                        check (accessory_percent between 0 and 100),
+  protection_spiff    numeric(10, 2) not null default 0 check (protection_spiff >= 0),
+  accelerators        jsonb not null default '[]'::jsonb
+                        check (jsonb_typeof(accelerators) = 'array'),
+  created_at          timestamptz not null default now()
+);
+
+alter table public.commission_rules enable row level security;
+
+revoke all on public.commission_rules from anon;
+
+create policy "commission_rules_select_all" on public.commission_rules
+  for select to authenticated
+  using (true);
+
+create policy "commission_rules_insert_all" on public.commission_rules
+  for insert to authenticated
+  with check (true);
+
+create policy "commission_rules_update_all" on public.commission_rules
+  for update to authenticated
+  using (true)
+  with check (true);
+
+create policy "commission_rules_delete_all" on public.commission_rules
+  for delete to authenticated
+  using (true);
+
+commit;
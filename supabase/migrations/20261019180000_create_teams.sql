@@ -0,0 +1,168 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Teams of reps, for the store manager's leaderboard.
+--
+-- • `teams` belong to the manager who created them (`manager_id` is
+--   the `sub` claim, like `entries.user_id`); `team_members` lists the
+--   reps on each team with the name shown on the leaderboard.
+-- • Managers see and edit only their own teams and memberships.
+-- • Entries keep their owner-only policies, so a manager's dashboard
+--   still shows only their own sales. Team figures come from two
+--   security definer functions that first check the caller manages
+--   the team:
+--     – `team_daily_totals`  per-rep, per-day totals (the leaderboard)
+--     – `team_member_entries` one rep's entries (the drill-down)
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create table if not exists public.teams (
+  id          uuid primary key default gen_random_uuid(),
+  name        text not null check (trim(name) <> ''),
+  manager_id  text not null default (auth.jwt() ->> 'sub'),
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists teams_manager_id_idx on public.teams (manager_id);
+
+create table if not exists public.team_members (
+  team_id       uuid not null references public.teams (id) on delete cascade,
+  user_id       text not null,
+  display_name  text not null check (trim(display_name) <> ''),
+  primary key (team_id, user_id)
+);
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+
+revoke all on public.teams from anon;
+revoke all on public.team_members from anon;
+
+create policy "teams_select_own" on public.teams
+  for select to authenticated
+  using (manager_id = auth.jwt() ->> 'sub');
+
+create policy "teams_insert_own" on public.teams
+  for insert to authenticated
+  with check (manager_id = auth.jwt() ->> 'sub');
+
+create policy "teams_update_own" on public.teams
+  for update to authenticated
+  using (manager_id = auth.jwt() ->> 'sub')
+  with check (manager_id = auth.jwt() ->> 'sub');
+
+create policy "teams_delete_own" on public.teams
+  for delete to authenticated
+  using (manager_id = auth.jwt() ->> 'sub');
+
+-- Memberships are managed by whoever manages the team
+create policy "team_members_select_own" on public.team_members
+  for select to authenticated
+  using (exists (
+    select 1 from public.teams t
+    where t.id = team_id and t.manager_id = auth.jwt() ->> 'sub'
+  ));
+
+create policy "team_members_insert_own" on public.team_members
+  for insert to authenticated
+  with check (exists (
+    select 1 from public.teams t
+    where t.id = team_id and t.manager_id = auth.jwt() ->> 'sub'
+  ));
+
+create policy "team_members_update_own" on public.team_members
+  for update to authenticated
+  using (exists (
+    select 1 from public.teams t
+    where t.id = team_id and t.manager_id = auth.jwt() ->> 'sub'
+  ));
+
+create policy "team_members_delete_own" on public.team_members
+  for delete to authenticated
+  using (exists (
+    select 1 from public.teams t
+    where t.id = team_id and t.manager_id = auth.jwt() ->> 'sub'
+  ));
+
+create or replace function public.team_daily_totals(
+  p_team_id uuid,
+  p_from    date default null,
+  p_to      date default null
+)
+returns table (
+  user_id      text,
+  date         date,
+  entry_count  bigint,
+  voice_lines  bigint,
+  bts          bigint,
+  iot          bigint,
+  hsi          bigint,
+  accessories  numeric,
+  protection   bigint,
+  sale_count   bigint,
+  mrc_total    numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.user_id,
+    e.date,
+    count(*),
+    sum(e.voice_lines),
+    sum(e.bts),
+    sum(e.iot),
+    sum(e.hsi),
+    sum(e.accessories),
+    sum(e.protection),
+    sum(s.sale_count),
+    sum(s.mrc_total)
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id
+  join public.teams t
+    on t.id = m.team_id and t.manager_id = auth.jwt() ->> 'sub'
+  cross join lateral (
+    select
+      count(*)                                   as sale_count,
+      coalesce(sum((item ->> 'mrc')::numeric), 0) as mrc_total
+    from jsonb_array_elements(e.sales) as item
+  ) s
+  where (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by e.user_id, e.date
+  order by e.user_id, e.date;
+$$;
+
+revoke execute on function public.team_daily_totals(uuid, date, date) from public;
+grant execute on function public.team_daily_totals(uuid, date, date) to authenticated;
+
+create or replace function public.team_member_entries(
+  p_team_id uuid,
+  p_user_id text,
+  p_from    date default null,
+  p_to      date default null
+)
+returns setof public.entries
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.*
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id
+  join public.teams t
+    on t.id = m.team_id and t.manager_id = auth.jwt() ->> 'sub'
+  where e.user_id = p_user_id
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  order by e.date desc, e.created_at desc;
+$$;
+
+revoke execute on function public.team_member_entries(uuid, text, date, date) from public;
+grant execute on function public.team_member_entries(uuid, text, date, date) to authenticated;
+
+commit;
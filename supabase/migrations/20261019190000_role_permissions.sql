@@ -0,0 +1,172 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Role-based permissions (rep, manager, admin).
+--
+-- • POST /api/login now signs an `appRole` claim; `app_role()` reads it,
+--   treating tokens without one as "rep" (the least privileged role).
+-- • Only admins may change the plan catalog and the commission rules;
+--   everyone can still read them.
+-- • Only admins may delete more than one entry in a statement (Clear
+--   Database). Reps keep deleting their own entries one at a time; the
+--   owner-only entry policies are unchanged.
+-- • Only managers and admins may create teams, and the team functions
+--   answer only for them.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create or replace function public.app_role()
+returns text
+language sql
+stable
+as $$
+  select case auth.jwt() ->> 'appRole'
+    when 'admin'   then 'admin'
+    when 'manager' then 'manager'
+    else 'rep'
+  end;
+$$;
+
+grant execute on function public.app_role() to authenticated;
+
+-- Plan catalog: admins only
+drop policy if exists "plans_insert_all" on public.plans;
+drop policy if exists "plans_update_all" on public.plans;
+
+create policy "plans_insert_admin" on public.plans
+  for insert to authenticated
+  with check (public.app_role() = 'admin');
+
+create policy "plans_update_admin" on public.plans
+  for update to authenticated
+  using (public.app_role() = 'admin')
+  with check (public.app_role() = 'admin');
+
+-- Commission rules: admins only
+drop policy if exists "commission_rules_insert_all" on public.commission_rules;
+drop policy if exists "commission_rules_update_all" on public.commission_rules;
+drop policy if exists "commission_rules_delete_all" on public.commission_rules;
+
+create policy "commission_rules_insert_admin" on public.commission_rules
+  for insert to authenticated
+  with check (public.app_role() = 'admin');
+
+create policy "commission_rules_update_admin" on public.commission_rules
+  for update to authenticated
+  using (public.app_role() = 'admin')
+  with check (public.app_role() = 'admin');
+
+create policy "commission_rules_delete_admin" on public.commission_rules
+  for delete to authenticated
+  using (public.app_role() = 'admin');
+
+-- Bulk deletes of entries: admins only
+create or replace function public.entries_guard_bulk_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.app_role() <> 'admin' and (select count(*) from deleted_rows) > 1 then
+    raise exception 'Only admins can delete entries in bulk'
+      using errcode = '42501';
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists entries_guard_bulk_delete on public.entries;
+
+create trigger entries_guard_bulk_delete
+  after delete on public.entries
+  referencing old table as deleted_rows
+  for each statement
+  execute function public.entries_guard_bulk_delete();
+
+-- Teams: created by managers and admins
+drop policy if exists "teams_insert_own" on public.teams;
+
+create policy "teams_insert_own" on public.teams
+  for insert to authenticated
+  with check (
+    manager_id = auth.jwt() ->> 'sub'
+    and public.app_role() in ('manager', 'admin')
+  );
+
+create or replace function public.team_daily_totals(
+  p_team_id uuid,
+  p_from    date default null,
+  p_to      date default null
+)
+returns table (
+  user_id      text,
+  date         date,
+  entry_count  bigint,
+  voice_lines  bigint,
+  bts          bigint,
+  iot          bigint,
+  hsi          bigint,
+  accessories  numeric,
+  protection   bigint,
+  sale_count   bigint,
+  mrc_total    numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.user_id,
+    e.date,
+    count(*),
+    sum(e.voice_lines),
+    sum(e.bts),
+    sum(e.iot),
+    sum(e.hsi),
+    sum(e.accessories),
+    sum(e.protection),
+    sum(s.sale_count),
+    sum(s.mrc_total)
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id
+  join public.teams t
+    on t.id = m.team_id and t.manager_id = auth.jwt() ->> 'sub'
+  cross join lateral (
+    select
+      count(*)                                   as sale_count,
+      coalesce(sum((item ->> 'mrc')::numeric), 0) as mrc_total
+    from jsonb_array_elements(e.sales) as item
+  ) s
+  where public.app_role() in ('manager', 'admin')
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by e.user_id, e.date
+  order by e.user_id, e.date;
+$$;
+
+create or replace function public.team_member_entries(
+  p_team_id uuid,
+  p_user_id text,
+  p_from    date default null,
+  p_to      date default null
+)
+returns setof public.entries
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.*
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id
+  join public.teams t
+    on t.id = m.team_id and t.manager_id = auth.jwt() ->> 'sub'
+  where public.app_role() in ('manager', 'admin')
+    and e.user_id = p_user_id
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  order by e.date desc, e.created_at desc;
+$$;
+
+commit;
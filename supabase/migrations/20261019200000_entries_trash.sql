@@ -0,0 +1,269 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Trash: deleting an entry marks it instead of removing the row.
+--
+-- • `deleted_at` is set when an entry is moved to the trash; trashed
+--   rows are left out of the entries table, the totals, the plan mix
+--   and the team figures.
+-- • `deleted_batch` is shared by every entry trashed by one Clear
+--   Database, so the whole clear can be restored at once.
+-- • `trash_entries(p_ids)` trashes the given entries, or all of the
+--   caller's entries (as one batch) when p_ids is null. Restoring is a
+--   plain update that clears both columns.
+-- • The bulk-delete guard now applies to trashing: only admins may
+--   trash more than one entry per statement. Clients no longer delete
+--   rows at all.
+-- • `purge_deleted_entries` permanently deletes entries that have been
+--   in the trash longer than the retention window (30 days). It runs
+--   nightly through pg_cron when that extension is available.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+alter table public.entries
+  add column if not exists deleted_at    timestamptz,
+  add column if not exists deleted_batch uuid;
+
+create index if not exists entries_user_id_deleted_at_idx
+  on public.entries (user_id, deleted_at)
+  where deleted_at is not null;
+
+-- Hard deletes are reserved for the purge job
+drop policy if exists "entries_delete_own" on public.entries;
+revoke delete on public.entries from authenticated;
+
+drop trigger if exists entries_guard_bulk_delete on public.entries;
+drop function if exists public.entries_guard_bulk_delete();
+
+create or replace function public.entries_guard_bulk_trash()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.app_role() <> 'admin' and (
+    select count(*)
+    from new_rows n
+    join old_rows o on o.id = n.id
+    where o.deleted_at is null and n.deleted_at is not null
+  ) > 1 then
+    raise exception 'Only admins can delete entries in bulk'
+      using errcode = '42501';
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists entries_guard_bulk_trash on public.entries;
+
+create trigger entries_guard_bulk_trash
+  after update on public.entries
+  referencing old table as old_rows new table as new_rows
+  for each statement
+  execute function public.entries_guard_bulk_trash();
+
+create or replace function public.trash_entries(p_ids text[] default null)
+returns table (batch_id uuid, trashed bigint)
+language plpgsql
+security invoker
+as $$
+declare
+  v_batch uuid := case when p_ids is null then gen_random_uuid() end;
+begin
+  return query
+  with moved as (
+    update public.entries e
+      set deleted_at = now(),
+          deleted_batch = v_batch
+      where e.deleted_at is null
+        and (p_ids is null or e.id::text = any (p_ids))
+      returning e.id
+  )
+  select v_batch, count(*) from moved;
+end;
+$$;
+
+grant execute on function public.trash_entries(text[]) to authenticated;
+
+create or replace function public.purge_deleted_entries()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from public.entries
+    where deleted_at < now() - interval '30 days';
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.purge_deleted_entries() from public;
+
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule(
+      'purge-deleted-entries',
+      '15 3 * * *',
+      'select public.purge_deleted_entries()'
+    );
+  end if;
+end;
+$$;
+
+-- Aggregates skip trashed entries
+create or replace function public.entry_daily_totals(
+  p_from date default null,
+  p_to   date default null
+)
+returns table (
+  date         date,
+  entry_count  bigint,
+  voice_lines  bigint,
+  bts          bigint,
+  iot          bigint,
+  hsi          bigint,
+  accessories  numeric,
+  protection   bigint,
+  sale_count   bigint,
+  mrc_total    numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    e.date,
+    count(*),
+    sum(e.voice_lines),
+    sum(e.bts),
+    sum(e.iot),
+    sum(e.hsi),
+    sum(e.accessories),
+    sum(e.protection),
+    sum(s.sale_count),
+    sum(s.mrc_total)
+  from public.entries e
+  cross join lateral (
+    select
+      count(*)                                   as sale_count,
+      coalesce(sum((item ->> 'mrc')::numeric), 0) as mrc_total
+    from jsonb_array_elements(e.sales) as item
+  ) s
+  where e.deleted_at is null
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by e.date
+  order by e.date;
+$$;
+
+create or replace function public.entry_plan_mix(
+  p_from date default null,
+  p_to   date default null
+)
+returns table (
+  plan_name   text,
+  sale_count  bigint,
+  mrc_total   numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    item ->> 'plan_name',
+    count(*),
+    sum((item ->> 'mrc')::numeric)
+  from public.entries e
+  cross join lateral jsonb_array_elements(e.sales) as item
+  where e.deleted_at is null
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by item ->> 'plan_name'
+  order by count(*) desc, item ->> 'plan_name';
+$$;
+
+create or replace function public.team_daily_totals(
+  p_team_id uuid,
+  p_from    date default null,
+  p_to      date default null
+)
+returns table (
+  user_id      text,
+  date         date,
+  entry_count  bigint,
+  voice_lines  bigint,
+  bts          bigint,
+  iot          bigint,
+  hsi          bigint,
+  accessories  numeric,
+  protection   bigint,
+  sale_count   bigint,
+  mrc_total    numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.user_id,
+    e.date,
+    count(*),
+    sum(e.voice_lines),
+    sum(e.bts),
+    sum(e.iot),
+    sum(e.hsi),
+    sum(e.accessories),
+    sum(e.protection),
+    sum(s.sale_count),
+    sum(s.mrc_total)
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id
+  join public.teams t
+    on t.id = m.team_id and t.manager_id = auth.jwt() ->> 'sub'
+  cross join lateral (
+    select
+      count(*)                                   as sale_count,
+      coalesce(sum((item ->> 'mrc')::numeric), 0) as mrc_total
+    from jsonb_array_elements(e.sales) as item
+  ) s
+  where public.app_role() in ('manager', 'admin')
+    and e.deleted_at is null
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by e.user_id, e.date
+  order by e.user_id, e.date;
+$$;
+
+create or replace function public.team_member_entries(
+  p_team_id uuid,
+  p_user_id text,
+  p_from    date default null,
+  p_to      date default null
+)
+returns setof public.entries
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.*
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id
+  join public.teams t
+    on t.id = m.team_id and t.manager_id = auth.jwt() ->> 'sub'
+  where public.app_role() in ('manager', 'admin')
+    and e.deleted_at is null
+    and e.user_id = p_user_id
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  order by e.date desc, e.created_at desc;
+$$;
+
+commit;
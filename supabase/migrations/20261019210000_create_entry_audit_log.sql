@@ -0,0 +1,170 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Append-only audit trail of entry changes.
+--
+-- • A trigger on `entries` writes one row per create, edit, delete
+--   (move to trash), bulk clear, restore and purge, with the entry's
+--   values before and after the change.
+-- • The actor is taken from the caller's JWT (`sub`, `username`); the
+--   source from the `X-Entry-Source` request header the clients send
+--   ("ui", "import", "api"). Requests without the header count as
+--   "api"; changes made without a JWT (the purge job) as "system".
+-- • Clients can only read the log: there are no insert, update or
+--   delete grants, and a trigger rejects updates and deletes from
+--   anyone else too.
+-- • Reps see the history of their own entries, managers that of their
+--   teams' entries, admins everything.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create table if not exists public.entry_audit_log (
+  id          bigserial primary key,
+  entry_id    text not null,
+  user_id     text not null,          -- Owner of the entry
+  actor_id    text,                   -- Who made the change (null for system jobs)
+  actor_name  text,
+  action      text not null check (action in ('create', 'update', 'delete', 'clear', 'restore', 'purge')),
+  source      text not null check (source in ('ui', 'import', 'api', 'system')),
+  before      jsonb,
+  after       jsonb,
+  batch_id    uuid,                   -- The Clear Database a 'clear' / 'restore' belongs to
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists entry_audit_log_user_id_idx
+  on public.entry_audit_log (user_id, id desc);
+
+create index if not exists entry_audit_log_actor_id_idx
+  on public.entry_audit_log (actor_id, id desc);
+
+create index if not exists entry_audit_log_created_at_idx
+  on public.entry_audit_log (created_at);
+
+alter table public.entry_audit_log enable row level security;
+
+revoke all on public.entry_audit_log from anon, authenticated;
+grant select on public.entry_audit_log to authenticated;
+
+create policy "entry_audit_log_select_visible" on public.entry_audit_log
+  for select to authenticated
+  using (
+    user_id = auth.jwt() ->> 'sub'
+    or public.app_role() = 'admin'
+    or (
+      public.app_role() = 'manager'
+      and exists (
+        select 1
+        from public.team_members m
+        join public.teams t on t.id = m.team_id
+        where m.user_id = entry_audit_log.user_id
+          and t.manager_id = auth.jwt() ->> 'sub'
+      )
+    )
+  );
+
+create or replace function public.entry_audit_log_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'entry_audit_log is append-only';
+end;
+$$;
+
+drop trigger if exists entry_audit_log_immutable on public.entry_audit_log;
+
+create trigger entry_audit_log_immutable
+  before update or delete on public.entry_audit_log
+  for each row execute function public.entry_audit_log_immutable();
+
+create or replace function public.entries_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row    public.entries;
+  v_before jsonb;
+  v_after  jsonb;
+  v_action text;
+  v_source text;
+  v_batch  uuid;
+begin
+  if tg_op = 'INSERT' then
+    v_row := new;
+    v_after := to_jsonb(new);
+    v_action := 'create';
+  elsif tg_op = 'DELETE' then
+    v_row := old;
+    v_before := to_jsonb(old);
+    v_action := 'purge';
+  else
+    v_row := new;
+    v_before := to_jsonb(old);
+    v_after := to_jsonb(new);
+    if old.deleted_at is null and new.deleted_at is not null then
+      v_action := case when new.deleted_batch is null then 'delete' else 'clear' end;
+      v_batch := new.deleted_batch;
+    elsif old.deleted_at is not null and new.deleted_at is null then
+      v_action := 'restore';
+      v_batch := old.deleted_batch;
+    elsif v_before - 'updated_at' = v_after - 'updated_at' then
+      return null;  -- Nothing but the version changed
+    else
+      v_action := 'update';
+    end if;
+  end if;
+
+  if auth.jwt() is null then
+    v_source := 'system';
+  else
+    v_source := coalesce(
+      nullif(current_setting('request.headers', true), '')::json ->> 'x-entry-source',
+      'api'
+    );
+    if v_source not in ('ui', 'import', 'api') then
+      v_source := 'api';
+    end if;
+  end if;
+
+  insert into public.entry_audit_log
+    (entry_id, user_id, actor_id, actor_name, action, source, before, after, batch_id)
+  values (
+    v_row.id::text,
+    v_row.user_id,
+    auth.jwt() ->> 'sub',
+    auth.jwt() ->> 'username',
+    v_action,
+    v_source,
+    v_before,
+    v_after,
+    v_batch
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists entries_audit on public.entries;
+
+create trigger entries_audit
+  after insert or update or delete on public.entries
+  for each row execute function public.entries_audit();
+
+-- Everyone whose changes appear in the log the caller can see, for the
+-- viewer's user filter (runs with the caller's RLS)
+create or replace function public.entry_audit_actors()
+returns table (actor_id text, actor_name text)
+language sql
+stable
+set search_path = public
+as $$
+  select distinct on (l.actor_id) l.actor_id, l.actor_name
+  from public.entry_audit_log l
+  where l.actor_id is not null
+  order by l.actor_id, l.id desc;
+$$;
+
+grant execute on function public.entry_audit_actors() to authenticated;
+
+commit;
@@ -0,0 +1,51 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Tip of the Day history, with the user's feedback on each tip.
+--
+-- • One row per generated tip; `tip_date` is the user's local day and
+--   the latest row of the day is the day's tip.
+-- • `fingerprint` summarizes the data the tip was generated from; the
+--   app reuses the day's tip until the fingerprint changes, so routine
+--   entries don't trigger a new (paid) model call.
+-- • `provider` records which tip provider wrote it (openai, rules, mock)
+--   so feedback can be compared between them.
+-- • Same ownership model as `entries`. Tips themselves are immutable:
+--   only `feedback` / `feedback_at` can be updated.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create table if not exists public.tips (
+  id           uuid primary key default gen_random_uuid(),
+  user_id      text not null default (auth.jwt() ->> 'sub'),
+  tip_date     date not null,
+  tip          text not null,
+  provider     text not null,
+  fingerprint  text not null,
+  feedback     text check (feedback in ('helpful', 'not_helpful')),
+  feedback_at  timestamptz,
+  created_at   timestamptz not null default now()
+);
+
+create index if not exists tips_user_id_created_at_idx
+  on public.tips (user_id, created_at desc);
+
+alter table public.tips enable row level security;
+
+revoke all on public.tips from anon;
+revoke update on public.tips from authenticated;
+grant update (feedback, feedback_at) on public.tips to authenticated;
+
+create policy "tips_select_own" on public.tips
+  for select to authenticated
+  using (user_id = auth.jwt() ->> 'sub');
+
+create policy "tips_insert_own" on public.tips
+  for insert to authenticated
+  with check (user_id = auth.jwt() ->> 'sub');
+
+create policy "tips_update_own" on public.tips
+  for update to authenticated
+  using (user_id = auth.jwt() ->> 'sub')
+  with check (user_id = auth.jwt() ->> 'sub');
+
+commit;
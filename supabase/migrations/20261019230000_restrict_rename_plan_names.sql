@@ -0,0 +1,54 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Tighten `rename_plan_names` (the settings screen's plan name merge).
+--
+-- • Admins only: renaming plans is catalog management, like editing
+--   the plan catalog itself. Everyone else gets an error.
+-- • Only the caller's own entries are rewritten, stated in the function
+--   rather than left to whatever row-level security allows.
+-- • Entries in the trash are left as they were deleted.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+create or replace function public.rename_plan_names(
+  p_from text[],
+  p_to   text
+)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+  v_count integer;
+begin
+  if public.app_role() <> 'admin' then
+    raise exception 'Only admins may rename plans'
+      using errcode = '42501';
+  end if;
+
+  update public.entries e
+    set sales = (
+      select jsonb_agg(
+        case
+          when item ->> 'plan_name' = any (p_from)
+            then jsonb_set(item, '{plan_name}', to_jsonb(p_to))
+          else item
+        end
+        order by ord
+      )
+      from jsonb_array_elements(e.sales) with ordinality as t(item, ord)
+    )
+    where e.user_id = auth.jwt() ->> 'sub'
+      and e.deleted_at is null
+      and exists (
+        select 1
+        from jsonb_array_elements(e.sales) as item
+        where item ->> 'plan_name' = any (p_from)
+      );
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+commit;
@@ -0,0 +1,62 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Freeze commission rules versions once they are in force.
+--
+-- • Estimates for a date use the version in force on that date, so a
+--   version that has started (effective_from <= current_date) must never
+--   change: overwriting, deleting or backdating one would reprice past
+--   entries.
+-- • Versions are insert-only: new versions must start after today and
+--   there is no update policy at all. A version that hasn't started yet
+--   can still be removed (and re-added with other rates).
+-- • A trigger enforces the same rule for every role, including callers
+--   that bypass row-level security.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+drop policy if exists "commission_rules_insert_admin" on public.commission_rules;
+drop policy if exists "commission_rules_update_admin" on public.commission_rules;
+drop policy if exists "commission_rules_delete_admin" on public.commission_rules;
+
+create policy "commission_rules_insert_admin" on public.commission_rules
+  for insert to authenticated
+  with check (public.app_role() = 'admin' and effective_from > current_date);
+
+create policy "commission_rules_delete_admin" on public.commission_rules
+  for delete to authenticated
+  using (public.app_role() = 'admin' and effective_from > current_date);
+
+create or replace function public.commission_rules_guard()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.effective_from <= current_date then
+      raise exception 'New commission rules must take effect after today'
+        using errcode = '23514';
+    end if;
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    raise exception 'Commission rules versions cannot be changed; add a new version instead'
+      using errcode = '42501';
+  end if;
+
+  -- DELETE
+  if old.effective_from <= current_date then
+    raise exception 'Commission rules effective % are already in force', old.effective_from
+      using errcode = '42501';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists commission_rules_guard on public.commission_rules;
+
+create trigger commission_rules_guard
+  before insert or update or delete on public.commission_rules
+  for each row execute function public.commission_rules_guard();
+
+commit;
@@ -0,0 +1,177 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Reps are put on teams by admins only.
+--
+-- • Managers could add any user id to a team they created, and the
+--   team functions then returned that user's entries. Memberships are
+--   now assignments: only admins can add, rename or remove them, and
+--   each row records the admin who made it (`assigned_by`).
+-- • Managers still create, rename and delete their own teams and read
+--   their rosters; admins see every team and roster.
+-- • `team_daily_totals`, `team_member_entries` and the managers' view of
+--   the audit log only count memberships assigned by an admin. Rows
+--   added by managers before this migration have no `assigned_by` and
+--   are ignored until an admin assigns the rep again.
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+alter table public.team_members
+  add column if not exists assigned_by text;
+
+-- Stamp the assigning admin on every insert and update
+create or replace function public.team_members_stamp_assignment()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.app_role() <> 'admin' then
+    raise exception 'Only admins can assign reps to teams'
+      using errcode = '42501';
+  end if;
+  new.assigned_by := auth.jwt() ->> 'sub';
+  return new;
+end;
+$$;
+
+drop trigger if exists team_members_stamp_assignment on public.team_members;
+
+create trigger team_members_stamp_assignment
+  before insert or update on public.team_members
+  for each row
+  execute function public.team_members_stamp_assignment();
+
+-- Teams: admins read every team
+create policy "teams_select_admin" on public.teams
+  for select to authenticated
+  using (public.app_role() = 'admin');
+
+-- Memberships: managers read their rosters, admins manage all of them
+drop policy if exists "team_members_insert_own" on public.team_members;
+drop policy if exists "team_members_update_own" on public.team_members;
+drop policy if exists "team_members_delete_own" on public.team_members;
+
+create policy "team_members_select_admin" on public.team_members
+  for select to authenticated
+  using (public.app_role() = 'admin');
+
+create policy "team_members_insert_admin" on public.team_members
+  for insert to authenticated
+  with check (public.app_role() = 'admin');
+
+create policy "team_members_update_admin" on public.team_members
+  for update to authenticated
+  using (public.app_role() = 'admin')
+  with check (public.app_role() = 'admin');
+
+create policy "team_members_delete_admin" on public.team_members
+  for delete to authenticated
+  using (public.app_role() = 'admin');
+
+create or replace function public.team_daily_totals(
+  p_team_id uuid,
+  p_from    date default null,
+  p_to      date default null
+)
+returns table (
+  user_id      text,
+  date         date,
+  entry_count  bigint,
+  voice_lines  bigint,
+  bts          bigint,
+  iot          bigint,
+  hsi          bigint,
+  accessories  numeric,
+  protection   bigint,
+  sale_count   bigint,
+  mrc_total    numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    e.user_id,
+    e.date,
+    count(*),
+    sum(e.voice_lines),
+    sum(e.bts),
+    sum(e.iot),
+    sum(e.hsi),
+    sum(e.accessories),
+    sum(e.protection),
+    sum(s.sale_count),
+    sum(s.mrc_total)
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id and m.assigned_by is not null
+  join public.teams t
+    on t.id = m.team_id
+  cross join lateral (
+    select
+      count(*)                                   as sale_count,
+      coalesce(sum((item ->> 'mrc')::numeric), 0) as mrc_total
+    from jsonb_array_elements(e.sales) as item
+  ) s
+  where (
+      (t.manager_id = auth.jwt() ->> 'sub' and public.app_role() = 'manager')
+      or public.app_role() = 'admin'
+    )
+    and e.deleted_at is null
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  group by e.user_id, e.date
+  order by e.user_id, e.date;
+$$;
+
+create or replace function public.team_member_entries(
+  p_team_id uuid,
+  p_user_id text,
+  p_from    date default null,
+  p_to      date default null
+)
+returns setof public.entries
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select e.*
+  from public.entries e
+  join public.team_members m
+    on m.team_id = p_team_id and m.user_id = e.user_id and m.assigned_by is not null
+  join public.teams t
+    on t.id = m.team_id
+  where (
+      (t.manager_id = auth.jwt() ->> 'sub' and public.app_role() = 'manager')
+      or public.app_role() = 'admin'
+    )
+    and e.deleted_at is null
+    and e.user_id = p_user_id
+    and (p_from is null or e.date >= p_from)
+    and (p_to   is null or e.date <= p_to)
+  order by e.date desc, e.created_at desc;
+$$;
+
+-- Audit log: managers see the history of reps assigned to their teams
+drop policy if exists "entry_audit_log_select_visible" on public.entry_audit_log;
+
+create policy "entry_audit_log_select_visible" on public.entry_audit_log
+  for select to authenticated
+  using (
+    user_id = auth.jwt() ->> 'sub'
+    or public.app_role() = 'admin'
+    or (
+      public.app_role() = 'manager'
+      and exists (
+        select 1
+        from public.team_members m
+        join public.teams t on t.id = m.team_id
+        where m.user_id = entry_audit_log.user_id
+          and m.assigned_by is not null
+          and t.manager_id = auth.jwt() ->> 'sub'
+      )
+    )
+  );
+
+commit;
@@ -0,0 +1,33 @@
+-- ─────────────────────────────────────────────────────────────────────
+-- Make a missing Trash purge schedule visible.
+--
+-- • 20261019200000_entries_trash scheduled `purge_deleted_entries`
+--   only when pg_cron was available and said nothing otherwise, so
+--   trashed entries could silently stay forever.
+-- • This re-checks the schedule: it is (re)created when pg_cron is
+--   available, and a warning names the fallback when it isn't, i.e.
+--   calling `select public.purge_deleted_entries();` once a day as the
+--   service role from another scheduler (see the README).
+-- ─────────────────────────────────────────────────────────────────────
+
+begin;
+
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    if not exists (select 1 from cron.job where jobname = 'purge-deleted-entries') then
+      perform cron.schedule(
+        'purge-deleted-entries',
+        '15 3 * * *',
+        'select public.purge_deleted_entries()'
+      );
+    end if;
+  else
+    raise warning 'pg_cron is not available, so trashed entries are not purged after 30 days'
+      using hint = 'Run "select public.purge_deleted_entries();" daily as the service role.';
+  end if;
+end;
+$$;
+
+commit;